@@ -13,6 +13,8 @@ export interface LLMOptions {
   temperature?: number;
   num_ctx?: number;
   max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
 }
 
 export interface LLMConfig {
@@ -29,6 +31,8 @@ export interface ProviderConfig {
   baseUrl: string;
   apiKey?: string;
   model?: string;
+  /** Extra HTTP headers sent with every request (OpenAI-compatible providers) */
+  headers?: Record<string, string>;
   /** Adapter name for model-specific prompting (e.g., "qwen", "deepseek"). Auto-detected from model name if not specified. */
   adapter?: string;
   options?: LLMOptions;
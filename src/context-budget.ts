@@ -0,0 +1,185 @@
+/**
+ * Context Budget for RLM Conversations
+ *
+ * Keeps the conversation sent to the LLM within a token budget. Local
+ * servers silently truncate prompts that overflow their context window
+ * (Ollama drops the start, which is where the system prompt lives), so
+ * once the history no longer fits, older turns are folded into a short
+ * summary instead.
+ *
+ * The history layout is the one runRLM builds:
+ *   [system prompt, query, (assistant reply, ...feedback) per turn]
+ * The system prompt, the query and the latest turns are always kept
+ * verbatim. The summary lists the commands run in the folded turns with
+ * their result counts, the errors seen in them, and all bindings available.
+ */
+
+import type { ChatMessage } from "./llm/types.js";
+
+/** Default budget: leaves room for the reply in an 8192-token context */
+export const DEFAULT_CONTEXT_BUDGET = 6000;
+
+/** Fixed overhead per message for role markers and template tokens */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Estimate the token count of a text (about 4 characters per token)
+ *
+ * This is a heuristic: no tokenizer is available for arbitrary models,
+ * and the budget only needs to be roughly right.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the token count of a list of messages
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+interface CommandNote {
+  turn: number;
+  command: string;
+  outcome: string;
+}
+
+interface ErrorNote {
+  turn: number;
+  message: string;
+}
+
+function clip(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > MAX_NOTE_LENGTH ? `${oneLine.slice(0, MAX_NOTE_LENGTH)}...` : oneLine;
+}
+
+/**
+ * Describe a result value in a few words
+ */
+export function describeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `${value.length} result${value.length === 1 ? "" : "s"}`;
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  }
+  if (value !== null && typeof value === "object") {
+    return "object";
+  }
+  return String(value);
+}
+
+/**
+ * Tracks what happened in each turn and compacts the history to fit a budget
+ */
+export class ContextBudget {
+  private commands: CommandNote[] = [];
+  private errors: ErrorNote[] = [];
+  private bindings = new Map<string, string>();
+
+  constructor(readonly maxTokens: number = DEFAULT_CONTEXT_BUDGET) {}
+
+  /**
+   * Record a command executed in a turn and what it returned
+   */
+  recordCommand(turn: number, command: string, value: unknown): void {
+    this.commands.push({ turn, command: clip(command), outcome: describeValue(value) });
+  }
+
+  /**
+   * Record a binding created (or replaced)
+   */
+  recordBinding(name: string, value: unknown): void {
+    this.bindings.set(name, describeValue(value));
+  }
+
+  /**
+   * Record an error the model caused in a turn
+   */
+  recordError(turn: number, message: string): void {
+    this.errors.push({ turn, message: clip(message) });
+  }
+
+  /**
+   * Return the messages to send: the history itself if it fits the budget,
+   * otherwise the history with its oldest turns folded into one summary.
+   * The latest turn is kept even if it alone exceeds the budget.
+   */
+  fit(history: ChatMessage[]): ChatMessage[] {
+    if (history.length <= 2 || estimateMessageTokens(history) <= this.maxTokens) {
+      return [...history];
+    }
+
+    const head = history.slice(0, 2);
+    const turns: ChatMessage[][] = [];
+    for (const message of history.slice(2)) {
+      if (message.role === "assistant" || turns.length === 0) {
+        turns.push([]);
+      }
+      turns[turns.length - 1].push(message);
+    }
+
+    // Keep the latest turns that fit alongside the head and the summary
+    let kept = 1;
+    while (kept < turns.length) {
+      const folded = turns.length - kept - 1;
+      const candidate = [
+        ...head,
+        this.summarize(folded),
+        ...turns.slice(folded).flat(),
+      ];
+      if (estimateMessageTokens(candidate) > this.maxTokens) break;
+      kept++;
+    }
+
+    // A single turn has nothing older to fold
+    const foldedTurns = turns.length - kept;
+    if (foldedTurns === 0) {
+      return [...history];
+    }
+    return [...head, this.summarize(foldedTurns), ...turns.slice(foldedTurns).flat()];
+  }
+
+  /**
+   * Build the summary message for turns 1..lastTurn
+   */
+  private summarize(lastTurn: number): ChatMessage {
+    const lines = [
+      lastTurn === 1
+        ? "[Turn 1 was compacted to fit the context budget]"
+        : `[Turns 1-${lastTurn} were compacted to fit the context budget]`,
+    ];
+
+    const commands = this.commands.filter((c) => c.turn <= lastTurn);
+    if (commands.length > 0) {
+      lines.push("Commands run:");
+      for (const c of commands) {
+        lines.push(`- Turn ${c.turn}: ${c.command} -> ${c.outcome}`);
+      }
+    }
+
+    // Bindings are live state, so list all of them rather than only the folded ones
+    if (this.bindings.size > 0) {
+      lines.push("Bindings available:");
+      for (const [name, description] of this.bindings) {
+        lines.push(`- ${name}: ${description}`);
+      }
+    }
+
+    const errors = this.errors.filter((e) => e.turn <= lastTurn);
+    if (errors.length > 0) {
+      lines.push("Errors already seen (do not repeat these):");
+      const seen = new Set<string>();
+      for (const e of errors) {
+        if (seen.has(e.message)) continue;
+        seen.add(e.message);
+        lines.push(`- Turn ${e.turn}: ${e.message}`);
+      }
+    }
+
+    return { role: "user", content: lines.join("\n") };
+  }
+}
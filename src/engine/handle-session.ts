@@ -7,13 +7,25 @@
 
 import { readFile } from "node:fs/promises";
 import { extname } from "node:path";
-import { NucleusEngine } from "./nucleus-engine.js";
-import { SessionDB } from "../persistence/session-db.js";
+import {
+  NucleusEngine,
+  formatFromPath,
+  type DocumentFormat,
+  type ExecutionResult,
+} from "./nucleus-engine.js";
+import type { SolveOptions } from "../logic/lc-solver.js";
+import { SessionDB, type TableColumn } from "../persistence/session-db.js";
 import { HandleRegistry } from "../persistence/handle-registry.js";
 import { HandleOps } from "../persistence/handle-ops.js";
+import {
+  CheckpointManager,
+  type CheckpointMetadata,
+  type CheckpointVariables,
+} from "../persistence/checkpoint.js";
 import { ParserRegistry } from "../treesitter/parser-registry.js";
 import { SymbolExtractor } from "../treesitter/symbol-extractor.js";
 import { isExtensionSupported } from "../treesitter/language-map.js";
+import { parseDelimitedTable } from "../logic/structured.js";
 
 /**
  * Result of a handle-based query execution
@@ -58,6 +70,40 @@ export interface ExpandResult {
   error?: string;
 }
 
+/**
+ * Options for creating a HandleSession
+ */
+export interface HandleSessionOptions {
+  /** Directory for on-disk sessions (default: in-memory, nothing saved) */
+  sessionDir?: string;
+  /** Session ID, which names the database file (default: a new ID) */
+  sessionId?: string;
+  /** Engine to run queries on (default: a new one) */
+  engine?: NucleusEngine;
+}
+
+/**
+ * A stored handle with its size and stub
+ */
+export interface HandleSummary {
+  handle: string;
+  count: number;
+  stub: string;
+  /** Whether RESULTS points to this handle */
+  results: boolean;
+}
+
+/**
+ * A synthesized function value, as returned by (define-fn ...)
+ */
+function isSynthesizedFn(value: unknown): value is { _type: "synthesized-fn"; name: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { _type?: unknown })._type === "synthesized-fn"
+  );
+}
+
 /**
  * HandleSession - combines NucleusEngine with handle-based storage
  */
@@ -66,6 +112,7 @@ export class HandleSession {
   private db: SessionDB;
   private registry: HandleRegistry;
   private ops: HandleOps;
+  private checkpoints: CheckpointManager;
   private parserRegistry: ParserRegistry;
   private symbolExtractor: SymbolExtractor;
   private parserInitialized: boolean = false;
@@ -74,16 +121,79 @@ export class HandleSession {
   private loadedAt: Date | null = null;
   private lastAccessedAt: Date | null = null;
   private queryCount: number = 0;
-
-  constructor() {
-    this.engine = new NucleusEngine();
-    this.db = new SessionDB();
+  /** Handle that stores each array result, for checkpoint variables */
+  private handleOf = new WeakMap<unknown[], string>();
+  /** Command that defined each synthesized function */
+  private definitionOf = new WeakMap<object, string>();
+  /** Synthesized functions by defining command, reused on restore */
+  private definitions = new Map<string, object>();
+
+  constructor(options: HandleSessionOptions = {}) {
+    const sessionId = options.sessionId ?? CheckpointManager.createSessionId();
+    this.engine = options.engine ?? new NucleusEngine();
+    this.db = new SessionDB(
+      options.sessionDir ? CheckpointManager.sessionPath(options.sessionDir, sessionId) : ":memory:"
+    );
     this.registry = new HandleRegistry(this.db);
     this.ops = new HandleOps(this.db, this.registry);
+    this.checkpoints = new CheckpointManager(this.db, this.registry, sessionId);
+    // Checkpoint after every query so it can be undone
+    this.checkpoints.enableAutoCheckpoint(true);
     this.parserRegistry = new ParserRegistry();
     this.symbolExtractor = new SymbolExtractor(this.parserRegistry);
   }
 
+  /**
+   * Reopen a session saved in a session directory
+   *
+   * Restores the document, FTS index, symbols, table, handles and
+   * bindings from the last checkpoint. The document is loaded into
+   * `engine` when given.
+   */
+  static resume(sessionId: string, sessionDir: string, engine?: NucleusEngine): HandleSession {
+    if (!CheckpointManager.hasSession(sessionDir, sessionId)) {
+      throw new Error(`No saved session "${sessionId}" in ${sessionDir}`);
+    }
+    const session = new HandleSession({ sessionDir, sessionId, engine });
+    session.restoreSaved();
+    return session;
+  }
+
+  /**
+   * Rebuild engine state from the reopened database
+   */
+  private restoreSaved(): void {
+    const path = this.db.getMeta("documentPath") ?? "<string>";
+    const content = this.db.getDocumentContent();
+    this.engine.loadContent(content, formatFromPath(path));
+    this.engine.setBinding("_sessionDB", this.db);
+
+    const turns = this.checkpoints.listTurns();
+    const turn = turns.length > 0 ? turns[turns.length - 1] : 0;
+    this.applyCheckpoint(turn);
+
+    const loadedAt = this.db.getMeta("loadedAt");
+    this.documentPath = path;
+    this.documentSize = content.length;
+    this.loadedAt = loadedAt ? new Date(loadedAt) : new Date();
+    this.lastAccessedAt = new Date();
+    this.queryCount = turn;
+  }
+
+  /**
+   * Get the session ID (names the database file of on-disk sessions)
+   */
+  getSessionId(): string {
+    return this.checkpoints.getSessionId();
+  }
+
+  /**
+   * Check if the session is saved to disk
+   */
+  isPersistent(): boolean {
+    return this.db.isPersistent();
+  }
+
   /**
    * Initialize the parser registry (call before loading code files)
    * This is called automatically by loadContent but can be called early
@@ -111,7 +221,7 @@ export class HandleSession {
    */
   loadContent(content: string, path: string = "<string>"): { lineCount: number; size: number } {
     // Load into NucleusEngine for query execution
-    this.engine.loadContent(content);
+    this.engine.loadContent(content, formatFromPath(path));
 
     // Also load into SessionDB for FTS5 search and handle storage
     const lineCount = this.db.loadDocument(content);
@@ -119,6 +229,9 @@ export class HandleSession {
     // Clear any existing symbols before loading new content
     this.db.clearSymbols();
 
+    // CSV/TSV documents are also stored as a typed table
+    this.loadTable(content, path);
+
     // Extract symbols for code files (async, but we fire and forget for sync API)
     const ext = extname(path);
     if (ext && isExtensionSupported(ext)) {
@@ -133,6 +246,10 @@ export class HandleSession {
     this.loadedAt = new Date();
     this.lastAccessedAt = new Date();
     this.queryCount = 0;
+    this.db.setMeta("documentPath", path);
+    this.db.setMeta("loadedAt", this.loadedAt.toISOString());
+    this.checkpoints.clearAll();
+    this.checkpoints.save(0);
 
     return { lineCount, size: content.length };
   }
@@ -143,7 +260,7 @@ export class HandleSession {
    */
   async loadContentWithSymbols(content: string, path: string = "<string>"): Promise<{ lineCount: number; size: number }> {
     // Load into NucleusEngine for query execution
-    this.engine.loadContent(content);
+    this.engine.loadContent(content, formatFromPath(path));
 
     // Also load into SessionDB for FTS5 search and handle storage
     const lineCount = this.db.loadDocument(content);
@@ -151,6 +268,9 @@ export class HandleSession {
     // Clear any existing symbols before loading new content
     this.db.clearSymbols();
 
+    // CSV/TSV documents are also stored as a typed table
+    this.loadTable(content, path);
+
     // Extract symbols for code files
     const ext = extname(path);
     if (ext && isExtensionSupported(ext)) {
@@ -166,10 +286,31 @@ export class HandleSession {
     this.loadedAt = new Date();
     this.lastAccessedAt = new Date();
     this.queryCount = 0;
+    this.db.setMeta("documentPath", path);
+    this.db.setMeta("loadedAt", this.loadedAt.toISOString());
+    this.checkpoints.clearAll();
+    this.checkpoints.save(0);
 
     return { lineCount, size: content.length };
   }
 
+  /**
+   * Store .csv/.tsv rows in the SessionDB table (cleared for other files)
+   */
+  private loadTable(content: string, path: string): void {
+    const ext = extname(path).toLowerCase();
+    if (ext !== ".csv" && ext !== ".tsv") {
+      this.db.clearTable();
+      return;
+    }
+    const { columns, rows } = parseDelimitedTable(content, ext === ".tsv" ? "\t" : ",");
+    if (columns.length === 0) {
+      this.db.clearTable();
+      return;
+    }
+    this.db.loadTable(columns, rows);
+  }
+
   /**
    * Extract and store symbols (async, fire-and-forget for sync load)
    */
@@ -201,7 +342,13 @@ export class HandleSession {
   /**
    * Get document statistics
    */
-  getStats(): { path: string; lineCount: number; size: number; loadedAt: Date | null } | null {
+  getStats(): {
+    path: string;
+    lineCount: number;
+    size: number;
+    format: DocumentFormat;
+    loadedAt: Date | null;
+  } | null {
     const engineStats = this.engine.getStats();
     if (!engineStats) return null;
 
@@ -209,10 +356,21 @@ export class HandleSession {
       path: this.documentPath,
       lineCount: engineStats.lineCount,
       size: this.documentSize,
+      format: this.engine.getFormat(),
       loadedAt: this.loadedAt,
     };
   }
 
+  /**
+   * Get table columns and row count for a loaded CSV/TSV document
+   * Returns null when the document is not tabular
+   */
+  getTableInfo(): { columns: TableColumn[]; rowCount: number } | null {
+    const columns = this.db.getTableColumns();
+    if (columns.length === 0) return null;
+    return { columns, rowCount: this.db.countRows() };
+  }
+
   /**
    * Execute a Nucleus query and return handle-based result
    *
@@ -221,10 +379,49 @@ export class HandleSession {
    */
   execute(command: string): HandleResult {
     this.lastAccessedAt = new Date();
-    this.queryCount++;
 
     // Execute via NucleusEngine
-    const result = this.engine.execute(command);
+    return this.record(command, this.engine.execute(command));
+  }
+
+  /**
+   * Execute a Nucleus query without blocking the event loop.
+   *
+   * Reports progress (lines scanned, items processed) through
+   * `options.onProgress` and fails with "Query cancelled" once
+   * `options.signal` is aborted.
+   */
+  async executeAsync(command: string, options: SolveOptions = {}): Promise<HandleResult> {
+    this.lastAccessedAt = new Date();
+    return this.record(command, await this.engine.executeAsync(command, options));
+  }
+
+  /**
+   * Execute queries in order, each seeing the previous one's RESULTS.
+   *
+   * With `stopOnError` the first failed step ends the batch; a cancelled
+   * batch always stops. Returns the results of the steps that ran.
+   */
+  async executeBatch(
+    commands: string[],
+    stopOnError: boolean = false,
+    options: SolveOptions = {}
+  ): Promise<HandleResult[]> {
+    const results: HandleResult[] = [];
+    for (const command of commands) {
+      const result = await this.executeAsync(command, options);
+      results.push(result);
+      if (!result.success && (stopOnError || options.signal?.aborted)) break;
+    }
+    return results;
+  }
+
+  /**
+   * Store an engine result: arrays become handles, then checkpoint.
+   * For callers that run this session's engine themselves.
+   */
+  record(command: string, result: ExecutionResult): HandleResult {
+    this.queryCount++;
 
     if (!result.success) {
       return {
@@ -239,6 +436,8 @@ export class HandleSession {
     if (Array.isArray(result.value)) {
       const handle = this.registry.store(result.value);
       this.registry.setResults(handle);
+      this.handleOf.set(result.value, handle);
+      this.checkpoints.onOperation(this.queryCount, this.snapshotVariables());
 
       // Get the stub for LLM context
       const stub = this.registry.getStub(handle);
@@ -252,7 +451,13 @@ export class HandleSession {
       };
     }
 
+    if (isSynthesizedFn(result.value)) {
+      this.definitions.set(command, result.value);
+      this.definitionOf.set(result.value, command);
+    }
+
     // Scalar result - return directly
+    this.checkpoints.onOperation(this.queryCount, this.snapshotVariables());
     return {
       success: true,
       value: result.value,
@@ -261,6 +466,142 @@ export class HandleSession {
     };
   }
 
+  /**
+   * Save the current state as a named checkpoint. Returns its turn.
+   */
+  checkpoint(name: string): number {
+    if (name.trim() === "") {
+      throw new Error("Checkpoint name must not be empty");
+    }
+    this.checkpoints.save(this.queryCount, this.snapshotVariables(), name);
+    return this.queryCount;
+  }
+
+  /**
+   * Go back to a named checkpoint or a turn. Handles created since are
+   * deleted and later checkpoints discarded; new queries continue from
+   * the restored state. Returns the restored turn.
+   */
+  restore(target: string | number): number {
+    const turn = typeof target === "number" ? target : this.checkpoints.findByLabel(target);
+    if (turn === null) {
+      throw new Error(`No checkpoint named "${target}"`);
+    }
+    if (turn > this.queryCount || !this.applyCheckpoint(turn)) {
+      throw new Error(`No checkpoint at turn ${turn}`);
+    }
+    this.lastAccessedAt = new Date();
+    return turn;
+  }
+
+  /**
+   * Undo the last `steps` successful queries. Returns the restored turn.
+   */
+  undo(steps: number = 1): number {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`steps must be a positive integer, got ${steps}`);
+    }
+    // The latest checkpoint is the current state
+    const turns = this.checkpoints.listTurns().filter((t) => t <= this.queryCount);
+    const available = turns.length - 1;
+    if (available <= 0) {
+      throw new Error("Nothing to undo");
+    }
+    if (steps > available) {
+      throw new Error(`Cannot undo ${steps} queries: only ${available} to undo`);
+    }
+    return this.restore(turns[turns.length - 1 - steps]);
+  }
+
+  /**
+   * List saved checkpoints, oldest first
+   */
+  listCheckpoints(): CheckpointMetadata[] {
+    return this.checkpoints.list();
+  }
+
+  /**
+   * Capture engine variables for a checkpoint
+   */
+  private snapshotVariables(): CheckpointVariables {
+    const variables: CheckpointVariables = new Map();
+    for (const name of Object.keys(this.engine.getBindings())) {
+      if (name === "RESULTS" || name === "_sessionDB") continue;
+      const value = this.engine.getBinding(name);
+
+      if (name.startsWith("_fn_")) {
+        const source = isSynthesizedFn(value) ? this.definitionOf.get(value) : undefined;
+        if (source) variables.set(name, source);
+      } else if (Array.isArray(value)) {
+        const handle = this.handleOf.get(value);
+        if (handle) variables.set(name, handle);
+      } else if (!isSynthesizedFn(value)) {
+        // _N of a define-fn turn is skipped; the function is kept as _fn_<name>
+        const json = JSON.stringify(value);
+        if (json !== undefined) variables.set(name, json);
+      }
+    }
+    return variables;
+  }
+
+  /**
+   * Restore handles, RESULTS and engine variables from a checkpoint
+   */
+  private applyCheckpoint(turn: number): boolean {
+    const variables = this.checkpoints.getVariables(turn);
+    if (!variables || !this.checkpoints.restore(turn)) return false;
+
+    // Load each handle once so RESULTS and _N share their array
+    const loaded = new Map<string, unknown[] | null>();
+    const load = (handle: string): unknown[] | null => {
+      if (!loaded.has(handle)) {
+        const data = this.registry.get(handle);
+        if (data) this.handleOf.set(data, handle);
+        loaded.set(handle, data);
+      }
+      return loaded.get(handle)!;
+    };
+
+    const bindings = new Map<string, unknown>();
+    for (const [name, value] of variables) {
+      if (name.startsWith("_fn_")) {
+        const fn = this.define(value);
+        if (fn) bindings.set(name, fn);
+      } else if (/^\$res\d+$/.test(value)) {
+        const data = load(value);
+        if (data) bindings.set(name, data);
+      } else {
+        bindings.set(name, JSON.parse(value));
+      }
+    }
+
+    const resultsHandle = this.registry.getResults();
+    const results = resultsHandle ? load(resultsHandle) : null;
+    if (results) {
+      bindings.set("RESULTS", results);
+    }
+    bindings.set("_sessionDB", this.db);
+
+    this.engine.restoreBindings(bindings, turn);
+    this.queryCount = turn;
+    return true;
+  }
+
+  /**
+   * Get the synthesized function for a (define-fn ...) command
+   */
+  private define(source: string): object | null {
+    const cached = this.definitions.get(source);
+    if (cached) return cached;
+
+    // Defined before this process started (resumed session): synthesize again
+    const result = this.engine.execute(source);
+    if (!result.success || !isSynthesizedFn(result.value)) return null;
+    this.definitions.set(source, result.value);
+    this.definitionOf.set(result.value, source);
+    return result.value;
+  }
+
   /**
    * Expand a handle to get full data
    *
@@ -292,7 +633,7 @@ export class HandleSession {
           // Extract line content
           const line = obj.line ?? obj.content ?? obj.text;
           if (line !== undefined) {
-            const lineNum = obj.lineNum ?? obj.lineNumber ?? obj.num;
+            const lineNum = obj.lineNum ?? obj.lineNumber ?? obj.num ?? obj.startLine;
             if (lineNum !== undefined) {
               return `[${lineNum}] ${line}`;
             }
@@ -356,6 +697,46 @@ export class HandleSession {
     return bindings;
   }
 
+  /**
+   * List the handles of this session ($res1, $res2, ...)
+   */
+  listHandles(): string[] {
+    return this.registry.listHandles();
+  }
+
+  /**
+   * List the handles with their item count and stub
+   */
+  listHandleSummaries(): HandleSummary[] {
+    const results = this.registry.getResults();
+    return this.registry.listHandles().map((handle) => ({
+      handle,
+      count: this.registry.getCount(handle),
+      stub: this.registry.getStub(handle),
+      results: handle === results,
+    }));
+  }
+
+  /**
+   * Get a handle's one-line stub
+   */
+  getStub(handle: string): string {
+    return this.registry.getStub(handle);
+  }
+
+  /**
+   * Delete a handle. The handle RESULTS points to cannot be deleted.
+   */
+  deleteHandle(handle: string): void {
+    if (this.registry.get(handle) === null) {
+      throw new Error(`Invalid handle: ${handle}`);
+    }
+    if (handle === this.registry.getResults()) {
+      throw new Error(`Cannot delete ${handle}: RESULTS points to it`);
+    }
+    this.registry.delete(handle);
+  }
+
   /**
    * Build context string with all handle stubs
    */
@@ -373,14 +754,22 @@ export class HandleSession {
       this.registry.delete(handle);
     }
 
-    // Reset engine state
+    // Reset engine state, keeping the document database reachable
     this.engine.reset();
+    if (this.engine.isLoaded()) {
+      this.engine.setBinding("_sessionDB", this.db);
+    }
+
+    // Earlier checkpoints refer to the deleted handles
+    this.checkpoints.clearAll();
+    this.checkpoints.save(this.queryCount);
   }
 
   /**
    * Get session info
    */
   getSessionInfo(): {
+    sessionId: string;
     documentPath: string;
     documentSize: number;
     loadedAt: Date | null;
@@ -389,6 +778,7 @@ export class HandleSession {
     handleCount: number;
   } {
     return {
+      sessionId: this.getSessionId(),
       documentPath: this.documentPath,
       documentSize: this.documentSize,
       loadedAt: this.loadedAt,
@@ -8,6 +8,10 @@ export {
   NucleusEngine,
   createEngine,
   createEngineFromContent,
+  formatFromPath,
   type ExecutionResult,
   type NucleusEngineOptions,
+  type DocumentFormat,
 } from "./nucleus-engine.js";
+
+export type { SolveOptions, SolveProgress } from "../logic/lc-solver.js";
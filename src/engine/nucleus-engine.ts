@@ -9,9 +9,22 @@
  */
 
 import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
 import { parse as parseLC } from "../logic/lc-parser.js";
 import { inferType, typeToString } from "../logic/type-inference.js";
-import { solve as solveTerm, type SolverTools, type Bindings } from "../logic/lc-solver.js";
+import type { LCTerm } from "../logic/types.js";
+import {
+  solve as solveTerm,
+  solveAsync,
+  type SolverTools,
+  type Bindings,
+  type GrepMatch,
+  type GrepScanStep,
+  type SolveOptions,
+  type SolveResult,
+} from "../logic/lc-solver.js";
+import { splitRecords } from "../logic/records.js";
+import { parseJsonLines } from "../logic/structured.js";
 
 /**
  * Result of executing a Nucleus command
@@ -24,6 +37,22 @@ export interface ExecutionResult {
   type?: string;
 }
 
+/**
+ * How a document is interpreted. JSON documents are also parsed so
+ * (jpath ...) can query them; grep and lines still see the raw text.
+ */
+export type DocumentFormat = "text" | "json" | "jsonl";
+
+/**
+ * Document format for a file path, from its extension
+ */
+export function formatFromPath(path: string): DocumentFormat {
+  const ext = extname(path).toLowerCase();
+  if (ext === ".json") return "json";
+  if (ext === ".jsonl" || ext === ".ndjson") return "jsonl";
+  return "text";
+}
+
 /**
  * Options for creating a NucleusEngine
  */
@@ -32,10 +61,23 @@ export interface NucleusEngineOptions {
   verbose?: boolean;
 }
 
+/** Matches found between grep progress steps */
+const GREP_STEP = 1000;
+
+/** Lines scanned between grep progress steps */
+const GREP_SCAN_LINES = 10000;
+
+/**
+ * Pattern syntax that can match a newline: \s \S \W \D \n, character
+ * escapes, negated classes and literal newlines. Conservative: an escaped
+ * backslash followed by one of these letters also counts.
+ */
+const NEWLINE_SYNTAX = /\\[sSWDnxuc0-7]|\[\^|\n/;
+
 /**
  * Create SolverTools from document content
  */
-function createSolverTools(context: string): SolverTools {
+function createSolverTools(context: string, json?: unknown): SolverTools {
   const lines = context.split("\n");
 
   const textStats = {
@@ -79,36 +121,81 @@ function createSolverTools(context: string): SolverTools {
     return queryIndex === queryLower.length ? score : 0;
   }
 
-  return {
-    context,
+  /**
+   * Grep the document GREP_SCAN_LINES lines at a time, yielding after
+   * each chunk and after every GREP_STEP new matches, so a grep with few
+   * matches still reports progress and can be cancelled. A pattern that
+   * can match a newline may span chunks, so it searches the whole text
+   * and yields only between matches.
+   * Line numbers are counted incrementally from the previous match.
+   */
+  function* scanGrep(pattern: string): Generator<GrepScanStep, GrepMatch[], void> {
+    const flags = "gmi";
+    const regex = new RegExp(pattern, flags);
+    const results: GrepMatch[] = [];
+    let reported = 0;
+    let chunkOffset = 0;
+    const chunkLines = NEWLINE_SYNTAX.test(pattern) ? lines.length : GREP_SCAN_LINES;
+
+    for (let first = 0; first < lines.length; first += chunkLines) {
+      const last = Math.min(first + chunkLines, lines.length);
+      let chunkLength = last - first - 1;
+      for (let i = first; i < last; i++) {
+        chunkLength += lines[i].length;
+      }
+      const chunk = context.slice(chunkOffset, chunkOffset + chunkLength);
 
-    grep: (pattern: string) => {
-      const flags = "gmi";
-      const regex = new RegExp(pattern, flags);
-      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let lineNum = first + 1;
+      let lineStart = 0;
       let match;
-
-      while ((match = regex.exec(context)) !== null) {
-        const beforeMatch = context.slice(0, match.index);
-        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
-        const line = lines[lineNum - 1] || "";
+      regex.lastIndex = 0;
+      while ((match = regex.exec(chunk)) !== null) {
+        let newline = chunk.indexOf("\n", lineStart);
+        while (newline !== -1 && newline < match.index) {
+          lineNum++;
+          lineStart = newline + 1;
+          newline = chunk.indexOf("\n", lineStart);
+        }
 
         results.push({
           match: match[0],
-          line: line,
+          line: lines[lineNum - 1] || "",
           lineNum: lineNum,
-          index: match.index,
+          index: chunkOffset + match.index,
           groups: match.slice(1),
         });
 
         if (match[0].length === 0) {
           regex.lastIndex++;
         }
+        if (results.length - reported >= GREP_STEP) {
+          yield { scanned: lineNum, found: results.slice(reported) };
+          reported = results.length;
+        }
       }
 
-      return results;
+      yield { scanned: last, found: results.slice(reported) };
+      reported = results.length;
+      chunkOffset += chunkLength + 1;
+    }
+
+    return results;
+  }
+
+  return {
+    context,
+
+    grep: (pattern: string) => {
+      const scan = scanGrep(pattern);
+      let step = scan.next();
+      while (!step.done) {
+        step = scan.next();
+      }
+      return step.value;
     },
 
+    scanGrep,
+
     fuzzy_search: (query: string, limit: number = 10) => {
       const results: Array<{ line: string; lineNum: number; score: number }> = [];
 
@@ -128,6 +215,10 @@ function createSolverTools(context: string): SolverTools {
     },
 
     text_stats: () => ({ ...textStats }),
+
+    records: (pattern: string) => splitRecords(context, pattern),
+
+    json,
   };
 }
 
@@ -152,6 +243,9 @@ export class NucleusEngine {
   private solverTools: SolverTools | null = null;
   private verbose: boolean;
   private turnCounter: number = 0;
+  private format: DocumentFormat = "text";
+  /** Settles when the running executeAsync command finishes */
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(options: NucleusEngineOptions = {}) {
     this.verbose = options.verbose ?? false;
@@ -162,24 +256,54 @@ export class NucleusEngine {
    */
   async loadFile(filePath: string): Promise<void> {
     const content = await readFile(filePath, "utf-8");
-    this.loadContent(content);
+    this.loadContent(content, formatFromPath(filePath));
   }
 
   /**
    * Load a document from a string
+   *
+   * A "json" document that fails to parse is loaded as text.
+   * Invalid lines of a "jsonl" document are skipped.
    */
-  loadContent(content: string): void {
+  loadContent(content: string, format: DocumentFormat = "text"): void {
+    let json: unknown = undefined;
+    this.format = "text";
+    if (format === "json") {
+      try {
+        json = JSON.parse(content);
+        this.format = "json";
+      } catch (err) {
+        if (this.verbose) {
+          console.log(`[Engine] Not valid JSON, loading as text: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+    } else if (format === "jsonl") {
+      const { items, invalid } = parseJsonLines(content);
+      json = items;
+      this.format = "jsonl";
+      if (this.verbose && invalid > 0) {
+        console.log(`[Engine] Skipped ${invalid} invalid JSON lines`);
+      }
+    }
+
     this.context = content;
-    this.solverTools = createSolverTools(content);
+    this.solverTools = createSolverTools(content, json);
     this.bindings.clear();
     this.turnCounter = 0;
 
     if (this.verbose) {
       const lines = content.split("\n").length;
-      console.log(`[Engine] Loaded document: ${content.length.toLocaleString()} chars, ${lines.toLocaleString()} lines`);
+      console.log(`[Engine] Loaded ${this.format} document: ${content.length.toLocaleString()} chars, ${lines.toLocaleString()} lines`);
     }
   }
 
+  /**
+   * Get how the loaded document is interpreted
+   */
+  getFormat(): DocumentFormat {
+    return this.format;
+  }
+
   /**
    * Check if a document is loaded
    */
@@ -203,12 +327,49 @@ export class NucleusEngine {
    * @returns Execution result with value, logs, and any errors
    */
   execute(command: string): ExecutionResult {
+    const prepared = this.prepare(command);
+    if ("error" in prepared) {
+      return prepared.error;
+    }
+    const solverResult = solveTerm(prepared.term, prepared.tools, this.bindings);
+    return this.complete(solverResult, prepared.type);
+  }
+
+  /**
+   * Execute a Nucleus command without blocking the event loop
+   *
+   * Long queries yield periodically, report progress through
+   * `options.onProgress` and stop when `options.signal` is aborted.
+   * Async commands run one at a time, so each sees the previous
+   * command's RESULTS.
+   */
+  executeAsync(command: string, options: SolveOptions = {}): Promise<ExecutionResult> {
+    const run = this.queue.then(async () => {
+      const prepared = this.prepare(command);
+      if ("error" in prepared) {
+        return prepared.error;
+      }
+      const solverResult = await solveAsync(prepared.term, prepared.tools, this.bindings, options);
+      return this.complete(solverResult, prepared.type);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Parse and type-check a command
+   */
+  private prepare(
+    command: string
+  ): { term: LCTerm; tools: SolverTools; type?: string } | { error: ExecutionResult } {
     if (!this.solverTools) {
       return {
-        success: false,
-        value: null,
-        logs: [],
-        error: "No document loaded. Call loadFile() or loadContent() first.",
+        error: {
+          success: false,
+          value: null,
+          logs: [],
+          error: "No document loaded. Call loadFile() or loadContent() first.",
+        },
       };
     }
 
@@ -216,10 +377,12 @@ export class NucleusEngine {
     const parseResult = parseLC(command);
     if (!parseResult.success || !parseResult.term) {
       return {
-        success: false,
-        value: null,
-        logs: [],
-        error: `Parse error: ${parseResult.error}`,
+        error: {
+          success: false,
+          value: null,
+          logs: [],
+          error: `Parse error: ${parseResult.error}`,
+        },
       };
     }
 
@@ -227,17 +390,26 @@ export class NucleusEngine {
     const typeResult = inferType(parseResult.term);
     if (!typeResult.valid) {
       return {
-        success: false,
-        value: null,
-        logs: [],
-        error: `Type error: ${typeResult.error}`,
+        error: {
+          success: false,
+          value: null,
+          logs: [],
+          error: `Type error: ${typeResult.error}`,
+        },
       };
     }
 
-    // Execute the term
-    const solverResult = solveTerm(parseResult.term, this.solverTools, this.bindings);
+    return {
+      term: parseResult.term,
+      tools: this.solverTools,
+      type: typeResult.type ? typeToString(typeResult.type) : undefined,
+    };
+  }
 
-    // Update bindings for cross-query state
+  /**
+   * Record a solver result in the bindings for cross-query state
+   */
+  private complete(solverResult: SolveResult, type: string | undefined): ExecutionResult {
     this.turnCounter++;
     if (solverResult.success && solverResult.value !== null && solverResult.value !== undefined) {
       this.bindings.set(`_${this.turnCounter}`, solverResult.value);
@@ -271,7 +443,7 @@ export class NucleusEngine {
       value: solverResult.value,
       logs: solverResult.logs,
       error: solverResult.error,
-      type: typeResult.type ? typeToString(typeResult.type) : undefined,
+      type,
     };
   }
 
@@ -315,6 +487,15 @@ export class NucleusEngine {
     this.bindings.set(name, value);
   }
 
+  /**
+   * Replace all bindings, e.g. with a restored checkpoint.
+   * Turn numbering (_1, _2, ...) continues after `turn`.
+   */
+  restoreBindings(bindings: Map<string, unknown>, turn: number): void {
+    this.bindings = new Map(bindings);
+    this.turnCounter = turn;
+  }
+
   /**
    * Reset all bindings (clear state)
    */
@@ -343,9 +524,12 @@ Nucleus Command Reference
 
 SEARCH OPERATIONS (impure - access document):
   (grep "pattern")              Search for regex pattern, returns matches
+  (grep "pattern" :context n)   Matches with n lines of context, overlapping windows merged
+  (context RESULTS n)           Add n lines of context around existing results
   (fuzzy_search "query" limit)  Fuzzy search, returns top matches by relevance
   (text_stats)                  Get document statistics
   (lines start end)             Get lines in range (1-indexed)
+  (records "start-pattern")     Split into multi-line records {text, startLine, endLine}
 
 SYMBOL OPERATIONS (code files only - requires tree-sitter):
   (list_symbols)                List all symbols (functions, classes, methods, etc.)
@@ -359,11 +543,26 @@ COLLECTION OPERATIONS (pure - work on RESULTS):
   (map RESULTS transform)       Transform each item
   (count RESULTS)               Count items
   (sum RESULTS)                 Sum numeric values
+  (min RESULTS) / (max RESULTS) Smallest / largest numeric value
+  (avg RESULTS)                 Mean of numeric values
+  (median RESULTS)              Median of numeric values
+  (percentile RESULTS p)        p-th percentile (0-100), e.g. 95 for p95
+  (stddev RESULTS)              Population standard deviation
   (reduce RESULTS init fn)      Generic reduce
+  (sort RESULTS [key] ["desc"])  Stable sort, optionally by key lambda
+  (take RESULTS n)              First n items
+  (drop RESULTS n)              All but the first n items
+  (top_k RESULTS k [key])       k items with the largest key
+  (group_by RESULTS key)        {key, count, items} per distinct key
+  (frequencies RESULTS [key])   {key, count} per key, most frequent first
+  (group_sum RESULTS key value) {key, count, sum} per key, largest sum first
 
 PREDICATES (for filter):
   (lambda (x) (match x "pattern" group))   Regex match predicate
   (classify "line1" true "line2" false)    Build classifier from examples
+  (and p1 p2 ...) / (or p1 p2 ...) / (not p)  Combine predicates
+  (> a b) (< a b) (>= a b) (<= a b) (= a b)   Compare (numeric strings compare as numbers)
+  (contains x "sub") (starts_with x "pre") (ends_with x "suf")  Case-insensitive
 
 STRING OPERATIONS:
   (match str "pattern" group)   Extract regex group from string
@@ -372,6 +571,24 @@ STRING OPERATIONS:
   (parseInt str)                Parse string to integer
   (parseFloat str)              Parse string to float
 
+STRUCTURED FIELDS:
+  (parse_json str)              Parse JSON line into a record (null if invalid)
+  (parse_kv str)                Parse key=value pairs into a record
+  (parse_csv_row str ["a,b"])   Split CSV row; with column names returns a record
+  (get record "field")          Read field; dotted paths like "user.id" work
+
+JSON (.json/.jsonl documents):
+  (jpath "$.items[*].price")    Values with their paths: {path, value}
+                                Supports .name ["name"] [n] [-n] [*] .* ..name
+  (avg (jpath "$..latency"))    Aggregates and filters work on the values
+
+TABLES (.csv/.tsv documents, header row gives column names):
+  (where (> "amount" 1000))     Rows matching a predicate, as records
+  (column "region")             Values of one column
+  (column (where pred) "amount")
+                                Column values of matching rows
+  (sum (column "amount"))       sum/count/avg/min/max of numeric columns run as SQL
+
 TYPE COERCION:
   (parseDate str)               Parse date string to ISO format
   (parseCurrency str)           Parse currency string to number
@@ -382,6 +599,13 @@ SYNTHESIS:
   (synthesize (example "in1" out1) (example "in2" out2) ...)
                                 Synthesize function from examples
 
+LOCAL BINDINGS AND SEQUENCING (one query, whole pipeline):
+  (let ((errs (grep "ERROR")) (n (count errs))) n)
+                                Bind names in order; later bindings see earlier ones
+  (do (grep "ERROR") (filter RESULTS pred) (count RESULTS))
+                                Run terms in order, return the last value
+                                (array results rebind RESULTS for the next term)
+
 VARIABLES (for use in queries):
   RESULTS                       Last array result (auto-bound)
   _1, _2, _3, ...              Results from turn N (auto-bound)
@@ -7,9 +7,12 @@
 
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
-import { runRLM } from "./rlm.js";
+import { runRLMWithTrace } from "./rlm.js";
+import { createTraceHooks } from "./rlm-trace.js";
 import { loadConfig } from "./config.js";
-import { createLLMClient } from "./llm/index.js";
+import { createLLMClient, createLLMChatClient } from "./llm/index.js";
+import { CassetteRecorder, createReplayClient, type ReplayMode } from "./llm/cassette.js";
+import type { LLMQueryFn, LLMChatFn } from "./llm/types.js";
 import { resolveAdapter, getAvailableAdapters } from "./adapters/index.js";
 import {
   parseSimpleType,
@@ -31,6 +34,10 @@ interface CLIOptions {
   verbose: boolean;
   dryRun: boolean;
   config: string;
+  trace: string;
+  record: string;
+  replay: string;
+  replayMode: string;
 }
 
 function showHelp(): void {
@@ -50,6 +57,10 @@ Options:
   --output-type <t>  Expected output type: number, string, boolean, array, object
   --constraints <j>  Output constraints as JSON (e.g., '{"type":"number","min":0}')
   --config <path>    Path to config file (default: ./config.json)
+  --trace <path>     Write a JSONL trace of the run (turns, terms, results, timings)
+  --record <path>    Record every LLM call to a cassette file
+  --replay <path>    Serve LLM responses from a cassette instead of a model
+  --replay-mode <m>  Replay order: sequential (default) or hash (match by prompt)
   --verbose          Enable verbose output
   --dry-run          Show configuration without running
   -v, --version      Show version number
@@ -61,6 +72,9 @@ Examples:
   rlm "Extract errors" ./logs.txt --constraints '{"type":"array","items":{"type":"string"}}'
   rlm "Find all mentions of 'whale'" ./moby-dick.txt --max-turns 15
   rlm "Count the words" ./file.txt --model llama3 --verbose
+  rlm "Find total sales" ./data.txt --trace run.jsonl
+  rlm "Find total sales" ./data.txt --record sales.cassette.json
+  rlm "Find total sales" ./data.txt --replay sales.cassette.json
 `);
 }
 
@@ -78,6 +92,10 @@ function parseArgs(args: string[]): CLIOptions {
     verbose: false,
     dryRun: false,
     config: "./config.json",
+    trace: "",
+    record: "",
+    replay: "",
+    replayMode: "sequential",
   };
 
   const positional: string[] = [];
@@ -107,6 +125,14 @@ function parseArgs(args: string[]): CLIOptions {
       options.constraints = args[++i];
     } else if (arg === "--config") {
       options.config = args[++i];
+    } else if (arg === "--trace") {
+      options.trace = args[++i];
+    } else if (arg === "--record") {
+      options.record = args[++i];
+    } else if (arg === "--replay") {
+      options.replay = args[++i];
+    } else if (arg === "--replay-mode") {
+      options.replayMode = args[++i];
     } else if (arg === "--verbose") {
       options.verbose = true;
     } else if (arg === "--dry-run") {
@@ -138,6 +164,16 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (options.record && options.replay) {
+    console.error("Error: --record and --replay cannot be used together");
+    process.exit(1);
+  }
+  if (options.replayMode !== "sequential" && options.replayMode !== "hash") {
+    console.error(`Error: Invalid replay mode: ${options.replayMode}`);
+    console.error("Valid modes: sequential, hash");
+    process.exit(1);
+  }
+
   // Resolve file path
   const filePath = resolve(options.file);
 
@@ -159,6 +195,9 @@ async function main(): Promise<void> {
     console.log(`Adapter: ${options.adapter || "(auto-detect)"}`);
     console.log(`Output type: ${options.outputType || "(none)"}`);
     console.log(`Constraints: ${options.constraints || "(none)"}`);
+    console.log(`Trace: ${options.trace ? resolve(options.trace) : "(none)"}`);
+    console.log(`Record: ${options.record ? resolve(options.record) : "(none)"}`);
+    console.log(`Replay: ${options.replay ? `${resolve(options.replay)} (${options.replayMode})` : "(none)"}`);
     console.log(`Available adapters: ${getAvailableAdapters().join(", ")}`);
     console.log(`Verbose: ${options.verbose}`);
     return;
@@ -226,8 +265,25 @@ async function main(): Promise<void> {
     console.log("");
   }
 
-  // Create LLM client
-  const llmClient = createLLMClient(providerName, providerConfig, overrides);
+  // Create LLM client: from a cassette when replaying, recording to one if asked
+  let llmClient: LLMQueryFn;
+  let llmChat: LLMChatFn | undefined;
+  if (options.replay) {
+    try {
+      llmClient = createReplayClient(resolve(options.replay), options.replayMode as ReplayMode);
+    } catch (err) {
+      console.error(`Error loading cassette: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+  } else {
+    llmClient = createLLMClient(providerName, providerConfig, overrides);
+    llmChat = createLLMChatClient(providerName, providerConfig, overrides) ?? undefined;
+    if (options.record) {
+      const recorder = new CassetteRecorder(resolve(options.record));
+      llmClient = recorder.wrap(llmClient);
+      llmChat = llmChat && recorder.wrapChat(llmChat);
+    }
+  }
 
   // Run RLM
   if (options.verbose) {
@@ -237,8 +293,11 @@ async function main(): Promise<void> {
   }
 
   try {
-    const result = await runRLM(options.query, filePath, {
+    const trace = options.trace ? createTraceHooks(resolve(options.trace)) : {};
+    const { answer: result, terminationReason, turns } = await runRLMWithTrace(options.query, filePath, {
+      ...trace,
       llmClient,
+      llmChat,
       adapter,
       maxTurns: options.maxTurns,
       turnTimeoutMs: options.timeout,
@@ -246,6 +305,13 @@ async function main(): Promise<void> {
       constraint,
     });
 
+    if (options.verbose) {
+      console.log(`\nFinished (${terminationReason}) after ${turns.length} turn(s)`);
+      if (options.trace) {
+        console.log(`Trace written to ${resolve(options.trace)}`);
+      }
+    }
+
     // Output result
     if (typeof result === "string") {
       console.log(result);
@@ -11,74 +11,259 @@
  * - Chain operations via RESULTS without transferring full datasets
  *
  * SESSION LIFECYCLE:
- * - Sessions auto-expire after inactivity (default: 10 minutes)
- * - Loading a new document closes the previous session
- * - Explicit lattice_close tool for cleanup
+ * - Several sessions can be open at once; lattice_load returns each one's ID
+ * - Every tool takes an optional `session`; without it, tools use the most
+ *   recently loaded session
+ * - Each session auto-expires after its own inactivity (default: 10 minutes)
+ * - Explicit lattice_close tool for cleanup, lattice_sessions to list them
  *
  * Usage:
  *   1. lattice_load - Load a document (starts session)
- *   2. lattice_query - Run queries (returns handle stubs, not full data)
+ *   2. lattice_query - Run queries (returns handle stubs, not full data);
+ *      lattice_batch runs a known pipeline of queries in one call
  *   3. lattice_expand - Get full data when you need to inspect results
  *   4. lattice_close - End session
+ *
+ * RESOURCES:
+ *   Each handle is also an MCP resource, lattice://<session-id>/$res3, whose
+ *   contents are the handle's data as JSON. The resource list changes (and
+ *   subscribers are notified) as queries, undo, reset and close create or
+ *   delete handles.
+ *
+ * PROGRESS AND CANCELLATION:
+ *   Queries run without blocking the server. A lattice_query request with a
+ *   progressToken gets notifications/progress (lines scanned, items
+ *   processed); notifications/cancelled stops the query.
+ *
+ * TIME TRAVEL:
+ *   Every query is checkpointed. lattice_undo steps back, lattice_checkpoint
+ *   names the current state and lattice_restore returns to it.
+ *
+ * HTTP TRANSPORT:
+ *   lattice-mcp --transport http --port 3457 [--host localhost]
+ *   Serves MCP over Streamable HTTP (with SSE for notifications) at /mcp,
+ *   so one long-lived server can be shared by several agents. Each client
+ *   has its own default session; sessions are shared, so a client can
+ *   query a session another client loaded by passing its ID.
+ *
+ * PERSISTENT SESSIONS:
+ *   lattice-mcp --session-dir ~/.lattice/sessions
+ *   Each session is saved as <session-id>.db; lattice_resume reopens it
+ *   after a restart or timeout.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  isInitializeRequest,
   type CallToolResult,
+  type ProgressToken,
+  type Resource,
+  type ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
-import { HandleSession } from "./engine/handle-session.js";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { HandleSession, type HandleResult } from "./engine/handle-session.js";
+import { CheckpointManager } from "./persistence/checkpoint.js";
+import type { SolveProgress } from "./logic/lc-solver.js";
 import { getVersion } from "./version.js";
 
 // Configuration
 const SESSION_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
 const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024; // 50MB limit
+const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024; // the MCP SDK's message limit
 
-// Session state
-let session: HandleSession | null = null;
-let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] ?? null : null;
+}
+
+const SESSION_DIR = argValue("--session-dir");
+const TRANSPORT = argValue("--transport") ?? "stdio";
+const HTTP_PORT = parseInt(argValue("--port") ?? "3457", 10);
+const HTTP_HOST = argValue("--host") ?? "localhost";
 
-function resetInactivityTimer(): void {
-  if (timeoutHandle) {
-    clearTimeout(timeoutHandle);
+/**
+ * A connected MCP client: the stdio peer, or one HTTP client
+ */
+interface LatticeClient {
+  server: Server;
+  /** Session used by tool calls that do not name one (the last one it loaded) */
+  currentSessionId: string | null;
+  /** Handle URIs it subscribed to */
+  subscriptions: Set<string>;
+}
+
+// Session state: open sessions by ID, each with its own inactivity timer.
+// Sessions are shared by all clients; any client can name any session.
+interface OpenSession {
+  session: HandleSession;
+  timeoutHandle: ReturnType<typeof setTimeout> | null;
+  /** Client that loaded or resumed it */
+  owner: LatticeClient;
+}
+
+const sessions = new Map<string, OpenSession>();
+const clients = new Set<LatticeClient>();
+/** Handle URIs clients were last told about */
+let publishedUris = new Set<string>();
+
+function resetInactivityTimer(id: string): void {
+  const open = sessions.get(id);
+  if (!open) return;
+
+  if (open.timeoutHandle) {
+    clearTimeout(open.timeoutHandle);
   }
 
-  timeoutHandle = setTimeout(() => {
-    if (session) {
-      console.error(`[Lattice] Session expired after ${SESSION_TIMEOUT_MS / 1000}s inactivity`);
-      closeSession("timeout");
-    }
+  open.timeoutHandle = setTimeout(() => {
+    console.error(`[Lattice] Session ${id} expired after ${SESSION_TIMEOUT_MS / 1000}s inactivity`);
+    closeSession(id, "timeout");
   }, SESSION_TIMEOUT_MS);
 }
 
-function closeSession(reason: string): void {
-  if (session) {
-    const info = session.getSessionInfo();
-    const duration = info.loadedAt ? Date.now() - info.loadedAt.getTime() : 0;
-    console.error(
-      `[Lattice] Session closed: ${reason} | ` +
-      `Document: ${info.documentPath} | ` +
-      `Duration: ${Math.round(duration / 1000)}s | ` +
-      `Queries: ${info.queryCount} | ` +
-      `Handles: ${info.handleCount}`
+function openSession(session: HandleSession, client: LatticeClient): string {
+  const id = session.getSessionId();
+  sessions.set(id, { session, timeoutHandle: null, owner: client });
+  client.currentSessionId = id;
+  resetInactivityTimer(id);
+  publishResourceChanges();
+  return id;
+}
+
+function closeSession(id: string, reason: string): void {
+  const open = sessions.get(id);
+  if (!open) return;
+
+  const info = open.session.getSessionInfo();
+  const duration = info.loadedAt ? Date.now() - info.loadedAt.getTime() : 0;
+  console.error(
+    `[Lattice] Session closed: ${id} (${reason}) | ` +
+    `Document: ${info.documentPath} | ` +
+    `Duration: ${Math.round(duration / 1000)}s | ` +
+    `Queries: ${info.queryCount} | ` +
+    `Handles: ${info.handleCount}`
+  );
+  open.session.close();
+  if (open.timeoutHandle) {
+    clearTimeout(open.timeoutHandle);
+  }
+  sessions.delete(id);
+
+  // Fall back to the client's most recently opened session that is still open
+  for (const client of clients) {
+    if (client.currentSessionId === id) {
+      const own = Array.from(sessions.entries())
+        .filter(([, other]) => other.owner === client)
+        .map(([otherId]) => otherId);
+      client.currentSessionId = own.length > 0 ? own[own.length - 1] : null;
+    }
+  }
+
+  publishResourceChanges();
+}
+
+function closeAllSessions(reason: string): void {
+  for (const id of Array.from(sessions.keys())) {
+    closeSession(id, reason);
+  }
+}
+
+/**
+ * Resolve the session a tool call targets: its `session` argument, or the
+ * session the client loaded last. Resets that session's inactivity timer.
+ */
+function getSession(
+  args: Record<string, unknown>,
+  client: LatticeClient
+): { id: string; session: HandleSession } {
+  const id = typeof args.session === "string" ? args.session : client.currentSessionId;
+  if (!id) {
+    throw new Error("No active session. Use lattice_load first.");
+  }
+  const open = sessions.get(id);
+  if (!open) {
+    const known = Array.from(sessions.keys());
+    throw new Error(
+      `Unknown session "${id}".` +
+      (known.length > 0 ? ` Open sessions: ${known.join(", ")}` : " Use lattice_load first.")
     );
-    session.close();
-    session = null;
   }
+  resetInactivityTimer(id);
+  return { id, session: open.session };
+}
 
-  if (timeoutHandle) {
-    clearTimeout(timeoutHandle);
-    timeoutHandle = null;
+function handleUri(sessionId: string, handle: string): string {
+  return `lattice://${sessionId}/${handle}`;
+}
+
+function parseHandleUri(uri: string): { sessionId: string; handle: string } | null {
+  const match = /^lattice:\/\/([^/]+)\/(\$res\d+)$/.exec(uri);
+  return match ? { sessionId: match[1], handle: match[2] } : null;
+}
+
+/**
+ * Every handle of every open session as an MCP resource
+ */
+function listHandleResources(): Resource[] {
+  const resources: Resource[] = [];
+  for (const [id, open] of sessions) {
+    const document = basename(open.session.getSessionInfo().documentPath);
+    for (const [handle, stub] of Object.entries(open.session.getBindings())) {
+      if (handle === "RESULTS") continue;
+      resources.push({
+        uri: handleUri(id, handle),
+        name: `${handle} (${document})`,
+        description: stub,
+        mimeType: "application/json",
+      });
+    }
   }
+  return resources;
 }
 
-function getSessionInfo(): string {
-  if (!session) {
-    return "No active session";
+/**
+ * Tell clients about created and deleted handles: resources/list_changed
+ * when the set of handles changed, resources/updated for subscribed
+ * handles that went away.
+ */
+function publishResourceChanges(): void {
+  const current = new Set<string>();
+  for (const [id, open] of sessions) {
+    for (const handle of open.session.listHandles()) {
+      current.add(handleUri(id, handle));
+    }
+  }
+
+  const removed = Array.from(publishedUris).filter((uri) => !current.has(uri));
+  const changed = removed.length > 0 || current.size !== publishedUris.size;
+  publishedUris = current;
+  if (!changed) return;
+
+  const report = (err: unknown) =>
+    console.error(`[Lattice] Resource notification failed: ${err instanceof Error ? err.message : err}`);
+  for (const client of clients) {
+    client.server.sendResourceListChanged().catch(report);
+    for (const uri of removed) {
+      if (client.subscriptions.has(uri)) {
+        client.server.sendResourceUpdated({ uri }).catch(report);
+      }
+    }
   }
+}
 
+function getSessionInfo(id: string, session: HandleSession, client: LatticeClient): string {
   const info = session.getSessionInfo();
   const now = new Date();
   const age = info.loadedAt ? Math.round((now.getTime() - info.loadedAt.getTime()) / 1000) : 0;
@@ -86,19 +271,31 @@ function getSessionInfo(): string {
   const timeout = Math.round((SESSION_TIMEOUT_MS - idle * 1000) / 1000);
 
   return `Session active:
+  Session ID: ${id}${session.isPersistent() ? " (saved)" : ""}${id === client.currentSessionId ? " (default)" : ""}
   Document: ${info.documentPath}
   Size: ${(info.documentSize / 1024).toFixed(1)} KB
   Age: ${age}s
   Idle: ${idle}s
   Timeout in: ${Math.max(0, timeout)}s
   Queries: ${info.queryCount}
-  Active handles: ${info.handleCount}`;
+  Active handles: ${info.handleCount}
+  Open sessions: ${sessions.size}`;
 }
 
+/**
+ * Optional `session` argument shared by the per-session tools
+ */
+const SESSION_ARG = {
+  session: {
+    type: "string",
+    description: "Session ID from lattice_load (default: the most recently loaded session)",
+  },
+};
+
 const TOOLS = [
   {
     name: "lattice_load",
-    description: `Load a document for analysis. Starts a new session (closes any existing session).
+    description: `Load a document for analysis in a new session. Sessions already open stay open.
 
 RECOMMENDED WORKFLOW:
 1. Use Glob first to discover relevant files
@@ -118,8 +315,11 @@ EFFICIENT QUERY PATTERNS:
 - Finally aggregate: (count RESULTS) or (sum RESULTS)
 - Inspect when needed: use lattice_expand with limit
 
-SESSION: Document stays loaded for ${SESSION_TIMEOUT_MS / 60000} minutes.
-Call lattice_close when done.`,
+SESSIONS: Each load opens a new session and returns its ID; pass \`session\`
+to choose the ID (e.g. "before", "after"; loading an open ID replaces that
+session). Other tools use the session this client loaded last unless given
+\`session\`, so two documents can be compared side by side. A session stays
+loaded for ${SESSION_TIMEOUT_MS / 60000} minutes after its last use. Call lattice_close when done.`,
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -127,6 +327,10 @@ Call lattice_close when done.`,
           type: "string",
           description: "Path to the document to analyze",
         },
+        session: {
+          type: "string",
+          description: 'ID for the new session (e.g., "before"; default: generated). Loading an ID that is open replaces it.',
+        },
       },
       required: ["filePath"],
     },
@@ -144,6 +348,9 @@ SEARCH (returns handle to matches):
   (grep "pattern")              Regex search - returns handle to matching lines
   (fuzzy_search "query" 10)     Fuzzy search - top N matches by relevance
   (lines 10 20)                 Get specific line range
+  (grep "ERROR" :context 3)     Matches plus 3 surrounding lines (windows merge)
+  (context RESULTS 3)           Add surrounding lines to existing results
+  (records "^\\\\d{4}-")        Multi-line records {text, startLine, endLine} split at start regex
 
 SYMBOL OPERATIONS (code files: .ts, .js, .py, .go):
   (list_symbols)                List all symbols (functions, classes, methods, etc.)
@@ -154,13 +361,50 @@ SYMBOL OPERATIONS (code files: .ts, .js, .py, .go):
 AGGREGATE (returns scalar directly):
   (count RESULTS)               Count items in current results
   (sum RESULTS)                 Sum numeric values (auto-extracts from $1,234 format)
+  (min RESULTS) (max RESULTS) (avg RESULTS) (median RESULTS) (stddev RESULTS)
+  (percentile RESULTS 95)       p95 - extract numbers first for latencies:
+    (percentile (map RESULTS (lambda x (match x "(\\\\d+)ms" 1))) 95)
 
 TRANSFORM (returns new handle):
   (filter RESULTS (lambda x (match x "pattern" 0)))
   (map RESULTS (lambda x (match x "(\\d+)" 1)))
+  (sort RESULTS (lambda x (match x "(\\d+)ms" 1)) "desc")  Sort by key ("asc" default)
+  (take RESULTS 10) / (drop RESULTS 10)    Keep the first N / skip the first N
+  (top_k RESULTS 5 (lambda x ...))         K items with the largest key
+
+GROUP (returns new handle, stub shows "key: count"):
+  (group_by RESULTS (lambda x (match x "\\\\[(\\\\w+)\\\\]" 1)))  {key, count, items} per key
+  (frequencies RESULTS (lambda x ...))     {key, count}, most frequent first
+  (group_sum RESULTS key-fn value-fn)      {key, count, sum}, largest sum first
+
+PREDICATES (inside filter lambdas):
+  (and p1 p2 ...) (or p1 p2 ...) (not p)
+  (> a b) (< a b) (>= a b) (<= a b) (= a b)   numeric strings compare as numbers
+  (contains x "sub") (starts_with x "pre") (ends_with x "suf")   case-insensitive
+  (filter RESULTS (lambda x (and (match x "ERROR" 0) (> (match x "took (\\\\d+)ms" 1) 500))))
 
 EXTRACT:
   (match str "pattern" 1)       Extract regex group from string
+  (get (parse_json x) "field")  JSON lines -> record field ("user.id" paths ok)
+  (get (parse_kv x) "field")    key=value logs -> record field
+  (parse_csv_row x "a,b,c")     CSV row -> {a, b, c} (without names: array of fields)
+
+JSON (.json/.jsonl files; returns {path, value} matches):
+  (jpath "$.items[*].price")           Values with their paths
+  (jpath "$..id")                      Recursive descent
+  (sum (jpath "$.items[*].price"))     Aggregates use the values
+  (filter (jpath "$.users[*]") (lambda u (= (get u "role") "admin")))
+
+TABLES (.csv/.tsv files; header row becomes column names, runs as SQL):
+  (where (> "amount" 1000))            Rows as records; columns named as strings
+  (where (and (= "region" "west") (contains "product" "pro")))
+  (column "region")                    All values of one column
+  (sum (column (where (= "region" "west")) "amount"))   Aggregate in SQL
+  (count (where (>= "amount" 500)))    Row count
+
+PIPELINES (one round trip, no intermediate handles):
+  (let ((errs (grep "ERROR")) (n (count errs))) n)
+  (do (grep "ERROR") (filter RESULTS (lambda x (match x "timeout" 0))) (count RESULTS))
 
 EXAMPLE WORKFLOW:
 1. (grep "ERROR")                    → Returns: $res1: Array(500) [preview]
@@ -184,10 +428,48 @@ VARIABLE BINDING:
           type: "string",
           description: 'Nucleus S-expression command, e.g., (grep "ERROR")',
         },
+        ...SESSION_ARG,
       },
       required: ["command"],
     },
   },
+  {
+    name: "lattice_batch",
+    description: `Run several Nucleus queries in order in one call.
+
+Use this when you already know the pipeline: one round trip instead of one
+per step. Each step sees the previous step's RESULTS, exactly as if the
+queries were sent one by one with lattice_query.
+
+RETURNS one line per step: a handle stub for array results, the value for
+scalars, or the error. With stopOnError, the first failed step ends the batch.
+
+EXAMPLE:
+  commands: [
+    "(grep \\"ERROR\\")",
+    "(filter RESULTS (lambda x (match x \\"timeout\\" 0)))",
+    "(count RESULTS)"
+  ]
+  → 1. $res1: Array(500) [...]
+    2. $res2: Array(42) [...]
+    3. 42`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        commands: {
+          type: "array",
+          items: { type: "string" },
+          description: "Nucleus S-expression commands, run in order",
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop at the first failed step (default: false, run every step)",
+        },
+        ...SESSION_ARG,
+      },
+      required: ["commands"],
+    },
+  },
   {
     name: "lattice_expand",
     description: `Get full data from a handle when you need to inspect actual results.
@@ -230,28 +512,47 @@ TIP: Start with a small limit to preview, then expand more if needed.`,
           enum: ["full", "lines"],
           description: '"full" for complete objects, "lines" for readable line format',
         },
+        ...SESSION_ARG,
       },
       required: ["handle"],
     },
   },
+  {
+    name: "lattice_resume",
+    description: `Reopen a saved session by its session ID (shown by lattice_load).
+
+Restores the document, handles and RESULTS exactly as they were, so an
+analysis can continue after the server restarted or the session timed out.
+Only available when lattice-mcp runs with --session-dir.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        sessionId: {
+          type: "string",
+          description: 'Session ID to resume (e.g., "session-1718035200000")',
+        },
+      },
+      required: ["sessionId"],
+    },
+  },
   {
     name: "lattice_close",
     description:
-      "Close the current session and free memory. " +
+      "Close a session (default: the most recently loaded one) and free memory. " +
       "Call this when done analyzing a document. " +
       "Sessions also auto-close after 10 minutes of inactivity.",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: { ...SESSION_ARG },
       required: [],
     },
   },
   {
     name: "lattice_status",
-    description: "Get current session status including document info, active handles, and timeout.",
+    description: "Get session status including document info, active handles, and timeout.",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: { ...SESSION_ARG },
       required: [],
     },
   },
@@ -267,13 +568,83 @@ Returns all active handles with their stubs:
 Use this to see what data you have available before deciding what to expand.`,
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: { ...SESSION_ARG },
       required: [],
     },
   },
   {
     name: "lattice_reset",
     description: "Clear all handles and bindings but keep the document loaded. Use this to start fresh analysis.",
+    inputSchema: {
+      type: "object" as const,
+      properties: { ...SESSION_ARG },
+      required: [],
+    },
+  },
+  {
+    name: "lattice_checkpoint",
+    description: `Save the current state under a name, or list checkpoints when called without one.
+
+A checkpoint records the handles, RESULTS and defined functions. Name one
+before trying a risky filter path, then lattice_restore it if the path
+turns out wrong instead of reloading the document.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: 'Checkpoint name (e.g., "before-filter"). Omit to list checkpoints.',
+        },
+        ...SESSION_ARG,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "lattice_restore",
+    description: `Go back to a named checkpoint (or a query turn).
+
+Handles created since are deleted and later checkpoints are discarded;
+new queries branch from the restored state.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Checkpoint name saved with lattice_checkpoint",
+        },
+        turn: {
+          type: "number",
+          description: "Query turn to restore instead of a name (0 = just loaded)",
+        },
+        ...SESSION_ARG,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "lattice_undo",
+    description: `Undo the last query (or the last N successful queries).
+
+Restores the handles, RESULTS and defined functions from before those
+queries. Failed queries change nothing, so they are not counted.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        steps: {
+          type: "number",
+          description: "Number of queries to undo (default: 1)",
+        },
+        ...SESSION_ARG,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "lattice_sessions",
+    description: `List open sessions with their documents, query counts and idle time.
+
+The default session (used when a tool call has no \`session\`) is marked with *.`,
     inputSchema: {
       type: "object" as const,
       properties: {},
@@ -323,6 +694,23 @@ function formatHandleResult(result: {
   return JSON.stringify(result.value, null, 2);
 }
 
+function formatBatchResult(commands: string[], results: HandleResult[]): string {
+  const lines = results.map((result, i) => {
+    const text = !result.success
+      ? `Error: ${result.error}`
+      : result.stub ?? (typeof result.value === "number"
+        ? result.value.toLocaleString()
+        : typeof result.value === "string" ? result.value : JSON.stringify(result.value));
+    return `${i + 1}. ${commands[i]}\n   → ${text.split("\n").join("\n     ")}`;
+  });
+
+  const failed = results.filter((result) => !result.success).length;
+  let summary = `Ran ${results.length} of ${commands.length} steps`;
+  if (failed > 0) summary += `, ${failed} failed`;
+  if (results.length < commands.length) summary += " (stopped early)";
+  return `${summary}\n\n${lines.join("\n")}\n\nUse lattice_expand to see full data when needed.`;
+}
+
 function formatExpandResult(result: {
   success: boolean;
   data?: unknown[];
@@ -363,7 +751,69 @@ function formatExpandResult(result: {
   return text;
 }
 
-async function handleToolCall(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+/**
+ * Cancellation and progress reporting for one tool call
+ */
+interface ToolCallContext {
+  signal?: AbortSignal;
+  onProgress?: (progress: SolveProgress) => void;
+}
+
+/**
+ * Turn solver progress into MCP progress notifications. Stages restart
+ * their counts (grep, then filter, ...), so progress accumulates across
+ * stages to keep increasing as the protocol requires.
+ */
+function progressReporter(
+  progressToken: ProgressToken,
+  send: (notification: ServerNotification) => Promise<void>
+): (progress: SolveProgress) => void {
+  let offset = 0;
+  let last: SolveProgress | null = null;
+  let sent = -1;
+
+  return (progress) => {
+    if (last && (progress.stage !== last.stage || progress.done < last.done)) {
+      offset += last.total;
+    }
+    last = progress;
+    const value = offset + progress.done;
+    if (value <= sent) return;
+    sent = value;
+
+    const unit = progress.stage === "grep" ? "lines scanned" : "items processed";
+    send({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: value,
+        message: `${progress.stage}: ${progress.done.toLocaleString()} of ${progress.total.toLocaleString()} ${unit}`,
+      },
+    }).catch((err) => {
+      console.error(`[Lattice] Progress notification failed: ${err instanceof Error ? err.message : err}`);
+    });
+  };
+}
+
+async function handleToolCall(
+  name: string,
+  args: Record<string, unknown>,
+  client: LatticeClient,
+  call: ToolCallContext = {}
+): Promise<CallToolResult> {
+  try {
+    return await runTool(name, args, client, call);
+  } finally {
+    publishResourceChanges();
+  }
+}
+
+async function runTool(
+  name: string,
+  args: Record<string, unknown>,
+  client: LatticeClient,
+  call: ToolCallContext
+): Promise<CallToolResult> {
   try {
     switch (name) {
       case "lattice_load": {
@@ -372,85 +822,170 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
           return { content: [{ type: "text", text: "Error: filePath is required" }] };
         }
 
-        // Close existing session
-        if (session) {
-          closeSession("new document loaded");
+        const requestedId = typeof args.session === "string" ? args.session : undefined;
+        if (requestedId !== undefined && !CheckpointManager.isValidSessionId(requestedId)) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: Invalid session ID "${requestedId}" (use letters, digits, "-", "_" and ".")`,
+            }],
+          };
         }
 
-        // Create new session
-        session = new HandleSession();
-        const stats = await session.loadFile(filePath);
-
-        // Check size limit
-        if (stats.size > MAX_DOCUMENT_SIZE) {
-          session.close();
-          session = null;
+        // Check the size limit before any session, open or saved, is replaced
+        const { size } = await stat(filePath);
+        if (size > MAX_DOCUMENT_SIZE) {
           return {
             content: [{
               type: "text",
-              text: `Error: Document too large (${(stats.size / 1024 / 1024).toFixed(1)}MB). ` +
+              text: `Error: Document too large (${(size / 1024 / 1024).toFixed(1)}MB). ` +
                 `Maximum size is ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB.`,
             }],
           };
         }
 
-        // Start inactivity timer
-        resetInactivityTimer();
+        // Loading an open session's ID replaces it
+        if (requestedId !== undefined && sessions.has(requestedId)) {
+          closeSession(requestedId, "new document loaded");
+        }
+        const replacesSaved = requestedId !== undefined && SESSION_DIR !== null &&
+          CheckpointManager.hasSession(SESSION_DIR, requestedId);
 
-        console.error(`[Lattice] Session started: ${filePath} (${stats.lineCount} lines)`);
+        // Create new session
+        const session = new HandleSession({
+          ...(SESSION_DIR ? { sessionDir: SESSION_DIR } : {}),
+          ...(requestedId !== undefined ? { sessionId: requestedId } : {}),
+        });
+        let stats: { lineCount: number; size: number };
+        try {
+          stats = await session.loadFile(filePath);
+        } catch (err) {
+          // Release the session's database; the error is reported below
+          session.close();
+          throw err;
+        }
+
+        // A saved session of the same ID held another analysis: start clean
+        if (replacesSaved) {
+          session.reset();
+        }
+
+        // Register and start inactivity timer
+        const id = openSession(session, client);
+
+        console.error(`[Lattice] Session started: ${id} ${filePath} (${stats.lineCount} lines)`);
+
+        const table = session.getTableInfo();
+        const tableText = table
+          ? `  Table: ${table.rowCount.toLocaleString()} rows, columns ` +
+            table.columns.map((c) => `${c.name} (${c.type})`).join(", ") + `\n`
+          : "";
+        const format = session.getStats()?.format ?? "text";
+        const formatText = format === "text"
+          ? ""
+          : `  Format: ${format === "json" ? "JSON" : "JSON Lines"} (query with jpath)\n`;
 
         return {
           content: [{
             type: "text",
             text: `Loaded ${filePath}:\n` +
+              `  Session ID: ${id}` +
+              (session.isPersistent() ? " (saved; reopen with lattice_resume)" : "") + `\n` +
               `  Lines: ${stats.lineCount.toLocaleString()}\n` +
               `  Size: ${(stats.size / 1024).toFixed(1)} KB\n` +
-              `  Session timeout: ${SESSION_TIMEOUT_MS / 60000} minutes\n\n` +
-              `Results will be returned as handle stubs (97%+ token savings).\n` +
+              tableText +
+              formatText +
+              `  Session timeout: ${SESSION_TIMEOUT_MS / 60000} minutes\n` +
+              (sessions.size > 1
+                ? `  Open sessions: ${sessions.size} (tools use this one unless given session)\n`
+                : "") +
+              `\nResults will be returned as handle stubs (97%+ token savings).\n` +
               `Use lattice_expand to see full data when needed.\n\n` +
               `Ready for queries. Call lattice_close when done.`,
           }],
         };
       }
 
-      case "lattice_query": {
-        if (!session) {
+      case "lattice_resume": {
+        const sessionId = args.sessionId as string;
+        if (!sessionId) {
+          return { content: [{ type: "text", text: "Error: sessionId is required" }] };
+        }
+        if (!SESSION_DIR) {
           return {
             content: [{
               type: "text",
-              text: "Error: No active session. Use lattice_load first.",
+              text: "Error: Sessions are not saved. Start lattice-mcp with --session-dir <dir> to enable resume.",
             }],
           };
         }
+        if (!CheckpointManager.hasSession(SESSION_DIR, sessionId)) {
+          const known = CheckpointManager.listSessions(SESSION_DIR);
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No saved session "${sessionId}".` +
+                (known.length > 0 ? ` Saved sessions: ${known.join(", ")}` : ""),
+            }],
+          };
+        }
+
+        // The session's database can only be open once
+        if (sessions.has(sessionId)) {
+          closeSession(sessionId, "session resumed");
+        }
+        const session = HandleSession.resume(sessionId, SESSION_DIR);
+        openSession(session, client);
+
+        const info = session.getSessionInfo();
+        const bindings = Object.entries(session.getBindings()).map(([k, v]) => `  ${k}: ${v}`);
+        console.error(`[Lattice] Session resumed: ${sessionId} (${info.documentPath})`);
+
+        return {
+          content: [{
+            type: "text",
+            text: `Resumed ${sessionId}:\n` +
+              `  Document: ${info.documentPath}\n` +
+              `  Queries so far: ${info.queryCount}\n` +
+              `  Handles: ${info.handleCount}\n` +
+              (bindings.length > 0 ? `\nBindings:\n${bindings.join("\n")}\n` : "") +
+              `\nReady for queries.`,
+          }],
+        };
+      }
+
+      case "lattice_query": {
+        const { session } = getSession(args, client);
 
         const command = args.command as string;
         if (!command) {
           return { content: [{ type: "text", text: "Error: command is required" }] };
         }
 
-        resetInactivityTimer();
-
-        const result = session.execute(command);
+        const result = await session.executeAsync(command, call);
         return { content: [{ type: "text", text: formatHandleResult(result) }] };
       }
 
-      case "lattice_expand": {
-        if (!session) {
-          return {
-            content: [{
-              type: "text",
-              text: "Error: No active session. Use lattice_load first.",
-            }],
-          };
+      case "lattice_batch": {
+        const { session } = getSession(args, client);
+
+        const commands = args.commands;
+        if (!Array.isArray(commands) || commands.length === 0 || commands.some((c) => typeof c !== "string")) {
+          return { content: [{ type: "text", text: "Error: commands must be a non-empty array of strings" }] };
         }
 
+        const results = await session.executeBatch(commands, args.stopOnError === true, call);
+        return { content: [{ type: "text", text: formatBatchResult(commands, results) }] };
+      }
+
+      case "lattice_expand": {
+        const { session } = getSession(args, client);
+
         const handle = args.handle as string;
         if (!handle) {
           return { content: [{ type: "text", text: "Error: handle is required" }] };
         }
 
-        resetInactivityTimer();
-
         const result = session.expand(handle, {
           limit: args.limit as number | undefined,
           offset: args.offset as number | undefined,
@@ -461,26 +996,48 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       }
 
       case "lattice_close": {
-        if (!session) {
+        if (sessions.size === 0) {
           return { content: [{ type: "text", text: "No active session to close." }] };
         }
 
+        const { id, session } = getSession(args, client);
         const info = session.getSessionInfo();
-        const summary = `Closed session for ${info.documentPath} (${info.queryCount} queries, ${info.handleCount} handles)`;
-        closeSession("explicit close");
+        const summary = `Closed session ${id} for ${info.documentPath} (${info.queryCount} queries, ${info.handleCount} handles)`;
+        closeSession(id, "explicit close");
         return { content: [{ type: "text", text: summary }] };
       }
 
       case "lattice_status": {
-        return { content: [{ type: "text", text: getSessionInfo() }] };
+        if (sessions.size === 0) {
+          return { content: [{ type: "text", text: "No active session" }] };
+        }
+
+        const { id, session } = getSession(args, client);
+        return { content: [{ type: "text", text: getSessionInfo(id, session, client) }] };
       }
 
-      case "lattice_bindings": {
-        if (!session) {
-          return { content: [{ type: "text", text: "No active session." }] };
+      case "lattice_sessions": {
+        if (sessions.size === 0) {
+          return { content: [{ type: "text", text: "No open sessions. Use lattice_load to start one." }] };
         }
 
-        resetInactivityTimer();
+        const now = Date.now();
+        const lines = Array.from(sessions.entries()).map(([id, open]) => {
+          const info = open.session.getSessionInfo();
+          const idle = info.lastAccessedAt ? Math.round((now - info.lastAccessedAt.getTime()) / 1000) : 0;
+          return `${id === client.currentSessionId ? "*" : " "} ${id}: ${info.documentPath} ` +
+            `(${info.queryCount} queries, ${info.handleCount} handles, idle ${idle}s)`;
+        });
+        return {
+          content: [{
+            type: "text",
+            text: `Open sessions (* = default):\n${lines.join("\n")}`,
+          }],
+        };
+      }
+
+      case "lattice_bindings": {
+        const { session } = getSession(args, client);
 
         const bindings = session.getBindings();
         if (Object.keys(bindings).length === 0) {
@@ -497,16 +1054,63 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       }
 
       case "lattice_reset": {
-        if (!session) {
-          return { content: [{ type: "text", text: "No active session." }] };
-        }
+        const { session } = getSession(args, client);
 
         session.reset();
-        resetInactivityTimer();
 
         return { content: [{ type: "text", text: "Bindings and handles cleared. Document still loaded." }] };
       }
 
+      case "lattice_checkpoint": {
+        const { session } = getSession(args, client);
+
+        const name = args.name as string | undefined;
+        if (name === undefined) {
+          const lines = session.listCheckpoints().map((c) =>
+            `  turn ${c.turn}${c.label ? ` "${c.label}"` : ""}: ${c.handleCount} handles`
+          );
+          return {
+            content: [{
+              type: "text",
+              text: lines.length > 0 ? `Checkpoints:\n${lines.join("\n")}` : "No checkpoints yet.",
+            }],
+          };
+        }
+
+        const turn = session.checkpoint(name);
+        return {
+          content: [{
+            type: "text",
+            text: `Saved checkpoint "${name}" at turn ${turn}. Return to it with lattice_restore.`,
+          }],
+        };
+      }
+
+      case "lattice_restore":
+      case "lattice_undo": {
+        const { session } = getSession(args, client);
+
+        let turn: number;
+        if (name === "lattice_undo") {
+          turn = session.undo((args.steps as number | undefined) ?? 1);
+        } else if (typeof args.name === "string") {
+          turn = session.restore(args.name);
+        } else if (typeof args.turn === "number") {
+          turn = session.restore(args.turn);
+        } else {
+          return { content: [{ type: "text", text: "Error: name or turn is required" }] };
+        }
+
+        const bindings = Object.entries(session.getBindings()).map(([k, v]) => `  ${k}: ${v}`);
+        return {
+          content: [{
+            type: "text",
+            text: `Restored turn ${turn}.\n` +
+              (bindings.length > 0 ? `\nBindings:\n${bindings.join("\n")}` : "\nNo bindings."),
+          }],
+        };
+      }
+
       case "lattice_help": {
         return {
           content: [{ type: "text", text: HandleSession.getCommandReference() }],
@@ -524,23 +1128,21 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
 // Cleanup on exit
 process.on("SIGINT", () => {
-  closeSession("process interrupted");
+  closeAllSessions("process interrupted");
   process.exit(0);
 });
 
 process.on("SIGTERM", () => {
-  closeSession("process terminated");
+  closeAllSessions("process terminated");
   process.exit(0);
 });
 
-async function main() {
-  // Handle version flag
-  if (process.argv.includes("-v") || process.argv.includes("--version")) {
-    console.log(`lattice-mcp v${getVersion()}`);
-    process.exit(0);
-  }
-
-  const server = new Server(
+/**
+ * Create an MCP server for one client. Every client gets its own server
+ * (default session, subscriptions); Lattice sessions are shared.
+ */
+function createMcpServer(): Server {
+  const mcpServer = new Server(
     {
       name: "lattice",
       version: "1.0.0",
@@ -548,26 +1150,230 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
       },
     }
   );
+  const client: LatticeClient = {
+    server: mcpServer,
+    currentSessionId: null,
+    subscriptions: new Set(),
+  };
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: TOOLS,
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
-    return handleToolCall(name, (args as Record<string, unknown>) || {});
+    const progressToken = request.params._meta?.progressToken;
+    return handleToolCall(name, (args as Record<string, unknown>) || {}, client, {
+      signal: extra.signal,
+      onProgress: progressToken !== undefined
+        ? progressReporter(progressToken, extra.sendNotification)
+        : undefined,
+    });
+  });
+
+  mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listHandleResources(),
+  }));
+
+  mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const target = parseHandleUri(uri);
+    const open = target ? sessions.get(target.sessionId) : undefined;
+    const result = target && open ? open.session.expand(target.handle) : null;
+    if (!target || !open || !result?.success) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    resetInactivityTimer(target.sessionId);
+    return {
+      contents: [{
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(result.data, null, 2),
+      }],
+    };
   });
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  mcpServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (!parseHandleUri(request.params.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Not a Lattice handle: ${request.params.uri}`);
+    }
+    client.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  mcpServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    client.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Sessions outlive the client that opened them; they expire on inactivity
+  mcpServer.onclose = () => {
+    clients.delete(client);
+  };
+
+  clients.add(client);
+  return mcpServer;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * A request body that cannot be handled, with its HTTP status and JSON-RPC code
+ */
+class RequestBodyError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Read a JSON request body of at most MAX_REQUEST_BODY_BYTES
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () =>
+    new RequestBodyError(413, -32000, `Request body exceeds ${MAX_REQUEST_BODY_BYTES} bytes`);
+
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > MAX_REQUEST_BODY_BYTES) {
+      reject(tooLarge());
+      req.resume();
+      return;
+    }
 
-  console.error("[Lattice] MCP server started (handle-based mode)");
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let rejected = false;
+
+    req.on("data", (chunk: Buffer) => {
+      if (rejected) return;
+      size += chunk.length;
+      if (size > MAX_REQUEST_BODY_BYTES) {
+        // Keep draining so the 413 reaches the client
+        rejected = true;
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on("end", () => {
+      if (rejected) return;
+      const text = Buffer.concat(chunks).toString("utf-8");
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new RequestBodyError(400, -32700, "Parse error: invalid JSON body"));
+      }
+    });
+
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp. Each client initializes its own
+ * MCP session (mcp-session-id header); GET opens its SSE notification
+ * stream and DELETE ends it.
+ */
+async function startHttpTransport(port: number, host: string): Promise<void> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || host}`);
+      if (url.pathname !== "/mcp") {
+        sendJsonRpcError(res, 404, `Not found: ${url.pathname}. The MCP endpoint is /mcp`);
+        return;
+      }
+
+      const header = req.headers["mcp-session-id"];
+      const mcpSessionId = Array.isArray(header) ? header[0] : header;
+      if (mcpSessionId) {
+        const existing = transports.get(mcpSessionId);
+        if (!existing) {
+          sendJsonRpcError(res, 404, `Unknown MCP session: ${mcpSessionId}`);
+          return;
+        }
+        await existing.handleRequest(req, res);
+        return;
+      }
+
+      // A request without a session ID must be an initialize request
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, "Bad request: missing mcp-session-id header");
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          transports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          transports.delete(transport.sessionId);
+        }
+      };
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (err) {
+      if (res.headersSent) return;
+      if (err instanceof RequestBodyError) {
+        sendJsonRpcError(res, err.status, err.message, err.code);
+      } else {
+        sendJsonRpcError(res, 500, err instanceof Error ? err.message : String(err));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, resolve);
+  });
+  console.error(`[Lattice] MCP server listening on http://${host}:${port}/mcp`);
+}
+
+async function main() {
+  // Handle version flag
+  if (process.argv.includes("-v") || process.argv.includes("--version")) {
+    console.log(`lattice-mcp v${getVersion()}`);
+    process.exit(0);
+  }
+
+  if (TRANSPORT === "stdio") {
+    await createMcpServer().connect(new StdioServerTransport());
+  } else if (TRANSPORT === "http") {
+    if (isNaN(HTTP_PORT)) {
+      throw new Error(`Invalid --port: ${argValue("--port")}`);
+    }
+    await startHttpTransport(HTTP_PORT, HTTP_HOST);
+  } else {
+    throw new Error(`Unknown transport "${TRANSPORT}". Use stdio or http`);
+  }
+
+  console.error(`[Lattice] MCP server started (handle-based mode, ${TRANSPORT} transport)`);
   console.error(`[Lattice] Session timeout: ${SESSION_TIMEOUT_MS / 1000}s`);
   console.error(`[Lattice] Max document size: ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB`);
   console.error("[Lattice] Query results return handle stubs for 97%+ token savings");
+  console.error("[Lattice] Handles are readable as lattice://<session-id>/$resN resources");
+  if (SESSION_DIR) {
+    console.error(`[Lattice] Saving sessions to ${SESSION_DIR}`);
+  }
 }
 
 main().catch((err) => {
@@ -5,7 +5,17 @@
  */
 
 // RLM Core
-export { runRLM, type RLMOptions } from "./rlm.js";
+export {
+  runRLM,
+  runRLMWithTrace,
+  type RLMOptions,
+  type RLMHooks,
+  type RLMRunResult,
+  type RLMTurnRecord,
+  type RLMTerminationReason,
+} from "./rlm.js";
+export { createTraceHooks } from "./rlm-trace.js";
+export { ContextBudget, estimateTokens, DEFAULT_CONTEXT_BUDGET } from "./context-budget.js";
 
 // Nucleus Engine - standalone document analysis
 export {
@@ -14,6 +24,8 @@ export {
   createEngineFromContent,
   type ExecutionResult,
   type NucleusEngineOptions,
+  type SolveOptions,
+  type SolveProgress,
 } from "./engine/index.js";
 
 // REPL
@@ -59,5 +71,6 @@ export {
 export { loadConfig, type Config, type ProviderConfig } from "./config.js";
 
 // LLM Client
-export { createLLMClient } from "./llm/index.js";
-export type { LLMQueryFn } from "./llm/types.js";
+export { createLLMClient, createLLMChatClient } from "./llm/index.js";
+export { CassetteRecorder, createReplayClient, loadCassette, type Cassette, type ReplayMode } from "./llm/cassette.js";
+export type { LLMQueryFn, LLMChatFn, ChatMessage } from "./llm/types.js";
@@ -0,0 +1,141 @@
+/**
+ * Record/Replay Cassettes
+ *
+ * A cassette is a JSON file of prompt-to-response pairs captured from a
+ * real model. Recording wraps a live client and saves every call; replay
+ * serves the saved responses without any model, so a trajectory captured
+ * once can be re-run deterministically (in vitest, or to test changes to
+ * adapters, feedback or the solver).
+ *
+ * Chat calls are stored under their flattened "ROLE: content" prompt,
+ * the same string runRLM sends to a plain query client, so a cassette
+ * recorded through a chat client replays through an LLMQueryFn.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import type { LLMChatFn, LLMQueryFn } from "./types.js";
+import { flattenMessages } from "./messages.js";
+
+export interface CassetteEntry {
+  /** sha256 of the prompt */
+  hash: string;
+  prompt: string;
+  response: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/**
+ * How a replay client picks responses:
+ * - "sequential": in recorded order, regardless of the prompt
+ * - "hash": by prompt hash; repeated prompts get their responses in recorded order
+ */
+export type ReplayMode = "sequential" | "hash";
+
+export function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex");
+}
+
+/**
+ * Read a cassette file
+ */
+export function loadCassette(path: string): Cassette {
+  const cassette = JSON.parse(readFileSync(path, "utf-8")) as Partial<Cassette>;
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Not a cassette file: ${path}`);
+  }
+  return cassette as Cassette;
+}
+
+/**
+ * A cassette being recorded; the file is rewritten after every call so
+ * an interrupted run keeps what it captured
+ */
+export class CassetteRecorder {
+  private cassette: Cassette = { version: 1, entries: [] };
+
+  constructor(readonly path: string) {
+    this.save();
+  }
+
+  get entries(): readonly CassetteEntry[] {
+    return this.cassette.entries;
+  }
+
+  add(prompt: string, response: string): void {
+    this.cassette.entries.push({ hash: hashPrompt(prompt), prompt, response });
+    this.save();
+  }
+
+  /**
+   * Wrap a query client so every call is recorded
+   */
+  wrap(client: LLMQueryFn): LLMQueryFn {
+    return async (prompt, options) => {
+      const response = await client(prompt, options);
+      this.add(prompt, response);
+      return response;
+    };
+  }
+
+  /**
+   * Wrap a chat client so every call is recorded under its flattened prompt
+   */
+  wrapChat(chat: LLMChatFn): LLMChatFn {
+    return async (messages, options) => {
+      const reply = await chat(messages, options);
+      this.add(flattenMessages(messages), reply.content);
+      return reply;
+    };
+  }
+
+  private save(): void {
+    writeFileSync(this.path, JSON.stringify(this.cassette, null, 2) + "\n");
+  }
+}
+
+/**
+ * Create a query client that serves responses from a cassette
+ *
+ * @param source - Cassette file path or a loaded cassette
+ * @param mode - "sequential" (default) or "hash"
+ */
+export function createReplayClient(source: string | Cassette, mode: ReplayMode = "sequential"): LLMQueryFn {
+  const cassette = typeof source === "string" ? loadCassette(source) : source;
+  const name = typeof source === "string" ? source : "cassette";
+
+  if (mode === "sequential") {
+    let next = 0;
+    return async () => {
+      const entry = cassette.entries[next];
+      if (!entry) {
+        throw new Error(`Cassette exhausted: ${name} has ${cassette.entries.length} responses`);
+      }
+      next++;
+      return entry.response;
+    };
+  }
+
+  const byHash = new Map<string, string[]>();
+  for (const entry of cassette.entries) {
+    const responses = byHash.get(entry.hash) ?? [];
+    responses.push(entry.response);
+    byHash.set(entry.hash, responses);
+  }
+  const served = new Map<string, number>();
+  return async (prompt) => {
+    const hash = hashPrompt(prompt);
+    const responses = byHash.get(hash);
+    if (!responses) {
+      throw new Error(`No cassette entry for prompt ${hash.slice(0, 12)} in ${name}`);
+    }
+    // Serve repeated prompts in order, then keep answering with the last response
+    const next = served.get(hash) ?? 0;
+    served.set(hash, next + 1);
+    return responses[Math.min(next, responses.length - 1)];
+  };
+}
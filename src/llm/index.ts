@@ -1,14 +1,32 @@
-import type { LLMProvider, LLMConfig, ProviderConfig, LLMQueryFn, LLMQueryOptions } from "./types.js";
+import type {
+  LLMProvider,
+  LLMConfig,
+  ProviderConfig,
+  LLMQueryFn,
+  LLMQueryOptions,
+  LLMChatFn,
+  ChatMessage,
+} from "./types.js";
 import { createOllamaProvider } from "./ollama.js";
 import { createDeepSeekProvider } from "./deepseek.js";
+import { createOpenAIProvider } from "./openai.js";
 
-export type { LLMProvider, LLMConfig, ProviderConfig, LLMQueryFn, LLMQueryOptions } from "./types.js";
+export type {
+  LLMProvider,
+  LLMConfig,
+  ProviderConfig,
+  LLMQueryFn,
+  LLMQueryOptions,
+  LLMChatFn,
+  ChatMessage,
+} from "./types.js";
 
 type ProviderFactory = (config: ProviderConfig) => LLMProvider;
 
 const providerFactories: Record<string, ProviderFactory> = {
   ollama: createOllamaProvider,
   deepseek: createDeepSeekProvider,
+  openai: createOpenAIProvider,
 };
 
 /**
@@ -46,18 +64,13 @@ function resolveEnvVar(value: string | undefined): string | undefined {
 }
 
 /**
- * Create an LLM query function from configuration
- *
- * @param providerName - Name of the provider (ollama, deepseek, etc.)
- * @param providerConfig - Provider-specific configuration (baseUrl, apiKey, model, options)
- * @param overrides - Optional overrides for model/options
- * @returns A function that takes a prompt and returns a response
+ * Instantiate a provider and its base LLMConfig, shared by the query and chat clients
  */
-export function createLLMClient(
+function setupProvider(
   providerName: string,
   providerConfig: ProviderConfig,
   overrides?: { model?: string; options?: Record<string, unknown> }
-): LLMQueryFn {
+): { provider: LLMProvider; baseLlmConfig: LLMConfig } {
   const factory = providerFactories[providerName];
   if (!factory) {
     throw new Error(
@@ -65,10 +78,15 @@ export function createLLMClient(
     );
   }
 
-  // Resolve environment variables in apiKey
+  // Resolve environment variables in apiKey and header values
   const resolvedConfig: ProviderConfig = {
     ...providerConfig,
     apiKey: resolveEnvVar(providerConfig.apiKey),
+    headers: providerConfig.headers
+      ? Object.fromEntries(
+          Object.entries(providerConfig.headers).map(([name, value]) => [name, resolveEnvVar(value) ?? ""])
+        )
+      : undefined,
   };
 
   const provider = factory(resolvedConfig);
@@ -80,21 +98,94 @@ export function createLLMClient(
     options: { ...providerConfig.options, ...overrides?.options },
   };
 
+  return { provider, baseLlmConfig };
+}
+
+/**
+ * Merge query-time options (like format) with the base config
+ */
+function withQueryOptions(baseLlmConfig: LLMConfig, overrideOptions: LLMQueryOptions | undefined): LLMConfig {
+  return overrideOptions
+    ? {
+        ...baseLlmConfig,
+        options: { ...baseLlmConfig.options, ...overrideOptions },
+      }
+    : baseLlmConfig;
+}
+
+/**
+ * Create an LLM query function from configuration
+ *
+ * @param providerName - Name of the provider (ollama, deepseek, openai, etc.)
+ * @param providerConfig - Provider-specific configuration (baseUrl, apiKey, model, options)
+ * @param overrides - Optional overrides for model/options
+ * @returns A function that takes a prompt and returns a response
+ */
+export function createLLMClient(
+  providerName: string,
+  providerConfig: ProviderConfig,
+  overrides?: { model?: string; options?: Record<string, unknown> }
+): LLMQueryFn {
+  const { provider, baseLlmConfig } = setupProvider(providerName, providerConfig, overrides);
+
   // Return a query function that accepts optional format override
   return (prompt: string, queryOptions?: LLMQueryOptions) => {
-    // Merge query-time options (like format) with base config
-    const llmConfig: LLMConfig = queryOptions
-      ? {
-          ...baseLlmConfig,
-          options: { ...baseLlmConfig.options, ...queryOptions },
-        }
-      : baseLlmConfig;
-    return provider.query(prompt, llmConfig);
+    const { onChunk, ...overrideOptions } = queryOptions ?? {};
+    const llmConfig = withQueryOptions(baseLlmConfig, queryOptions && overrideOptions);
+    if (onChunk && provider.stream) {
+      return provider.stream(prompt, llmConfig, onChunk);
+    }
+    // Providers without streaming pass the whole response as one chunk
+    return onChunk
+      ? provider.query(prompt, llmConfig).then((text) => {
+          onChunk(text);
+          return text;
+        })
+      : provider.query(prompt, llmConfig);
+  };
+}
+
+/**
+ * Create an LLM chat function from configuration
+ *
+ * Sends the conversation as role-structured messages, so the server applies
+ * the model's own chat template instead of seeing one flattened prompt.
+ *
+ * @returns A function that takes messages and returns the assistant's reply,
+ *   or null if the provider has no chat endpoint (use createLLMClient instead)
+ */
+export function createLLMChatClient(
+  providerName: string,
+  providerConfig: ProviderConfig,
+  overrides?: { model?: string; options?: Record<string, unknown> }
+): LLMChatFn | null {
+  const { provider, baseLlmConfig } = setupProvider(providerName, providerConfig, overrides);
+  if (!provider.chat) {
+    return null;
+  }
+  const chat = provider.chat.bind(provider);
+
+  return async (messages: ChatMessage[], queryOptions?: LLMQueryOptions) => {
+    const { onChunk, ...overrideOptions } = queryOptions ?? {};
+    const content = await chat(messages, withQueryOptions(baseLlmConfig, queryOptions && overrideOptions));
+    // Chat replies are not streamed, so the whole response is one chunk
+    onChunk?.(content);
+    return { role: "assistant", content };
   };
 }
 
 export { createOllamaProvider } from "./ollama.js";
 export { createDeepSeekProvider } from "./deepseek.js";
+export { createOpenAIProvider } from "./openai.js";
+export { flattenMessages } from "./messages.js";
+export {
+  CassetteRecorder,
+  createReplayClient,
+  loadCassette,
+  type Cassette,
+  type CassetteEntry,
+  type ReplayMode,
+} from "./cassette.js";
 
 /**
  * Configuration interface for tiered clients
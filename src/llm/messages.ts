@@ -0,0 +1,12 @@
+/**
+ * Chat message helpers
+ */
+
+import type { ChatMessage } from "./types.js";
+
+/**
+ * Flatten chat messages into a single prompt ("SYSTEM: ...\n\nUSER: ...")
+ */
+export function flattenMessages(messages: ChatMessage[]): string {
+  return messages.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join("\n\n");
+}
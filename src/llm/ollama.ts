@@ -1,42 +1,60 @@
-import type { LLMProvider, LLMConfig, ProviderConfig } from "./types.js";
+import type { LLMProvider, LLMConfig, ProviderConfig, ChatMessage } from "./types.js";
 
 export function createOllamaProvider(config: ProviderConfig): LLMProvider {
-  return {
-    name: "ollama",
+  function buildRequest(llmConfig: LLMConfig, input: Record<string, unknown>): Record<string, unknown> {
+    const requestBody: Record<string, unknown> = {
+      model: llmConfig.model,
+      ...input,
+      stream: false,
+      options: {
+        temperature: llmConfig.options?.temperature ?? 0.2,
+        num_ctx: llmConfig.options?.num_ctx ?? 8192,
+      },
+    };
 
-    async query(prompt: string, llmConfig: LLMConfig): Promise<string> {
-      const requestBody: Record<string, unknown> = {
-        model: llmConfig.model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: llmConfig.options?.temperature ?? 0.2,
-          num_ctx: llmConfig.options?.num_ctx ?? 8192,
-        },
-      };
+    // Add JSON format if specified
+    if (llmConfig.options?.format === "json") {
+      requestBody.format = "json";
+    }
+    return requestBody;
+  }
 
-      // Add JSON format if specified
-      if (llmConfig.options?.format === "json") {
-        requestBody.format = "json";
-      }
+  async function post(path: string, requestBody: Record<string, unknown>): Promise<unknown> {
+    const response = await fetch(`${config.baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(requestBody),
+    });
 
-      const response = await fetch(`${config.baseUrl}/api/generate`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
+    if (!response.ok) {
+      throw new Error(
+        `Ollama error: ${response.status} ${response.statusText}`
+      );
+    }
+    return response.json();
+  }
 
-      if (!response.ok) {
-        throw new Error(
-          `Ollama error: ${response.status} ${response.statusText}`
-        );
-      }
+  return {
+    name: "ollama",
 
-      const data = (await response.json()) as { response?: string };
+    async query(prompt: string, llmConfig: LLMConfig): Promise<string> {
+      const data = (await post("/api/generate", buildRequest(llmConfig, { prompt }))) as {
+        response?: string;
+      };
       if (!data.response) {
         throw new Error("Ollama returned empty response");
       }
       return data.response;
     },
+
+    async chat(messages: ChatMessage[], llmConfig: LLMConfig): Promise<string> {
+      const data = (await post("/api/chat", buildRequest(llmConfig, { messages }))) as {
+        message?: { content?: string };
+      };
+      if (!data.message?.content) {
+        throw new Error("Ollama returned empty response");
+      }
+      return data.message.content;
+    },
   };
 }
@@ -0,0 +1,129 @@
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works with anything serving POST <baseUrl>/chat/completions: OpenAI,
+ * llama.cpp server, vLLM, LM Studio, LocalAI and similar. The baseUrl
+ * includes the API version ("http://localhost:8080/v1"). The API key is
+ * optional, since local servers usually run without one.
+ */
+
+import type { LLMProvider, LLMConfig, ProviderConfig, ChatMessage } from "./types.js";
+import { fetchWithRetry } from "./retry.js";
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  function buildRequest(messages: ChatMessage[], llmConfig: LLMConfig, stream: boolean): RequestInit {
+    const options = llmConfig.options ?? {};
+    const requestBody: Record<string, unknown> = {
+      model: llmConfig.model,
+      messages,
+      temperature: options.temperature ?? 0.2,
+      stream,
+    };
+    if (options.max_tokens !== undefined) requestBody.max_tokens = options.max_tokens;
+    if (options.top_p !== undefined) requestBody.top_p = options.top_p;
+    if (options.stop !== undefined) requestBody.stop = options.stop;
+    if (options.format === "json") {
+      requestBody.response_format = { type: "json_object" };
+    }
+
+    return {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        ...config.headers,
+      },
+      body: JSON.stringify(requestBody),
+    };
+  }
+
+  async function send(request: RequestInit): Promise<Response> {
+    const response = await fetchWithRetry(url, request);
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      throw new Error(
+        `OpenAI-compatible error: ${response.status} ${response.statusText}` +
+        (detail ? ` - ${detail}` : "")
+      );
+    }
+    return response;
+  }
+
+  async function complete(messages: ChatMessage[], llmConfig: LLMConfig): Promise<string> {
+    const response = await send(buildRequest(messages, llmConfig, false));
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("OpenAI-compatible server returned empty response (no choices)");
+    }
+    return content;
+  }
+
+  return {
+    name: "openai",
+
+    query(prompt: string, llmConfig: LLMConfig): Promise<string> {
+      return complete([{ role: "user", content: prompt }], llmConfig);
+    },
+
+    chat: complete,
+
+    async stream(
+      prompt: string,
+      llmConfig: LLMConfig,
+      onChunk: (chunk: string) => void
+    ): Promise<string> {
+      const response = await send(buildRequest([{ role: "user", content: prompt }], llmConfig, true));
+      if (!response.body) {
+        throw new Error("OpenAI-compatible server returned no stream");
+      }
+
+      // Server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let text = "";
+      const handleLine = (line: string): boolean => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) return false;
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") return true;
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          text += content;
+          onChunk(content);
+        }
+        return false;
+      };
+
+      for await (const bytes of response.body as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (handleLine(line)) return text;
+        }
+      }
+      handleLine(buffer);
+      return text;
+    },
+  };
+}
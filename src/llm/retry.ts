@@ -0,0 +1,34 @@
+/**
+ * Fetch with retries for transient network failures
+ *
+ * Only failed requests (connection refused, reset, DNS) are retried;
+ * HTTP error statuses are returned for the provider to report.
+ */
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  retries = MAX_RETRIES
+): Promise<Response> {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const response = await fetch(url, options);
+      return response;
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      if (attempt === retries) {
+        console.error(`Final fetch attempt failed: ${errMsg}`);
+        console.error(`URL: ${url}`);
+        throw error;
+      }
+      console.error(
+        `Fetch attempt ${attempt}/${retries} failed (${errMsg}), retrying in ${RETRY_DELAY_MS}ms...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+  throw new Error("Unreachable");
+}
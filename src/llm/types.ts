@@ -2,11 +2,15 @@ export interface LLMOptions {
   temperature?: number;
   num_ctx?: number;
   max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
   format?: "json" | "text";
 }
 
 export interface LLMQueryOptions {
   format?: "json" | "text";
+  /** Stream the response, passing each piece of text as it arrives */
+  onChunk?: (chunk: string) => void;
 }
 
 export interface LLMConfig {
@@ -19,12 +23,21 @@ export interface ProviderConfig {
   baseUrl: string;
   apiKey?: string;
   model?: string;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
   options?: LLMOptions;
 }
 
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
 export interface LLMProvider {
   name: string;
   query(prompt: string, config: LLMConfig): Promise<string>;
+  /** Send role-structured messages so the server applies the model's chat template */
+  chat?(messages: ChatMessage[], config: LLMConfig): Promise<string>;
   stream?(
     prompt: string,
     config: LLMConfig,
@@ -33,3 +46,5 @@ export interface LLMProvider {
 }
 
 export type LLMQueryFn = (prompt: string, options?: LLMQueryOptions) => Promise<string>;
+
+export type LLMChatFn = (messages: ChatMessage[], options?: LLMQueryOptions) => Promise<ChatMessage>;
@@ -86,6 +86,16 @@ export function resolveConstraints(term: LCTerm): ResolvedTerm {
       case "lambda":
         return { ...t, body: resolve(t.body) };
 
+      case "let":
+        return {
+          ...t,
+          bindings: t.bindings.map((b) => ({ name: b.name, value: resolve(b.value) })),
+          body: resolve(t.body),
+        };
+
+      case "do":
+        return { ...t, terms: t.terms.map(resolve) };
+
       default:
         return t;
     }
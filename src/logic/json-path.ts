@@ -0,0 +1,200 @@
+/**
+ * JSONPath queries for JSON documents
+ *
+ * Supports the subset needed to reach into API dumps:
+ *   $            document root
+ *   .name        object member ("['name']" / '["name"]' for odd keys)
+ *   [n] [-n]     array index (negative counts from the end)
+ *   [*] .*       every element / member
+ *   ..name ..*   recursive descent
+ *
+ * Matches keep their normalized path so handles can show where each
+ * value came from: { path: "$.items[3].price", value: 12.5 }.
+ */
+
+/**
+ * A value found by a path query, with its normalized path
+ */
+export interface JsonPathMatch {
+  path: string;
+  value: unknown;
+}
+
+type PathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "descend"; key: string | null };
+
+/**
+ * Parse a path expression. Throws with the offending position on bad syntax.
+ */
+export function parseJsonPath(expr: string): PathSegment[] {
+  const path = expr.trim();
+  if (!path.startsWith("$")) {
+    throw new Error(`jpath: path must start with "$", got "${expr}"`);
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+  function fail(): never {
+    throw new Error(`jpath: invalid path "${expr}" at position ${i}`);
+  }
+
+  while (i < path.length) {
+    if (path.startsWith("..", i)) {
+      i += 2;
+      if (path[i] === "*") {
+        i++;
+        segments.push({ kind: "descend", key: null });
+      } else {
+        const name = readName(path, i);
+        if (!name) fail();
+        i += name.length;
+        segments.push({ kind: "descend", key: name });
+      }
+    } else if (path[i] === ".") {
+      i++;
+      if (path[i] === "*") {
+        i++;
+        segments.push({ kind: "wildcard" });
+      } else {
+        const name = readName(path, i);
+        if (!name) fail();
+        i += name.length;
+        segments.push({ kind: "key", key: name });
+      }
+    } else if (path[i] === "[") {
+      const close = findBracketEnd(path, i);
+      if (close === -1) fail();
+      const inner = path.slice(i + 1, close).trim();
+      if (inner === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: "index", index: parseInt(inner, 10) });
+      } else if (/^'.*'$|^".*"$/.test(inner)) {
+        segments.push({ kind: "key", key: inner.slice(1, -1).replace(/\\(.)/g, "$1") });
+      } else {
+        fail();
+      }
+      i = close + 1;
+    } else {
+      fail();
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a path expression against a parsed JSON value
+ */
+export function queryJsonPath(doc: unknown, expr: string): JsonPathMatch[] {
+  let nodes: JsonPathMatch[] = [{ path: "$", value: doc }];
+
+  for (const segment of parseJsonPath(expr)) {
+    const next: JsonPathMatch[] = [];
+    for (const node of nodes) {
+      switch (segment.kind) {
+        case "key":
+          pushMember(node, segment.key, next);
+          break;
+        case "index":
+          if (Array.isArray(node.value)) {
+            const index = segment.index < 0 ? node.value.length + segment.index : segment.index;
+            if (index >= 0 && index < node.value.length) {
+              next.push({ path: `${node.path}[${index}]`, value: node.value[index] });
+            }
+          }
+          break;
+        case "wildcard":
+          next.push(...children(node));
+          break;
+        case "descend":
+          if (segment.key === null) {
+            next.push(...descendants(node).slice(1));
+          } else {
+            for (const desc of descendants(node)) pushMember(desc, segment.key, next);
+          }
+          break;
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * Check whether an item is a jpath match ({path: "$...", value})
+ */
+export function isPathMatch(item: unknown): item is JsonPathMatch {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) return false;
+  const { path } = item as { path?: unknown };
+  return (
+    Object.keys(item).length === 2 &&
+    "value" in item &&
+    typeof path === "string" &&
+    path.startsWith("$")
+  );
+}
+
+function readName(path: string, start: number): string | null {
+  const match = /^[A-Za-z_$][\w$-]*/.exec(path.slice(start));
+  return match ? match[0] : null;
+}
+
+function findBracketEnd(path: string, open: number): number {
+  let quote: string | null = null;
+  for (let i = open + 1; i < path.length; i++) {
+    const ch = path[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "]") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function memberPath(parent: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+function pushMember(node: JsonPathMatch, key: string, out: JsonPathMatch[]): void {
+  const value = node.value;
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      out.push({ path: memberPath(node.path, key), value: (value as Record<string, unknown>)[key] });
+    }
+  }
+}
+
+function children(node: JsonPathMatch): JsonPathMatch[] {
+  const value = node.value;
+  if (Array.isArray(value)) {
+    return value.map((v, i) => ({ path: `${node.path}[${i}]`, value: v }));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).map(([k, v]) => ({ path: memberPath(node.path, k), value: v }));
+  }
+  return [];
+}
+
+/**
+ * The node and all nodes below it, in document order
+ */
+function descendants(node: JsonPathMatch): JsonPathMatch[] {
+  const out: JsonPathMatch[] = [];
+  const stack: JsonPathMatch[] = [node];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    out.push(current);
+    const kids = children(current);
+    for (let i = kids.length - 1; i >= 0; i--) stack.push(kids[i]);
+  }
+  return out;
+}
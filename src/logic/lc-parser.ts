@@ -35,6 +35,8 @@ import type {
   LCVar,
   ParseResult,
   ConstraintOp,
+  SortDirection,
+  CompareOp,
 } from "./types.js";
 
 /**
@@ -181,6 +183,18 @@ function tokenize(input: string): Token[] {
       continue;
     }
 
+    // Comparison operators: > < >= <= =
+    if (ch === ">" || ch === "<" || ch === "=") {
+      if ((ch === ">" || ch === "<") && input[i + 1] === "=") {
+        tokens.push({ type: "symbol", value: ch + "=" });
+        i += 2;
+      } else {
+        tokens.push({ type: "symbol", value: ch });
+        i++;
+      }
+      continue;
+    }
+
     // Symbol (including special characters for constraints and hyphen for compound names)
     if (/[a-zA-Z_Σμε⚡φ∞\/]/.test(ch)) {
       let sym = "";
@@ -390,6 +404,29 @@ function parseTerm(state: ParserState): LCTerm | null {
   return null;
 }
 
+/**
+ * Parse terms up to (but not including) the closing paren of the enclosing list
+ */
+function parseTermsUntilClose(state: ParserState): LCTerm[] | null {
+  const terms: LCTerm[] = [];
+  while (peek(state) && peek(state)?.type !== "rparen") {
+    const term = parseTerm(state);
+    if (!term) return null;
+    terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Parse one or more body terms; several terms become an implicit (do ...)
+ */
+function parseSequence(state: ParserState): LCTerm | null {
+  const terms = parseTermsUntilClose(state);
+  if (!terms || terms.length === 0) return null;
+  if (terms.length === 1) return terms[0];
+  return { tag: "do", terms };
+}
+
 /**
  * Parse list contents after opening paren
  */
@@ -418,6 +455,14 @@ function parseList(state: ParserState): LCTerm | null {
       const pattern = parseTerm(state);
       if (!pattern || pattern.tag !== "lit" || typeof pattern.value !== "string")
         return null;
+      // Optional :context n
+      const contextKw = peek(state);
+      if (contextKw?.type === "keyword" && contextKw.value === "context") {
+        consume(state); // :context
+        const n = consume(state);
+        if (!n || n.type !== "number" || n.value < 0) return null;
+        return { tag: "grep", pattern: pattern.value, context: n.value };
+      }
       return { tag: "grep", pattern: pattern.value };
     }
 
@@ -451,6 +496,21 @@ function parseList(state: ParserState): LCTerm | null {
       return { tag: "lines", start: startTerm.value, end: endTerm.value };
     }
 
+    case "records": {
+      const pattern = consume(state);
+      if (!pattern || pattern.type !== "string") return null;
+      return { tag: "records", pattern: pattern.value };
+    }
+
+    case "context": {
+      // (context RESULTS 3)
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const n = consume(state);
+      if (!n || n.type !== "number" || n.value < 0) return null;
+      return { tag: "context", collection, n: n.value };
+    }
+
     case "filter": {
       const collection = parseTerm(state);
       if (!collection) return null;
@@ -489,6 +549,139 @@ function parseList(state: ParserState): LCTerm | null {
       return { tag: "count", collection };
     }
 
+    case "min":
+    case "max":
+    case "avg":
+    case "median":
+    case "stddev": {
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      return { tag: op, collection };
+    }
+
+    case "percentile": {
+      // (percentile coll 95)
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const pTerm = parseTerm(state);
+      if (!pTerm || pTerm.tag !== "lit" || typeof pTerm.value !== "number") return null;
+      if (pTerm.value < 0 || pTerm.value > 100) return null;
+      return { tag: "percentile", collection, p: pTerm.value };
+    }
+
+    case "sort": {
+      // (sort coll), (sort coll "desc"), (sort coll key-fn), (sort coll key-fn "desc")
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      let key: LCTerm | undefined;
+      const next = peek(state);
+      if (next && next.type !== "rparen" && next.type !== "string") {
+        const keyTerm = parseTerm(state);
+        if (!keyTerm) return null;
+        key = keyTerm;
+      }
+      let direction: SortDirection = "asc";
+      const dirToken = peek(state);
+      if (dirToken?.type === "string") {
+        if (dirToken.value !== "asc" && dirToken.value !== "desc") return null;
+        consume(state);
+        direction = dirToken.value;
+      }
+      return { tag: "sort", collection, key, direction };
+    }
+
+    case "take":
+    case "drop": {
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const nTerm = parseTerm(state);
+      if (!nTerm || nTerm.tag !== "lit" || typeof nTerm.value !== "number")
+        return null;
+      return { tag: op, collection, n: nTerm.value };
+    }
+
+    case "top_k": {
+      // (top_k coll k) or (top_k coll k key-fn)
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const kTerm = parseTerm(state);
+      if (!kTerm || kTerm.tag !== "lit" || typeof kTerm.value !== "number")
+        return null;
+      let key: LCTerm | undefined;
+      if (peek(state) && peek(state)?.type !== "rparen") {
+        const keyTerm = parseTerm(state);
+        if (!keyTerm) return null;
+        key = keyTerm;
+      }
+      return { tag: "top_k", collection, k: kTerm.value, key };
+    }
+
+    case "group_by": {
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const key = parseTerm(state);
+      if (!key) return null;
+      return { tag: "group_by", collection, key };
+    }
+
+    case "frequencies": {
+      // (frequencies coll) or (frequencies coll key-fn)
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      let key: LCTerm | undefined;
+      if (peek(state) && peek(state)?.type !== "rparen") {
+        const keyTerm = parseTerm(state);
+        if (!keyTerm) return null;
+        key = keyTerm;
+      }
+      return { tag: "frequencies", collection, key };
+    }
+
+    case "group_sum": {
+      const collection = parseTerm(state);
+      if (!collection) return null;
+      const key = parseTerm(state);
+      if (!key) return null;
+      const value = parseTerm(state);
+      if (!value) return null;
+      return { tag: "group_sum", collection, key, value };
+    }
+
+    case "and":
+    case "or": {
+      const terms = parseTermsUntilClose(state);
+      if (!terms || terms.length === 0) return null;
+      return { tag: op, terms };
+    }
+
+    case "not": {
+      const term = parseTerm(state);
+      if (!term) return null;
+      return { tag: "not", term };
+    }
+
+    case ">":
+    case "<":
+    case ">=":
+    case "<=":
+    case "=": {
+      const left = parseTerm(state);
+      if (!left) return null;
+      const right = parseTerm(state);
+      if (!right) return null;
+      return { tag: "compare", op: op as CompareOp, left, right };
+    }
+
+    case "contains":
+    case "starts_with":
+    case "ends_with": {
+      const str = parseTerm(state);
+      if (!str) return null;
+      const sub = parseTerm(state);
+      if (!sub) return null;
+      return { tag: op, str, sub };
+    }
+
     case "add": {
       const left = parseTerm(state);
       if (!left) return null;
@@ -544,6 +737,59 @@ function parseList(state: ParserState): LCTerm | null {
       return { tag: "parseFloat", str };
     }
 
+    case "parse_json":
+    case "parse_kv": {
+      const str = parseTerm(state);
+      if (!str) return null;
+      return { tag: op, str };
+    }
+
+    case "parse_csv_row": {
+      const str = parseTerm(state);
+      if (!str) return null;
+      // Optional column names: "name,region,amount"
+      const cols = peek(state);
+      if (cols?.type === "string") {
+        consume(state);
+        return { tag: "parse_csv_row", str, columns: cols.value.split(",").map((c) => c.trim()) };
+      }
+      return { tag: "parse_csv_row", str };
+    }
+
+    case "get": {
+      const obj = parseTerm(state);
+      if (!obj) return null;
+      const field = consume(state);
+      if (!field || (field.type !== "string" && field.type !== "number")) return null;
+      return { tag: "get", obj, field: field.value };
+    }
+
+    case "jpath": {
+      const path = consume(state);
+      if (!path || path.type !== "string") return null;
+      return { tag: "jpath", path: path.value };
+    }
+
+    case "where": {
+      const predicate = parseTerm(state);
+      if (!predicate) return null;
+      return { tag: "where", predicate };
+    }
+
+    case "column": {
+      // (column "region") or (column (where ...) "region")
+      const first = peek(state);
+      if (first?.type === "string") {
+        consume(state);
+        return { tag: "column", name: first.value };
+      }
+      const source = parseTerm(state);
+      if (!source) return null;
+      const name = consume(state);
+      if (!name || name.type !== "string") return null;
+      return { tag: "column", name: name.value, source };
+    }
+
     case "parseDate": {
       const str = parseTerm(state);
       if (!str) return null;
@@ -752,6 +998,36 @@ function parseList(state: ParserState): LCTerm | null {
       return { tag: "find_references", name: nameTerm.value };
     }
 
+    case "let": {
+      // (let ((name term) ...) body...)
+      const open = consume(state);
+      if (!open || open.type !== "lparen") return null;
+      const bindings: Array<{ name: string; value: LCTerm }> = [];
+      while (peek(state)?.type === "lparen") {
+        consume(state); // (
+        const nameToken = consume(state);
+        if (!nameToken || nameToken.type !== "symbol") return null;
+        const value = parseTerm(state);
+        if (!value) return null;
+        const close = consume(state);
+        if (!close || close.type !== "rparen") return null;
+        bindings.push({ name: nameToken.value, value });
+      }
+      const closeBindings = consume(state);
+      if (!closeBindings || closeBindings.type !== "rparen") return null;
+      if (bindings.length === 0) return null;
+      const body = parseSequence(state);
+      if (!body) return null;
+      return { tag: "let", bindings, body };
+    }
+
+    case "do": {
+      // (do term1 term2 ...)
+      const terms = parseTermsUntilClose(state);
+      if (!terms || terms.length === 0) return null;
+      return { tag: "do", terms };
+    }
+
     default:
       // Function application or variable
       const fn: LCTerm = { tag: "var", name: op };
@@ -819,7 +1095,9 @@ export function prettyPrint(term: LCTerm): string {
         ? `"${term.value}"`
         : String(term.value);
     case "grep":
-      return `(grep "${term.pattern}")`;
+      return term.context !== undefined
+        ? `(grep "${term.pattern}" :context ${term.context})`
+        : `(grep "${term.pattern}")`;
     case "fuzzy_search":
       return term.limit
         ? `(fuzzy_search "${term.query}" ${term.limit})`
@@ -828,6 +1106,10 @@ export function prettyPrint(term: LCTerm): string {
       return "(text_stats)";
     case "lines":
       return `(lines ${term.start} ${term.end})`;
+    case "records":
+      return `(records "${term.pattern}")`;
+    case "context":
+      return `(context ${prettyPrint(term.collection)} ${term.n})`;
     case "filter":
       return `(filter ${prettyPrint(term.collection)} ${prettyPrint(term.predicate)})`;
     case "map":
@@ -844,8 +1126,38 @@ export function prettyPrint(term: LCTerm): string {
       return `(parseInt ${prettyPrint(term.str)})`;
     case "parseFloat":
       return `(parseFloat ${prettyPrint(term.str)})`;
+    case "parse_json":
+    case "parse_kv":
+      return `(${term.tag} ${prettyPrint(term.str)})`;
+    case "parse_csv_row":
+      return term.columns
+        ? `(parse_csv_row ${prettyPrint(term.str)} "${term.columns.join(",")}")`
+        : `(parse_csv_row ${prettyPrint(term.str)})`;
+    case "get":
+      return typeof term.field === "number"
+        ? `(get ${prettyPrint(term.obj)} ${term.field})`
+        : `(get ${prettyPrint(term.obj)} "${term.field}")`;
+    case "jpath":
+      return `(jpath "${term.path}")`;
+    case "where":
+      return `(where ${prettyPrint(term.predicate)})`;
+    case "column":
+      return term.source
+        ? `(column ${prettyPrint(term.source)} "${term.name}")`
+        : `(column "${term.name}")`;
     case "if":
       return `(if ${prettyPrint(term.cond)} ${prettyPrint(term.then)} ${prettyPrint(term.else)})`;
+    case "and":
+    case "or":
+      return `(${term.tag} ${term.terms.map(prettyPrint).join(" ")})`;
+    case "not":
+      return `(not ${prettyPrint(term.term)})`;
+    case "compare":
+      return `(${term.op} ${prettyPrint(term.left)} ${prettyPrint(term.right)})`;
+    case "contains":
+    case "starts_with":
+    case "ends_with":
+      return `(${term.tag} ${prettyPrint(term.str)} ${prettyPrint(term.sub)})`;
     case "classify": {
       const examples = term.examples
         .map((e) => `"${e.input}" ${e.output}`)
@@ -860,6 +1172,43 @@ export function prettyPrint(term: LCTerm): string {
       return `(${prettyPrint(term.fn)} ${prettyPrint(term.arg)})`;
     case "lambda":
       return `(λ ${term.param} ${prettyPrint(term.body)})`;
+    case "let": {
+      const bindings = term.bindings
+        .map((b) => `(${b.name} ${prettyPrint(b.value)})`)
+        .join(" ");
+      return `(let (${bindings}) ${prettyPrint(term.body)})`;
+    }
+    case "do":
+      return `(do ${term.terms.map(prettyPrint).join(" ")})`;
+    case "sum":
+    case "count":
+    case "min":
+    case "max":
+    case "avg":
+    case "median":
+    case "stddev":
+      return `(${term.tag} ${prettyPrint(term.collection)})`;
+    case "percentile":
+      return `(percentile ${prettyPrint(term.collection)} ${term.p})`;
+    case "sort": {
+      const key = term.key ? ` ${prettyPrint(term.key)}` : "";
+      return `(sort ${prettyPrint(term.collection)}${key} "${term.direction}")`;
+    }
+    case "take":
+    case "drop":
+      return `(${term.tag} ${prettyPrint(term.collection)} ${term.n})`;
+    case "top_k": {
+      const key = term.key ? ` ${prettyPrint(term.key)}` : "";
+      return `(top_k ${prettyPrint(term.collection)} ${term.k}${key})`;
+    }
+    case "group_by":
+      return `(group_by ${prettyPrint(term.collection)} ${prettyPrint(term.key)})`;
+    case "frequencies": {
+      const key = term.key ? ` ${prettyPrint(term.key)}` : "";
+      return `(frequencies ${prettyPrint(term.collection)}${key})`;
+    }
+    case "group_sum":
+      return `(group_sum ${prettyPrint(term.collection)} ${prettyPrint(term.key)} ${prettyPrint(term.value)})`;
 
     default:
       return `<unknown:${(term as LCTerm).tag}>`;
@@ -12,19 +12,54 @@
  * The LLM outputs LC intent, and this solver executes it.
  */
 
-import type { LCTerm, CoercionType, SynthesisExample } from "./types.js";
+import type { LCTerm, CoercionType, SynthesisExample, SortDirection, CompareOp, StatOp } from "./types.js";
 import { resolveConstraints } from "./constraint-resolver.js";
+import { extractNumber, extractNumbers, computeStat, computePercentile } from "./statistics.js";
+import { contextWindows } from "./records.js";
+import { parseJsonValue, parseKeyValue, parseCsvRow, zipColumns, getField } from "./structured.js";
+import { compileWhere, findColumn } from "./table-query.js";
+import { queryJsonPath, isPathMatch } from "./json-path.js";
+import type { SessionDB } from "../persistence/session-db.js";
 import { run, Rel, eq, conde, exist, failo, type Var, type Substitution } from "../minikanren/index.js";
 import { synthesizeExtractor, compileToFunction, prettyPrint, type Example } from "../synthesis/evalo/index.js";
 import { synthesizeFromExamples, deriveFunction } from "./relational-solver.js";
 import { SynthesisIntegrator } from "./synthesis-integrator.js";
 
+/**
+ * A grep match
+ */
+export interface GrepMatch {
+  match: string;
+  line: string;
+  lineNum: number;
+  index: number;
+  groups: string[];
+}
+
 // Type for sandbox tools interface
+/**
+ * One step of an incremental grep
+ */
+export interface GrepScanStep {
+  /** Lines scanned so far */
+  scanned: number;
+  /** Matches found since the previous step */
+  found: GrepMatch[];
+}
+
 export interface SolverTools {
-  grep: (pattern: string) => Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }>;
+  grep: (pattern: string) => GrepMatch[];
+  /**
+   * Optional incremental grep: yields steps as it scans and returns the
+   * same matches as grep. Used to report progress and allow cancellation.
+   */
+  scanGrep?: (pattern: string) => Generator<GrepScanStep, GrepMatch[], void>;
   fuzzy_search: (query: string, limit?: number) => Array<{ line: string; lineNum: number; score: number }>;
   text_stats: () => { length: number; lineCount: number; sample: { start: string; middle: string; end: string } };
+  records: (pattern: string) => Array<{ text: string; startLine: number; endLine: number }>;
   context: string;
+  /** Parsed document for .json/.jsonl files (undefined for text documents) */
+  json?: unknown;
 }
 
 /**
@@ -48,6 +83,44 @@ export interface SolveResult {
   error?: string;
 }
 
+/**
+ * Progress of a running query: `done` of `total` units of `stage`
+ * (lines scanned by grep, items processed by filter, map, sort, ...)
+ */
+export interface SolveProgress {
+  stage: string;
+  done: number;
+  total: number;
+  /** Matches found since the previous step (grep only) */
+  found?: unknown[];
+}
+
+/**
+ * Options for solveAsync
+ */
+export interface SolveOptions {
+  /** Cancels the query, which then fails with "Query cancelled" */
+  signal?: AbortSignal;
+  /** Called with the latest progress whenever the solver yields */
+  onProgress?: (progress: SolveProgress) => void;
+  /** Called with grep matches as they are found, before the query finishes */
+  onFound?: (items: unknown[]) => void;
+  /** Called with each solver log line as it is written */
+  onLog?: (line: string) => void;
+  /** How long to run before yielding to the event loop (default: 50ms) */
+  yieldIntervalMs?: number;
+}
+
+/**
+ * Evaluation steps: yields progress, returns the term's value
+ */
+type Evaluation<T = unknown> = Generator<SolveProgress, T, void>;
+
+/** Items processed between progress steps in collection loops */
+const PROGRESS_STRIDE = 1000;
+
+const DEFAULT_YIELD_INTERVAL_MS = 50;
+
 /**
  * Solve an LC term using miniKanren as the logic engine
  * @param term The LC term to evaluate
@@ -70,7 +143,7 @@ export function solve(
   try {
     // Resolve constraints first
     const resolved = resolveConstraints(term);
-    const value = evaluate(resolved.term, tools, bindings, log);
+    const value = runSync(evaluate(resolved.term, tools, bindings, log));
     return { success: true, value, logs };
   } catch (err) {
     return {
@@ -82,16 +155,118 @@ export function solve(
   }
 }
 
+/**
+ * Solve an LC term without blocking the event loop.
+ * Yields every yieldIntervalMs, reporting progress, and stops with
+ * "Query cancelled" once the signal is aborted.
+ */
+export async function solveAsync(
+  term: LCTerm,
+  tools: SolverTools,
+  bindings: Bindings = new Map(),
+  options: SolveOptions = {}
+): Promise<SolveResult> {
+  const { signal, onProgress, onFound, onLog, yieldIntervalMs = DEFAULT_YIELD_INTERVAL_MS } = options;
+  const logs: string[] = [];
+  const log = (msg: string) => {
+    logs.push(msg);
+    onLog?.(msg);
+  };
+  // Matches not yet passed to onFound
+  let found: unknown[] = [];
+  const flushFound = () => {
+    if (found.length > 0) {
+      onFound?.(found);
+      found = [];
+    }
+  };
+
+  if (bindings.size > 0) {
+    log(`[Solver] Available bindings: ${[...bindings.keys()].join(", ")}`);
+  }
+
+  try {
+    throwIfCancelled(signal);
+    const resolved = resolveConstraints(term);
+    const steps = evaluate(resolved.term, tools, bindings, log);
+    let lastYield = Date.now();
+    let step = steps.next();
+    while (!step.done) {
+      if (onFound && step.value.found) {
+        found.push(...step.value.found);
+      }
+      if (Date.now() - lastYield >= yieldIntervalMs) {
+        onProgress?.(step.value);
+        flushFound();
+        await new Promise((resolve) => setImmediate(resolve));
+        lastYield = Date.now();
+      }
+      throwIfCancelled(signal);
+      step = steps.next();
+    }
+    flushFound();
+    return { success: true, value: step.value, logs };
+  } catch (err) {
+    return {
+      success: false,
+      value: null,
+      logs,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new Error("Query cancelled");
+  }
+}
+
+/**
+ * Run evaluation steps to completion without yielding
+ */
+function runSync<T>(steps: Evaluation<T>): T {
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * Wrap an already computed value as an evaluation with no steps
+ */
+function* immediate<T>(value: T): Evaluation<T> {
+  return value;
+}
+
+/**
+ * Grep through the incremental scanner when the tools have one
+ */
+function* grepDocument(tools: SolverTools, pattern: string): Evaluation<GrepMatch[]> {
+  if (!tools.scanGrep) {
+    return tools.grep(pattern);
+  }
+  const total = tools.text_stats().lineCount;
+  const scan = tools.scanGrep(pattern);
+  let step = scan.next();
+  while (!step.done) {
+    yield { stage: "grep", done: step.value.scanned, total, found: step.value.found };
+    step = scan.next();
+  }
+  return step.value;
+}
+
 /**
  * Evaluate an LC term
  * Impure operations execute directly, pure operations use miniKanren
  */
-function evaluate(
+function* evaluate(
   term: LCTerm,
   tools: SolverTools,
   bindings: Bindings,
   log: (msg: string) => void
-): unknown {
+): Evaluation {
   switch (term.tag) {
     case "lit":
       return term.value;
@@ -125,7 +300,7 @@ function evaluate(
       }
 
       log(`[Solver] Executing grep("${pattern}")`);
-      const results = tools.grep(pattern);
+      const results = yield* grepDocument(tools, pattern);
       log(`[Solver] Found ${results.length} matches`);
       if (results.length > 0) {
         log(`[Solver] Sample matches:`);
@@ -133,6 +308,11 @@ function evaluate(
           log(`  ${i + 1}. [line ${r.lineNum}] ${r.line.slice(0, 80)}`);
         });
       }
+      if (term.context !== undefined) {
+        const windows = contextWindows(tools.context, results.map((r) => r.lineNum), term.context);
+        log(`[Solver] Merged ${results.length} matches into ${windows.length} context windows (±${term.context})`);
+        return windows;
+      }
       return results;
     }
 
@@ -162,13 +342,49 @@ function evaluate(
       return selectedLines;
     }
 
+    case "records": {
+      log(`[Solver] Splitting records at /${term.pattern}/`);
+      const records = tools.records(term.pattern);
+      log(`[Solver] Found ${records.length} records`);
+      if (records.length > 0) {
+        const first = records[0];
+        log(`[Solver] First record: lines ${first.startLine}-${first.endLine}`);
+      }
+      return records;
+    }
+
+    case "context": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`context: expected array, got ${typeof collection}`);
+      }
+      // Anchor on lineNum (grep/fuzzy results) or the span of a record
+      const anchorLines: number[] = [];
+      for (const item of collection) {
+        if (typeof item !== "object" || item === null) continue;
+        const obj = item as { lineNum?: unknown; startLine?: unknown; endLine?: unknown };
+        if (typeof obj.lineNum === "number") {
+          anchorLines.push(obj.lineNum);
+        } else if (typeof obj.startLine === "number") {
+          const end = typeof obj.endLine === "number" ? obj.endLine : obj.startLine;
+          for (let n = obj.startLine; n <= end; n++) anchorLines.push(n);
+        }
+      }
+      if (collection.length > 0 && anchorLines.length === 0) {
+        throw new Error(`context: items have no line numbers (use grep, fuzzy_search or records results)`);
+      }
+      const windows = contextWindows(tools.context, anchorLines, term.n);
+      log(`[Solver] Built ${windows.length} context windows (±${term.n}) from ${collection.length} items`);
+      return windows;
+    }
+
     // ==========================
     // PURE OPERATIONS - Use miniKanren for filtering/classification
     // ==========================
 
     case "filter": {
       // Evaluate the collection first (may be grep, fuzzy_search, etc.)
-      const collection = evaluate(term.collection, tools, bindings, log) as Array<{ line: string; lineNum: number }>;
+      const collection = (yield* evaluate(term.collection, tools, bindings, log)) as Array<{ line: string; lineNum: number }>;
       if (!Array.isArray(collection)) {
         throw new Error(`filter: expected array, got ${typeof collection}`);
       }
@@ -184,14 +400,15 @@ function evaluate(
       log(`[Solver] Converting ${collection.length} items to filter`);
 
       // Evaluate predicate for each item
-      // Handle both grep results (objects with .line) and raw values
+      // Handle grep results (.line), records (.text) and raw values
       const results: unknown[] = [];
 
       for (let idx = 0; idx < collection.length; idx++) {
+        if (idx % PROGRESS_STRIDE === 0) {
+          yield { stage: "filter", done: idx, total: collection.length };
+        }
         const item = collection[idx];
-        const itemValue = typeof item === "object" && item !== null && "line" in item
-          ? (item as { line: string }).line
-          : String(item ?? "");
+        const itemValue = lambdaInput(item);
 
         const matches = evaluatePredicate(predBody, predLambda.param, itemValue, tools, bindings, log);
         if (matches) {
@@ -204,7 +421,7 @@ function evaluate(
     }
 
     case "map": {
-      const collection = evaluate(term.collection, tools, bindings, log) as Array<{ line: string; lineNum: number }>;
+      const collection = (yield* evaluate(term.collection, tools, bindings, log)) as Array<{ line: string; lineNum: number }>;
       if (!Array.isArray(collection)) {
         throw new Error(`map: expected array, got ${typeof collection}`);
       }
@@ -217,11 +434,12 @@ function evaluate(
       log(`[Solver] Mapping over ${collection.length} items`);
 
       const results: unknown[] = [];
-      for (const item of collection) {
-        // Handle both grep results (objects with .line) and raw values
-        const itemValue = typeof item === "object" && item !== null && "line" in item
-          ? (item as { line: string }).line
-          : String(item ?? "");
+      for (let idx = 0; idx < collection.length; idx++) {
+        if (idx % PROGRESS_STRIDE === 0) {
+          yield { stage: "map", done: idx, total: collection.length };
+        }
+        // Handle grep results (.line), records (.text) and raw values
+        const itemValue = lambdaInput(collection[idx]);
 
         const value = evaluateTransform(
           transformLambda.body,
@@ -237,41 +455,105 @@ function evaluate(
       return results;
     }
 
+    case "sort": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`sort: expected array, got ${typeof collection}`);
+      }
+      log(`[Solver] Sorting ${collection.length} items (${term.direction})`);
+      return yield* sortByKey(collection, term.key, term.direction, tools, bindings, log);
+    }
+
+    case "take":
+    case "drop": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`${term.tag}: expected array, got ${typeof collection}`);
+      }
+      const n = Math.max(0, Math.floor(term.n));
+      const results = term.tag === "take" ? collection.slice(0, n) : collection.slice(n);
+      log(`[Solver] ${term.tag} ${n}: ${results.length} of ${collection.length} items`);
+      return results;
+    }
+
+    case "top_k": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`top_k: expected array, got ${typeof collection}`);
+      }
+      const k = Math.max(0, Math.floor(term.k));
+      const results = (yield* sortByKey(collection, term.key, "desc", tools, bindings, log)).slice(0, k);
+      log(`[Solver] top_k kept ${results.length} of ${collection.length} items`);
+      return results;
+    }
+
+    case "group_by": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`group_by: expected array, got ${typeof collection}`);
+      }
+      const groups = yield* groupByKey(collection, term.key, "group_by", tools, bindings, log);
+      log(`[Solver] group_by: ${collection.length} items in ${groups.length} groups`);
+      return groups.map((g) => ({ key: g.key, count: g.items.length, items: g.items }));
+    }
+
+    case "frequencies": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`frequencies: expected array, got ${typeof collection}`);
+      }
+      const groups = yield* groupByKey(collection, term.key, "frequencies", tools, bindings, log);
+      log(`[Solver] frequencies: ${groups.length} distinct keys`);
+      return groups
+        .map((g) => ({ key: g.key, count: g.items.length }))
+        .sort((a, b) => b.count - a.count);
+    }
+
+    case "group_sum": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`group_sum: expected array, got ${typeof collection}`);
+      }
+      if (term.value.tag !== "lambda") {
+        throw new Error(`group_sum: value must be a lambda`);
+      }
+      const valueFn = term.value;
+      const groups = yield* groupByKey(collection, term.key, "group_sum", tools, bindings, log);
+      log(`[Solver] group_sum: ${groups.length} groups`);
+      return groups
+        .map((g) => {
+          let sum = 0;
+          for (const itemValue of g.values) {
+            const num = extractNumber(
+              evaluateWithBinding(valueFn.body, valueFn.param, itemValue, tools, bindings, log)
+            );
+            if (num !== null) sum += num;
+          }
+          return { key: g.key, count: g.items.length, sum };
+        })
+        .sort((a, b) => b.sum - a.sum);
+    }
+
     case "sum": {
+      const pushed = tableAggregate("sum", term.collection, bindings, log);
+      if (pushed !== undefined) return pushed;
       // Sum numeric values in array - works with any numeric array
-      const collection = evaluate(term.collection, tools, bindings, log);
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
       if (!Array.isArray(collection)) {
         throw new Error(`sum: expected array, got ${typeof collection}`);
       }
       log(`[Solver] Summing ${collection.length} values`);
-      const total = collection.reduce((acc: number, val: unknown) => {
-        if (typeof val === "number") return acc + val;
-        if (typeof val === "string") {
-          // Try to parse numeric string (handles "$1,000" format)
-          const cleaned = val.replace(/[$,]/g, "");
-          const num = parseFloat(cleaned);
-          return isNaN(num) ? acc : acc + num;
-        }
-        // Handle grep result objects - extract number from line
-        if (typeof val === "object" && val !== null && "line" in val) {
-          const line = (val as { line: string }).line;
-          // Look for dollar amounts like "$1,234,567" or plain numbers
-          const numMatch = line.match(/\$?([\d,]+(?:\.\d+)?)/);
-          if (numMatch) {
-            const cleaned = numMatch[1].replace(/,/g, "");
-            const num = parseFloat(cleaned);
-            return isNaN(num) ? acc : acc + num;
-          }
-        }
-        return acc;
-      }, 0);
+      // Handles numbers, "$1,000" strings and grep results (number from line)
+      const total = extractNumbers(collection).reduce((acc, n) => acc + n, 0);
       log(`[Solver] Sum = ${total}`);
       return total;
     }
 
     case "count": {
+      const pushed = tableAggregate("count", term.collection, bindings, log);
+      if (pushed !== undefined) return pushed;
       // Count items in array
-      const collection = evaluate(term.collection, tools, bindings, log);
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
       if (!Array.isArray(collection)) {
         throw new Error(`count: expected array, got ${typeof collection}`);
       }
@@ -279,21 +561,52 @@ function evaluate(
       return collection.length;
     }
 
+    case "min":
+    case "max":
+    case "avg":
+    case "median":
+    case "stddev": {
+      const pushed = tableAggregate(term.tag, term.collection, bindings, log);
+      if (pushed !== undefined) return pushed;
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`${term.tag}: expected array, got ${typeof collection}`);
+      }
+      const nums = extractNumbers(collection);
+      const value = computeStat(term.tag, nums);
+      log(`[Solver] ${term.tag} of ${nums.length} numeric values (${collection.length} items) = ${value}`);
+      return value;
+    }
+
+    case "percentile": {
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`percentile: expected array, got ${typeof collection}`);
+      }
+      const nums = extractNumbers(collection);
+      const value = computePercentile(nums, term.p);
+      log(`[Solver] p${term.p} of ${nums.length} numeric values (${collection.length} items) = ${value}`);
+      return value;
+    }
+
     case "reduce": {
       // Generic reduce - (reduce collection init (lambda (acc x) ...))
-      const collection = evaluate(term.collection, tools, bindings, log);
+      const collection = yield* evaluate(term.collection, tools, bindings, log);
       if (!Array.isArray(collection)) {
         throw new Error(`reduce: expected array, got ${typeof collection}`);
       }
-      const init = evaluate(term.init, tools, bindings, log);
+      const init = yield* evaluate(term.init, tools, bindings, log);
       if (term.fn.tag !== "lambda") {
         throw new Error(`reduce: fn must be a lambda`);
       }
       log(`[Solver] Reducing ${collection.length} items`);
       let acc = init;
-      for (const item of collection) {
+      for (let idx = 0; idx < collection.length; idx++) {
+        if (idx % PROGRESS_STRIDE === 0) {
+          yield { stage: "reduce", done: idx, total: collection.length };
+        }
         // Evaluate lambda with acc and item bound
-        acc = evaluateReduceFn(term.fn, acc, item, tools, bindings, log);
+        acc = evaluateReduceFn(term.fn, acc, collection[idx], tools, bindings, log);
       }
       return acc;
     }
@@ -330,7 +643,7 @@ function evaluate(
     // ==========================
 
     case "match": {
-      const str = evaluate(term.str, tools, bindings, log) as string;
+      const str = (yield* evaluate(term.str, tools, bindings, log)) as string;
       if (typeof str !== "string") {
         throw new Error(`match: expected string, got ${typeof str}`);
       }
@@ -340,7 +653,7 @@ function evaluate(
     }
 
     case "replace": {
-      const str = evaluate(term.str, tools, bindings, log) as string;
+      const str = (yield* evaluate(term.str, tools, bindings, log)) as string;
       if (typeof str !== "string") {
         throw new Error(`replace: expected string, got ${typeof str}`);
       }
@@ -348,7 +661,7 @@ function evaluate(
     }
 
     case "split": {
-      const str = evaluate(term.str, tools, bindings, log) as string;
+      const str = (yield* evaluate(term.str, tools, bindings, log)) as string;
       if (typeof str !== "string") {
         throw new Error(`split: expected string, got ${typeof str}`);
       }
@@ -357,17 +670,17 @@ function evaluate(
     }
 
     case "parseInt": {
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       return parseInt(String(str), 10);
     }
 
     case "parseFloat": {
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       return parseFloat(String(str));
     }
 
     case "parseDate": {
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       log(`[Lattice] Parsing date from: "${str}"`);
 
       // If examples are provided, prefer synthesis for consistency
@@ -392,7 +705,7 @@ function evaluate(
     }
 
     case "parseCurrency": {
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       log(`[Lattice] Parsing currency from: "${str}"`);
 
       // If examples are provided, prefer synthesis for consistency
@@ -417,7 +730,7 @@ function evaluate(
     }
 
     case "parseNumber": {
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       log(`[Lattice] Parsing number from: "${str}"`);
 
       // If examples are provided, prefer synthesis for consistency
@@ -442,7 +755,7 @@ function evaluate(
     }
 
     case "coerce": {
-      const value = evaluate(term.term, tools, bindings, log);
+      const value = yield* evaluate(term.term, tools, bindings, log);
       log(`[Lattice] Coercing "${value}" to ${term.targetType}`);
       const coerced = coerceValue(value, term.targetType);
       log(`[Lattice] Coerced result: ${coerced}`);
@@ -450,7 +763,7 @@ function evaluate(
     }
 
     case "extract": {
-      const str = evaluate(term.str, tools, bindings, log) as string;
+      const str = (yield* evaluate(term.str, tools, bindings, log)) as string;
       if (typeof str !== "string") {
         throw new Error(`extract: expected string, got ${typeof str}`);
       }
@@ -542,37 +855,81 @@ function evaluate(
     }
 
     case "add": {
-      const left = evaluate(term.left, tools, bindings, log) as number;
-      const right = evaluate(term.right, tools, bindings, log) as number;
+      const left = (yield* evaluate(term.left, tools, bindings, log)) as number;
+      const right = (yield* evaluate(term.right, tools, bindings, log)) as number;
       return left + right;
     }
 
     case "if": {
-      const cond = evaluate(term.cond, tools, bindings, log);
+      const cond = yield* evaluate(term.cond, tools, bindings, log);
       if (cond) {
-        return evaluate(term.then, tools, bindings, log);
+        return yield* evaluate(term.then, tools, bindings, log);
       } else {
-        return evaluate(term.else, tools, bindings, log);
+        return yield* evaluate(term.else, tools, bindings, log);
       }
     }
 
+    case "and":
+    case "or":
+    case "not":
+    case "compare":
+    case "contains":
+    case "starts_with":
+    case "ends_with":
+      return yield* evaluateLogic(term, (t) => evaluate(t, tools, bindings, log));
+
+    case "parse_json":
+    case "parse_kv":
+    case "parse_csv_row":
+    case "get":
+      return yield* evaluateStructured(term, (t) => evaluate(t, tools, bindings, log));
+
     case "lambda":
       // Return a closure representation
       return { _type: "closure", param: term.param, body: term.body };
 
     case "app": {
-      const fn = evaluate(term.fn, tools, bindings, log) as { _type: "closure"; param: string; body: LCTerm };
+      const fn = (yield* evaluate(term.fn, tools, bindings, log)) as { _type: "closure"; param: string; body: LCTerm };
       if (!fn || fn._type !== "closure") {
         throw new Error(`app: expected closure, got ${typeof fn}`);
       }
-      const arg = evaluate(term.arg, tools, bindings, log);
+      const arg = yield* evaluate(term.arg, tools, bindings, log);
       // Substitute arg for param in body and evaluate
       // For simplicity, we evaluate directly here
       return evaluateWithBinding(fn.body, fn.param, arg, tools, bindings, log);
     }
 
     case "constrained":
-      return evaluate(term.term, tools, bindings, log);
+      return yield* evaluate(term.term, tools, bindings, log);
+
+    // ==========================
+    // SCOPING AND SEQUENCING
+    // ==========================
+
+    case "let": {
+      // Sequential bindings in a local scope - outer bindings are untouched
+      const scope: Bindings = new Map(bindings);
+      for (const binding of term.bindings) {
+        const value = yield* evaluate(binding.value, tools, scope, log);
+        scope.set(binding.name, value);
+        log(`[Solver] let ${binding.name} = ${describeValue(value)}`);
+      }
+      return yield* evaluate(term.body, tools, scope, log);
+    }
+
+    case "do": {
+      // Each array result rebinds RESULTS for the next step, like a new turn
+      const scope: Bindings = new Map(bindings);
+      let value: unknown = null;
+      for (let i = 0; i < term.terms.length; i++) {
+        value = yield* evaluate(term.terms[i], tools, scope, log);
+        if (Array.isArray(value)) {
+          scope.set("RESULTS", value);
+          log(`[Solver] do step ${i + 1}: bound ${value.length} items to RESULTS`);
+        }
+      }
+      return value;
+    }
 
     case "define-fn": {
       // Synthesize a function from examples and return it for storage
@@ -603,14 +960,14 @@ function evaluate(
       if (!storedFn || storedFn._type !== "synthesized-fn") {
         throw new Error(`apply-fn: function "${term.name}" not found in bindings`);
       }
-      const arg = evaluate(term.arg, tools, bindings, log);
+      const arg = yield* evaluate(term.arg, tools, bindings, log);
       log(`[Lattice] Applying function "${term.name}" to "${arg}"`);
       return storedFn.fn(String(arg));
     }
 
     case "predicate": {
       // Synthesize a predicate from examples
-      const str = evaluate(term.str, tools, bindings, log);
+      const str = yield* evaluate(term.str, tools, bindings, log);
       if (term.examples && term.examples.length > 0) {
         log(`[Lattice] Synthesizing predicate from ${term.examples.length} examples`);
         const result = synthesisIntegrator.synthesizeOnFailure({
@@ -629,6 +986,47 @@ function evaluate(
       return Boolean(str);
     }
 
+    // ==========================
+    // JSON OPERATIONS - .json/.jsonl documents
+    // ==========================
+
+    case "jpath": {
+      if (tools.json === undefined) {
+        throw new Error("jpath: No JSON document loaded. Load a .json or .jsonl file first.");
+      }
+      const matches = queryJsonPath(tools.json, term.path);
+      log(`[Solver] jpath ${term.path}: ${matches.length} matches`);
+      return matches;
+    }
+
+    // ==========================
+    // TABLE OPERATIONS - CSV/TSV documents stored in SessionDB
+    // ==========================
+
+    case "where": {
+      const db = requireTable(bindings, "where");
+      const condition = compileWhere(term.predicate, db.getTableColumns());
+      log(`[Solver] where: ${condition.sql}`);
+      const rows = db.selectRows(condition);
+      log(`[Solver] where matched ${rows.length} rows`);
+      return rows;
+    }
+
+    case "column": {
+      if (!term.source || term.source.tag === "where") {
+        const db = requireTable(bindings, "column");
+        const condition = term.source ? compileWhere(term.source.predicate, db.getTableColumns()) : undefined;
+        const values = db.selectColumn(term.name, condition);
+        log(`[Solver] column "${term.name}": ${values.length} values`);
+        return values;
+      }
+      const collection = yield* evaluate(term.source, tools, bindings, log);
+      if (!Array.isArray(collection)) {
+        throw new Error(`column: expected array, got ${typeof collection}`);
+      }
+      return collection.map((item) => getField(unwrapItem(item), term.name));
+    }
+
     // ==========================
     // SYMBOL OPERATIONS - Tree-sitter AST queries
     // ==========================
@@ -660,7 +1058,7 @@ function evaluate(
         throw new Error("get_symbol_body: No symbol database available. Load a code file first.");
       }
 
-      const symbolRef = evaluate(term.symbol, tools, bindings, log);
+      const symbolRef = yield* evaluate(term.symbol, tools, bindings, log);
       let symbol: import("../treesitter/types.js").Symbol | null = null;
 
       // Handle different input types
@@ -691,7 +1089,7 @@ function evaluate(
 
       // Use word boundary matching to find whole-word references
       const pattern = `\\b${term.name}\\b`;
-      const results = tools.grep(pattern);
+      const results = yield* grepDocument(tools, pattern);
 
       log(`[Solver] Found ${results.length} references to "${term.name}"`);
       return results;
@@ -702,6 +1100,319 @@ function evaluate(
   }
 }
 
+/**
+ * Stable sort of a collection by an optional key lambda.
+ * Grep results are keyed by their line and records by their text; numbers
+ * and numeric strings compare numerically, everything else as strings.
+ * Null/undefined/NaN keys sort last.
+ */
+function* sortByKey(
+  collection: unknown[],
+  key: LCTerm | undefined,
+  direction: SortDirection,
+  tools: SolverTools,
+  bindings: Bindings,
+  log: (msg: string) => void
+): Evaluation<unknown[]> {
+  if (key && key.tag !== "lambda") {
+    throw new Error(`sort: key must be a lambda`);
+  }
+
+  const keyed: Array<{ item: unknown; index: number; key: unknown }> = [];
+  for (let index = 0; index < collection.length; index++) {
+    if (index % PROGRESS_STRIDE === 0) {
+      yield { stage: "sort", done: index, total: collection.length };
+    }
+    const item = collection[index];
+    const itemValue = unwrapItem(item);
+    const k = key && key.tag === "lambda"
+      ? evaluateWithBinding(key.body, key.param, itemValue, tools, bindings, log)
+      : itemValue;
+    keyed.push({ item, index, key: k });
+  }
+
+  const isMissing = (v: unknown) =>
+    v === null || v === undefined || (typeof v === "number" && isNaN(v));
+  const sign = direction === "desc" ? -1 : 1;
+
+  keyed.sort((a, b) => {
+    const aMissing = isMissing(a.key);
+    const bMissing = isMissing(b.key);
+    if (aMissing || bMissing) {
+      return aMissing === bMissing ? a.index - b.index : aMissing ? 1 : -1;
+    }
+    const aNum = toSortNumber(a.key);
+    const bNum = toSortNumber(b.key);
+    let cmp: number;
+    if (aNum !== null && bNum !== null) {
+      cmp = aNum - bNum;
+    } else {
+      cmp = String(a.key).localeCompare(String(b.key));
+    }
+    return cmp !== 0 ? sign * cmp : a.index - b.index;
+  });
+
+  return keyed.map((entry) => entry.item);
+}
+
+/**
+ * Partition a collection by the value of a key lambda, in first-seen order.
+ * Without a key function items group by their line/text/value.
+ * Items whose key is null/undefined are left out of every group.
+ */
+function* groupByKey(
+  collection: unknown[],
+  key: LCTerm | undefined,
+  opName: string,
+  tools: SolverTools,
+  bindings: Bindings,
+  log: (msg: string) => void
+): Evaluation<Array<{ key: unknown; items: unknown[]; values: unknown[] }>> {
+  if (key && key.tag !== "lambda") {
+    throw new Error(`${opName}: key must be a lambda`);
+  }
+
+  const groups = new Map<unknown, { key: unknown; items: unknown[]; values: unknown[] }>();
+  let skipped = 0;
+
+  for (let index = 0; index < collection.length; index++) {
+    if (index % PROGRESS_STRIDE === 0) {
+      yield { stage: opName, done: index, total: collection.length };
+    }
+    const item = collection[index];
+    const itemValue = unwrapItem(item);
+    const k = key && key.tag === "lambda"
+      ? evaluateWithBinding(key.body, key.param, itemValue, tools, bindings, log)
+      : itemValue;
+    if (k === null || k === undefined) {
+      skipped++;
+      continue;
+    }
+    // Objects/arrays group by structure rather than identity
+    const id = typeof k === "object" ? JSON.stringify(k) : k;
+    let group = groups.get(id);
+    if (!group) {
+      group = { key: k, items: [], values: [] };
+      groups.set(id, group);
+    }
+    group.items.push(item);
+    group.values.push(itemValue);
+  }
+
+  if (skipped > 0) {
+    log(`[Solver] ${opName}: skipped ${skipped} items with no key`);
+  }
+  return [...groups.values()];
+}
+
+function toSortNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value.trim());
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+type LogicTerm = Extract<
+  LCTerm,
+  { tag: "and" | "or" | "not" | "compare" | "contains" | "starts_with" | "ends_with" }
+>;
+
+/**
+ * Evaluate boolean, comparison and string-test combinators.
+ * Operands are evaluated through `sub`, so the same rules apply at the
+ * top level and inside lambda bodies (where the parameter is bound).
+ */
+function* evaluateLogic(term: LogicTerm, sub: (t: LCTerm) => Evaluation): Evaluation<boolean> {
+  switch (term.tag) {
+    case "and":
+      for (const t of term.terms) {
+        if (!(yield* sub(t))) return false;
+      }
+      return true;
+
+    case "or":
+      for (const t of term.terms) {
+        if (yield* sub(t)) return true;
+      }
+      return false;
+
+    case "not":
+      return !(yield* sub(term.term));
+
+    case "compare": {
+      const left = yield* sub(term.left);
+      const right = yield* sub(term.right);
+      return compareValues(term.op, left, right);
+    }
+
+    case "contains":
+    case "starts_with":
+    case "ends_with": {
+      const str = toText(yield* sub(term.str));
+      const part = toText(yield* sub(term.sub));
+      if (str === null || part === null) return false;
+      const haystack = str.toLowerCase();
+      const needle = part.toLowerCase();
+      if (term.tag === "contains") return haystack.includes(needle);
+      if (term.tag === "starts_with") return haystack.startsWith(needle);
+      return haystack.endsWith(needle);
+    }
+  }
+}
+
+type StructuredTerm = Extract<LCTerm, { tag: "parse_json" | "parse_kv" | "parse_csv_row" | "get" }>;
+
+/**
+ * Evaluate structured parsing and field access. Parsers accept strings,
+ * grep results and records (using their line/text); already-parsed
+ * objects pass through unchanged.
+ */
+function* evaluateStructured(term: StructuredTerm, sub: (t: LCTerm) => Evaluation): Evaluation {
+  if (term.tag === "get") {
+    return getField(yield* sub(term.obj), term.field);
+  }
+
+  const input = unwrapItem(yield* sub(term.str));
+  if (input === null || input === undefined) return null;
+  if (typeof input === "object") return input;
+  const str = String(input);
+
+  switch (term.tag) {
+    case "parse_json":
+      return parseJsonValue(str);
+    case "parse_kv":
+      return parseKeyValue(str);
+    case "parse_csv_row": {
+      const fields = parseCsvRow(str);
+      return term.columns ? zipColumns(term.columns, fields) : fields;
+    }
+  }
+}
+
+/**
+ * Get the SessionDB holding the loaded table, or throw for non-tabular documents
+ */
+function requireTable(bindings: Bindings, op: string): SessionDB {
+  const db = bindings.get("_sessionDB") as SessionDB | undefined;
+  if (!db || db.getTableColumns().length === 0) {
+    throw new Error(`${op}: No table loaded. Load a .csv or .tsv file first.`);
+  }
+  return db;
+}
+
+/**
+ * Run an aggregate over a table column (or where rows) in SQL.
+ * Returns undefined when the collection is not a table query or the
+ * aggregate needs the in-memory path (TEXT columns, median, stddev).
+ */
+function tableAggregate(
+  op: "sum" | "count" | StatOp,
+  collection: LCTerm,
+  bindings: Bindings,
+  log: (msg: string) => void
+): number | null | undefined {
+  const source = collection.tag === "column" ? collection.source : collection;
+  if (collection.tag !== "where" && collection.tag !== "column") return undefined;
+  if (source && source.tag !== "where") return undefined;
+
+  const db = requireTable(bindings, collection.tag);
+  const condition = source ? compileWhere(source.predicate, db.getTableColumns()) : undefined;
+
+  if (op === "count") {
+    const count = db.countRows(condition);
+    log(`[Solver] Count (SQL) = ${count}`);
+    return count;
+  }
+  if (collection.tag !== "column" || op === "median" || op === "stddev") return undefined;
+
+  const column = findColumn(collection.name, db.getTableColumns());
+  if (column.type === "TEXT") return undefined;
+
+  const value = db.aggregateColumn(op, column.name, condition);
+  log(`[Solver] ${op} of column "${column.name}" (SQL) = ${value}`);
+  return value;
+}
+
+/**
+ * Compare two values: numerically when both are numbers or numeric
+ * strings, otherwise as strings. Null/undefined never compare, except
+ * that (= null null) is true.
+ */
+function compareValues(op: CompareOp, left: unknown, right: unknown): boolean {
+  const a = unwrapItem(left) ?? null;
+  const b = unwrapItem(right) ?? null;
+  if (a === null || b === null) {
+    return op === "=" && a === b;
+  }
+
+  const aNum = toSortNumber(a);
+  const bNum = toSortNumber(b);
+  let cmp: number;
+  if (aNum !== null && bNum !== null) {
+    cmp = aNum - bNum;
+  } else if (op === "=") {
+    return String(a) === String(b);
+  } else {
+    cmp = String(a).localeCompare(String(b));
+  }
+
+  switch (op) {
+    case ">": return cmp > 0;
+    case "<": return cmp < 0;
+    case ">=": return cmp >= 0;
+    case "<=": return cmp <= 0;
+    case "=": return cmp === 0;
+  }
+}
+
+/**
+ * Grep results stand for their line and records for their text;
+ * other values are returned unchanged
+ */
+function unwrapItem(value: unknown): unknown {
+  if (isPathMatch(value)) return value.value;
+  if (typeof value === "object" && value !== null) {
+    if ("line" in value) return (value as { line: unknown }).line;
+    if ("text" in value && "startLine" in value) return (value as { text: unknown }).text;
+  }
+  return value;
+}
+
+/**
+ * Value a filter/map lambda sees for an item: the line/text for grep
+ * results and records, parsed objects and jpath values as-is, anything
+ * else as a string
+ */
+function lambdaInput(item: unknown): unknown {
+  if (isPathMatch(item)) return item.value;
+  const value = unwrapItem(item);
+  if (typeof value === "object" && value !== null) return value;
+  return String(value ?? "");
+}
+
+/**
+ * String form of a value for text tests, null for null/undefined
+ */
+function toText(value: unknown): string | null {
+  const unwrapped = unwrapItem(value);
+  if (unwrapped === null || unwrapped === undefined) return null;
+  return String(unwrapped);
+}
+
+/**
+ * Short description of a value for solver logs
+ */
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 50 ? value.slice(0, 50) + "..." : value);
+  }
+  if (typeof value === "object" && value !== null) return "object";
+  return String(value);
+}
+
 /**
  * Evaluate a predicate term with a bound variable
  * Returns true if the predicate matches
@@ -709,14 +1420,14 @@ function evaluate(
 function evaluatePredicate(
   body: LCTerm,
   param: string,
-  value: string,
+  value: unknown,
   tools: SolverTools,
   bindings: Bindings,
   log: (msg: string) => void
 ): boolean {
   // Simple pattern: (match var "pattern" 0)
   if (body.tag === "match") {
-    const str = body.str.tag === "var" && body.str.name === param ? value : String(evaluate(body.str, tools, bindings, log));
+    const str = body.str.tag === "var" && body.str.name === param ? String(value) : String(runSync(evaluate(body.str, tools, bindings, log)));
     const regex = new RegExp(body.pattern, "i"); // Case-insensitive like grep
     const result = str.match(regex);
     return result !== null && result[body.group] !== undefined;
@@ -743,7 +1454,7 @@ function evaluatePredicate(
 function evaluateTransform(
   body: LCTerm,
   param: string,
-  value: string,
+  value: unknown,
   tools: SolverTools,
   bindings: Bindings,
   log: (msg: string) => void
@@ -775,14 +1486,14 @@ function evaluateReduceFn(
     const newBindings = new Map(bindings);
     newBindings.set(param, acc);
     newBindings.set(itemParam, item);
-    return evaluate(innerBody, tools, newBindings, log);
+    return runSync(evaluate(innerBody, tools, newBindings, log));
   }
 
   // Single param - bind it to the item, use existing bindings for acc
   const newBindings = new Map(bindings);
   newBindings.set(param, item);
   newBindings.set("acc", acc); // Convention: acc is available
-  return evaluate(body, tools, newBindings, log);
+  return runSync(evaluate(body, tools, newBindings, log));
 }
 
 /**
@@ -800,7 +1511,7 @@ function evaluateWithBinding(
   switch (body.tag) {
     case "var":
       if (body.name === param) return value;
-      return evaluate(body, tools, bindings, log);
+      return runSync(evaluate(body, tools, bindings, log));
 
     case "lit":
       return body.value;
@@ -969,11 +1680,26 @@ function evaluateWithBinding(
       return Boolean(str);
     }
 
+    case "and":
+    case "or":
+    case "not":
+    case "compare":
+    case "contains":
+    case "starts_with":
+    case "ends_with":
+      return runSync(evaluateLogic(body, (t) => immediate(evaluateWithBinding(t, param, value, tools, bindings, log))));
+
+    case "parse_json":
+    case "parse_kv":
+    case "parse_csv_row":
+    case "get":
+      return runSync(evaluateStructured(body, (t) => immediate(evaluateWithBinding(t, param, value, tools, bindings, log))));
+
     default:
       // For unhandled cases, create a temporary binding and evaluate
       const newBindings = new Map(bindings);
       newBindings.set(param, value);
-      return evaluate(body, tools, newBindings, log);
+      return runSync(evaluate(body, tools, newBindings, log));
   }
 }
 
@@ -0,0 +1,89 @@
+/**
+ * Multi-line record segmentation
+ *
+ * Splits a document into records at lines matching a start-of-record regex,
+ * so stack traces and multi-line log entries stay together, and builds
+ * context windows around matched lines.
+ */
+
+/**
+ * A multi-line record (1-indexed, inclusive line range)
+ */
+export interface DocumentRecord {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Split content into records. A record starts at every line matching
+ * `pattern` (case-insensitive, like grep) and runs until the next start.
+ * Lines before the first start belong to no record; trailing blank lines
+ * are trimmed from each record.
+ */
+export function splitRecords(content: string, pattern: string): DocumentRecord[] {
+  const regex = new RegExp(pattern, "i");
+  const lines = content.split("\n");
+  const records: DocumentRecord[] = [];
+
+  let start = -1;
+  const close = (endExclusive: number) => {
+    let end = endExclusive - 1;
+    while (end > start && lines[end].trim() === "") end--;
+    records.push({
+      text: lines.slice(start, end + 1).join("\n"),
+      startLine: start + 1,
+      endLine: end + 1,
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (regex.test(lines[i])) {
+      if (start >= 0) close(i);
+      start = i;
+    }
+  }
+  if (start >= 0) close(lines.length);
+
+  return records;
+}
+
+/**
+ * A window of surrounding lines around one or more anchor lines
+ */
+export interface ContextWindow extends DocumentRecord {
+  /** First anchor line, so windows still sort and display like grep hits */
+  lineNum: number;
+  /** Line numbers of the results that produced this window */
+  anchors: number[];
+}
+
+/**
+ * Build grep -C style windows of `radius` lines around each anchor line.
+ * Overlapping or adjacent windows are merged; output is in document order.
+ */
+export function contextWindows(content: string, anchorLines: number[], radius: number): ContextWindow[] {
+  const lines = content.split("\n");
+  const anchors = [...new Set(anchorLines)]
+    .filter((n) => n >= 1 && n <= lines.length)
+    .sort((a, b) => a - b);
+  const n = Math.max(0, Math.floor(radius));
+
+  const windows: ContextWindow[] = [];
+  for (const anchor of anchors) {
+    const startLine = Math.max(1, anchor - n);
+    const endLine = Math.min(lines.length, anchor + n);
+    const last = windows[windows.length - 1];
+    if (last && startLine <= last.endLine + 1) {
+      last.endLine = Math.max(last.endLine, endLine);
+      last.anchors.push(anchor);
+    } else {
+      windows.push({ text: "", startLine, endLine, lineNum: anchor, anchors: [anchor] });
+    }
+  }
+
+  for (const window of windows) {
+    window.text = lines.slice(window.startLine - 1, window.endLine).join("\n");
+  }
+  return windows;
+}
@@ -0,0 +1,90 @@
+/**
+ * Statistical aggregates for Nucleus collections
+ *
+ * Shared by the LC solver and HandleOps so that (avg RESULTS) and a
+ * handle-side avg extract numbers the same way (sum semantics):
+ * - numbers are used as-is
+ * - strings are parsed after stripping "$" and "," ("$1,200" -> 1200)
+ * - grep results use the first number on their line, which may be part of
+ *   a timestamp; (map ... (lambda x (match x "took (\\d+)ms" 1))) picks a value
+ * - jpath matches use their value
+ * Anything else is ignored.
+ */
+
+import type { StatOp } from "./types.js";
+import { isPathMatch } from "./json-path.js";
+
+/**
+ * Extract a number from a collection item, null if it has none
+ */
+export function extractNumber(value: unknown): number | null {
+  if (isPathMatch(value)) return extractNumber(value.value);
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (typeof value === "string") {
+    const num = parseFloat(value.replace(/[$,]/g, ""));
+    return isNaN(num) ? null : num;
+  }
+  if (typeof value === "object" && value !== null && "line" in value) {
+    const line = String((value as { line: unknown }).line);
+    // Look for dollar amounts like "$1,234,567" or plain numbers
+    const numMatch = line.match(/\$?([\d,]+(?:\.\d+)?)/);
+    if (numMatch) {
+      const num = parseFloat(numMatch[1].replace(/,/g, ""));
+      return isNaN(num) ? null : num;
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract all numbers from a collection, skipping items without one
+ */
+export function extractNumbers(values: unknown[]): number[] {
+  const nums: number[] = [];
+  for (const value of values) {
+    const num = extractNumber(value);
+    if (num !== null) nums.push(num);
+  }
+  return nums;
+}
+
+/**
+ * Compute an aggregate over numbers. Returns null for an empty input.
+ * stddev is the population standard deviation.
+ */
+export function computeStat(op: StatOp, nums: number[]): number | null {
+  if (nums.length === 0) return null;
+
+  switch (op) {
+    case "min":
+      return nums.reduce((a, b) => (b < a ? b : a));
+    case "max":
+      return nums.reduce((a, b) => (b > a ? b : a));
+    case "avg":
+      return nums.reduce((a, b) => a + b, 0) / nums.length;
+    case "median":
+      return computePercentile(nums, 50);
+    case "stddev": {
+      const mean = nums.reduce((a, b) => a + b, 0) / nums.length;
+      const variance = nums.reduce((acc, n) => acc + (n - mean) ** 2, 0) / nums.length;
+      return Math.sqrt(variance);
+    }
+  }
+}
+
+/**
+ * p-th percentile (0-100) with linear interpolation between closest ranks.
+ * Returns null for an empty input.
+ */
+export function computePercentile(nums: number[], p: number): number | null {
+  if (nums.length === 0) return null;
+  if (p < 0 || p > 100 || isNaN(p)) {
+    throw new Error(`percentile: p must be between 0 and 100, got ${p}`);
+  }
+
+  const sorted = [...nums].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
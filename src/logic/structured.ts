@@ -0,0 +1,169 @@
+/**
+ * Structured field parsing for Nucleus
+ *
+ * Turns JSON lines, key=value logs and CSV rows into records so fields
+ * can be read with (get x "field") instead of one regex per field.
+ * Parsers return null for input they cannot parse, so filters drop it.
+ */
+
+/**
+ * Parse a JSON string. Returns null for invalid JSON.
+ */
+export function parseJsonValue(input: string): unknown {
+  const trimmed = input.trim();
+  if (trimmed === "") return null;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a JSON Lines document into an array of values.
+ * Blank lines are ignored; lines that are not valid JSON are counted
+ * in `invalid` and left out.
+ */
+export function parseJsonLines(content: string): { items: unknown[]; invalid: number } {
+  const items: unknown[] = [];
+  let invalid = 0;
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === "") continue;
+    try {
+      items.push(JSON.parse(trimmed));
+    } catch {
+      invalid++;
+    }
+  }
+  return { items, invalid };
+}
+
+/**
+ * Parse key=value pairs ("level=error user=\"a b\" took=12ms").
+ * Values stay strings; double-quoted values are unquoted.
+ * Returns null when the input has no pairs.
+ */
+export function parseKeyValue(input: string): Record<string, string> | null {
+  const pairRegex = /([A-Za-z_][\w.\-]*)=("(?:[^"\\]|\\.)*"|\S*)/g;
+  const record: Record<string, string> = {};
+  let found = false;
+  let match;
+
+  while ((match = pairRegex.exec(input)) !== null) {
+    let value = match[2];
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+    record[match[1]] = value;
+    found = true;
+  }
+
+  return found ? record : null;
+}
+
+/**
+ * Split one CSV row into fields. Handles quoted fields and "" escapes.
+ */
+export function parseCsvRow(input: string, delimiter: string = ","): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.replace(/\r$/, ""));
+
+  return fields;
+}
+
+/**
+ * Zip CSV fields with column names into a record
+ */
+export function zipColumns(columns: string[], fields: string[]): Record<string, string | null> {
+  const record: Record<string, string | null> = {};
+  columns.forEach((col, i) => {
+    record[col] = fields[i] ?? null;
+  });
+  return record;
+}
+
+/**
+ * Read a field from a record. Dotted paths ("user.id", "items.0.price")
+ * descend into nested objects and arrays. Missing fields give null.
+ */
+export function getField(value: unknown, field: string | number): unknown {
+  const path = typeof field === "number" ? [String(field)] : field.split(".");
+  let current: unknown = value;
+
+  for (const segment of path) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return null;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return null;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current === undefined ? null : current;
+}
+
+/**
+ * Split a CSV/TSV document into column names and rows.
+ * The first non-empty line is the header unless one of its fields is a
+ * number, in which case columns are named col1, col2, ... Empty and
+ * duplicate header names (compared case-insensitively, and including the
+ * reserved name _row) are made unique. Quoted fields spanning
+ * several lines are not supported.
+ */
+export function parseDelimitedTable(
+  content: string,
+  delimiter: string = ","
+): { columns: string[]; rows: string[][] } {
+  const lines = content.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) return { columns: [], rows: [] };
+
+  const first = parseCsvRow(lines[0], delimiter);
+  const hasHeader = !first.some((field) => field.trim() !== "" && !isNaN(Number(field.trim())));
+  const rows = (hasHeader ? lines.slice(1) : lines).map((line) => parseCsvRow(line, delimiter));
+  // A loop, not Math.max(...rows): spreading 200k+ rows overflows the call stack
+  let width = first.length;
+  for (const row of rows) {
+    if (row.length > width) width = row.length;
+  }
+
+  // SQLite column names are case-insensitive, and _row is the table's key column
+  const taken = new Set<string>(["_row"]);
+  const columns: string[] = [];
+  for (let i = 0; i < width; i++) {
+    let name = hasHeader ? (first[i] ?? "").trim() : "";
+    if (name === "") name = `col${i + 1}`;
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      unique = `${name}_${n}`;
+    }
+    taken.add(unique.toLowerCase());
+    columns.push(unique);
+  }
+
+  return { columns, rows };
+}
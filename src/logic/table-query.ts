@@ -0,0 +1,122 @@
+/**
+ * Tabular query compilation for Nucleus
+ *
+ * Compiles (where PRED) predicates over CSV/TSV columns into
+ * parameterized SQL for the table stored in SessionDB. Column names are
+ * written as string literals on the left of a comparison:
+ *
+ *   (where (> "amount" 1000))
+ *   (where (and (= "region" "west") (contains "product" "pro")))
+ */
+
+import type { LCTerm, CompareOp } from "./types.js";
+import type { TableColumn, SqlCondition } from "../persistence/session-db.js";
+
+const SQL_COMPARE: Record<CompareOp, string> = {
+  ">": ">",
+  "<": "<",
+  ">=": ">=",
+  "<=": "<=",
+  "=": "=",
+};
+
+/**
+ * Compile a where predicate to a SQL condition.
+ * Throws for unknown columns and unsupported predicate forms.
+ */
+export function compileWhere(term: LCTerm, columns: TableColumn[]): SqlCondition {
+  switch (term.tag) {
+    case "and":
+    case "or": {
+      const parts = term.terms.map((t) => compileWhere(t, columns));
+      const joiner = term.tag === "and" ? " AND " : " OR ";
+      return {
+        sql: `(${parts.map((p) => p.sql).join(joiner)})`,
+        params: parts.flatMap((p) => p.params),
+      };
+    }
+
+    case "not": {
+      const inner = compileWhere(term.term, columns);
+      return { sql: `NOT ${inner.sql}`, params: inner.params };
+    }
+
+    case "compare": {
+      const column = columnRef(term.left, columns, term.op);
+      const value = literalValue(term.right, term.op);
+      return {
+        sql: `(${quoteColumn(column.name)} ${SQL_COMPARE[term.op]} ?)`,
+        params: [coerceParam(value, column)],
+      };
+    }
+
+    case "contains":
+    case "starts_with":
+    case "ends_with": {
+      const column = columnRef(term.str, columns, term.tag);
+      const value = literalValue(term.sub, term.tag);
+      const escaped = escapeLike(String(value));
+      const pattern =
+        term.tag === "contains" ? `%${escaped}%` : term.tag === "starts_with" ? `${escaped}%` : `%${escaped}`;
+      // LIKE is case-insensitive for ASCII, matching the in-memory string tests
+      return {
+        sql: `(CAST(${quoteColumn(column.name)} AS TEXT) LIKE ? ESCAPE '\\')`,
+        params: [pattern],
+      };
+    }
+
+    case "lit":
+      if (typeof term.value === "boolean") {
+        return { sql: term.value ? "1" : "0", params: [] };
+      }
+      throw new Error(`where: unsupported literal predicate ${JSON.stringify(term.value)}`);
+
+    default:
+      throw new Error(
+        `where: unsupported predicate (${term.tag}). Use comparisons, contains/starts_with/ends_with, and/or/not`
+      );
+  }
+}
+
+/**
+ * Find a column by name, ignoring case like SQLite does, with an error
+ * listing the available columns
+ */
+export function findColumn(name: string, columns: TableColumn[]): TableColumn {
+  const lower = name.toLowerCase();
+  const column = columns.find((c) => c.name.toLowerCase() === lower);
+  if (!column) {
+    const names = columns.map((c) => c.name).join(", ");
+    throw new Error(`Unknown column "${name}" (columns: ${names})`);
+  }
+  return column;
+}
+
+function columnRef(term: LCTerm, columns: TableColumn[], op: string): TableColumn {
+  if (term.tag !== "lit" || typeof term.value !== "string") {
+    throw new Error(`where: (${op} ...) must name a column as a string, e.g. (${op} "amount" 100)`);
+  }
+  return findColumn(term.value, columns);
+}
+
+function literalValue(term: LCTerm, op: string): string | number | boolean {
+  if (term.tag === "lit") return term.value;
+  throw new Error(`where: (${op} ...) compares a column with a literal value`);
+}
+
+function coerceParam(value: string | number | boolean, column: TableColumn): string | number {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (column.type !== "TEXT" && typeof value === "string") {
+    const num = Number(value);
+    return isNaN(num) ? value : num;
+  }
+  return value;
+}
+
+function quoteColumn(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
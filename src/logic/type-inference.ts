@@ -65,11 +65,100 @@ function infer(term: LCTerm, env: TypeEnv): LCType {
       return { tag: "array", element: { tag: "any" } };
     }
 
+    case "sort":
+    case "take":
+    case "drop":
+    case "top_k": {
+      // Reordering and slicing keep the element type
+      const collType = infer(term.collection, env);
+      if (collType.tag === "array") {
+        return collType;
+      }
+      return { tag: "array", element: { tag: "any" } };
+    }
+
+    case "group_by":
+    case "frequencies":
+    case "group_sum":
+      // Grouping returns an array of {key, count, ...} records
+      return { tag: "array", element: { tag: "any" } };
+
+    case "sum":
+    case "count":
+    case "min":
+    case "max":
+    case "avg":
+    case "median":
+    case "stddev":
+    case "percentile": {
+      // Aggregates need a collection and return a number; statistics
+      // return null when no item has a number (sum is 0, count is 0)
+      const collType = infer(term.collection, env);
+      if (collType.tag !== "array" && collType.tag !== "any") {
+        throw new Error(`${term.tag} expects an array, got ${typeToString(collType)}`);
+      }
+      return term.tag === "sum" || term.tag === "count"
+        ? { tag: "number" }
+        : { tag: "number", nullable: true };
+    }
+
     case "map": {
       // map returns array, element type depends on transform
+      if (term.transform.tag === "lambda") {
+        const bodyEnv = new Map(env);
+        bodyEnv.set(term.transform.param, { tag: "any" });
+        return { tag: "array", element: infer(term.transform.body, bodyEnv) };
+      }
       return { tag: "array", element: { tag: "any" } };
     }
 
+    case "parse_json":
+    case "parse_kv":
+      infer(term.str, env);
+      return { tag: "record" };
+
+    case "parse_csv_row":
+      infer(term.str, env);
+      return term.columns
+        ? { tag: "record", fields: term.columns }
+        : { tag: "array", element: { tag: "string" } };
+
+    case "get": {
+      const objType = infer(term.obj, env);
+      if (
+        objType.tag === "string" ||
+        objType.tag === "number" ||
+        objType.tag === "boolean" ||
+        objType.tag === "date"
+      ) {
+        throw new Error(`get expects a record, got ${typeToString(objType)}`);
+      }
+      if (objType.tag === "record" && objType.fields && typeof term.field === "string") {
+        const top = term.field.split(".")[0];
+        if (!objType.fields.includes(top)) {
+          throw new Error(`get: unknown field "${top}" (fields: ${objType.fields.join(", ")})`);
+        }
+      }
+      return { tag: "any" };
+    }
+
+    case "jpath":
+      // jpath returns array of {path, value}
+      return { tag: "array", element: { tag: "any" } };
+
+    case "where":
+      // where returns table rows; columns are only known at runtime
+      return { tag: "array", element: { tag: "record" } };
+
+    case "column":
+      if (term.source) {
+        const sourceType = infer(term.source, env);
+        if (sourceType.tag !== "array" && sourceType.tag !== "any") {
+          throw new Error(`column expects an array of records, got ${typeToString(sourceType)}`);
+        }
+      }
+      return { tag: "array", element: { tag: "any" } };
+
     case "add":
       // add returns number
       return { tag: "number" };
@@ -103,6 +192,27 @@ function infer(term: LCTerm, env: TypeEnv): LCType {
       return { tag: "any" };
     }
 
+    case "and":
+    case "or":
+      for (const t of term.terms) infer(t, env);
+      return { tag: "boolean" };
+
+    case "not":
+      infer(term.term, env);
+      return { tag: "boolean" };
+
+    case "compare":
+      infer(term.left, env);
+      infer(term.right, env);
+      return { tag: "boolean" };
+
+    case "contains":
+    case "starts_with":
+    case "ends_with":
+      infer(term.str, env);
+      infer(term.sub, env);
+      return { tag: "boolean" };
+
     case "classify":
       // Classify returns a classifier function
       // Classifier: string -> boolean | string | number
@@ -177,6 +287,36 @@ function infer(term: LCTerm, env: TypeEnv): LCType {
       // lines returns array of strings
       return { tag: "array", element: { tag: "string" } };
 
+    case "records":
+      // records returns array of {text, startLine, endLine}
+      return { tag: "array", element: { tag: "any" } };
+
+    case "context":
+      // context returns array of {text, startLine, endLine, lineNum, anchors}
+      return { tag: "array", element: { tag: "any" } };
+
+    case "let": {
+      // Bindings are sequential: each one sees the ones before it
+      const newEnv = new Map(env);
+      for (const binding of term.bindings) {
+        newEnv.set(binding.name, infer(binding.value, newEnv));
+      }
+      return infer(term.body, newEnv);
+    }
+
+    case "do": {
+      // Array results rebind RESULTS for the following terms
+      const newEnv = new Map(env);
+      let lastType: LCType = { tag: "void" };
+      for (const t of term.terms) {
+        lastType = infer(t, newEnv);
+        if (lastType.tag === "array") {
+          newEnv.set("RESULTS", lastType);
+        }
+      }
+      return lastType;
+    }
+
     default:
       // Unknown terms return any
       return { tag: "any" };
@@ -190,6 +330,9 @@ function typesEqual(a: LCType, b: LCType): boolean {
   if (a.tag !== b.tag) return false;
 
   switch (a.tag) {
+    case "number":
+      return b.tag === "number" && !a.nullable === !b.nullable;
+
     case "array":
       return b.tag === "array" && typesEqual(a.element, b.element);
 
@@ -200,6 +343,12 @@ function typesEqual(a: LCType, b: LCType): boolean {
         typesEqual(a.result, b.result)
       );
 
+    case "record":
+      return (
+        b.tag === "record" &&
+        (a.fields ?? []).join(",") === (b.fields ?? []).join(",")
+      );
+
     default:
       return true;
   }
@@ -240,13 +389,15 @@ export function typeToString(type: LCType): string {
     case "string":
       return "string";
     case "number":
-      return "number";
+      return type.nullable ? "number | null" : "number";
     case "boolean":
       return "boolean";
     case "array":
       return `${typeToString(type.element)}[]`;
     case "function":
       return `(${typeToString(type.param)} -> ${typeToString(type.result)})`;
+    case "record":
+      return type.fields ? `{${type.fields.join(", ")}}` : "record";
     case "any":
       return "any";
     case "void":
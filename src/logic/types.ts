@@ -22,11 +22,15 @@ export type LCTerm =
   | LCFuzzySearch
   | LCTextStats
   | LCLines
+  | LCRecords
+  | LCContext
   | LCFilter
   | LCMap
   | LCReduce
   | LCSum
   | LCCount
+  | LCStat
+  | LCPercentile
   | LCMatch
   | LCReplace
   | LCSplit
@@ -50,7 +54,28 @@ export type LCTerm =
   | LCPredicate
   | LCListSymbols
   | LCGetSymbolBody
-  | LCFindReferences;
+  | LCFindReferences
+  | LCLet
+  | LCDo
+  | LCSort
+  | LCTake
+  | LCDrop
+  | LCTopK
+  | LCGroupBy
+  | LCFrequencies
+  | LCGroupSum
+  | LCAnd
+  | LCOr
+  | LCNot
+  | LCCompare
+  | LCStringTest
+  | LCParseJson
+  | LCParseKv
+  | LCParseCsvRow
+  | LCGet
+  | LCWhere
+  | LCColumn
+  | LCJPath;
 
 /**
  * (input) - reference to the current input string
@@ -73,6 +98,8 @@ export interface LCLit {
 export interface LCGrep {
   tag: "grep";
   pattern: string;
+  /** With :context n, return merged windows of n lines around each match */
+  context?: number;
 }
 
 /**
@@ -101,6 +128,26 @@ export interface LCLines {
   end: number;
 }
 
+/**
+ * (records <start-pattern>) - split document into multi-line records
+ * A new record begins at each line matching the pattern.
+ * Returns array of {text, startLine, endLine}
+ */
+export interface LCRecords {
+  tag: "records";
+  pattern: string;
+}
+
+/**
+ * (context <collection> <n>) - n lines of surrounding context per result
+ * Overlapping windows merge; returns array of {text, startLine, endLine, lineNum, anchors}
+ */
+export interface LCContext {
+  tag: "context";
+  collection: LCTerm;
+  n: number;
+}
+
 /**
  * (filter <collection> <predicate>) - filter array by predicate
  */
@@ -146,6 +193,155 @@ export interface LCCount {
   collection: LCTerm;
 }
 
+/**
+ * Aggregates that take only a collection
+ */
+export type StatOp = "min" | "max" | "avg" | "median" | "stddev";
+
+/**
+ * (min|max|avg|median|stddev <collection>) - statistical aggregate
+ * Numbers are extracted like sum; empty collections give null
+ */
+export interface LCStat {
+  tag: StatOp;
+  collection: LCTerm;
+}
+
+/**
+ * (percentile <collection> <p>) - p-th percentile (0-100), interpolated
+ */
+export interface LCPercentile {
+  tag: "percentile";
+  collection: LCTerm;
+  p: number;
+}
+
+/**
+ * Sort direction for ordering operations
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * (sort <collection> [key-fn] ["asc"|"desc"]) - order items
+ * Without a key function items are compared by their line/value
+ */
+export interface LCSort {
+  tag: "sort";
+  collection: LCTerm;
+  key?: LCTerm;
+  direction: SortDirection;
+}
+
+/**
+ * (take <collection> <n>) - first n items
+ */
+export interface LCTake {
+  tag: "take";
+  collection: LCTerm;
+  n: number;
+}
+
+/**
+ * (drop <collection> <n>) - all items after the first n
+ */
+export interface LCDrop {
+  tag: "drop";
+  collection: LCTerm;
+  n: number;
+}
+
+/**
+ * (top_k <collection> <k> [key-fn]) - k items with the largest keys
+ * Shorthand for (take (sort <collection> <key-fn> "desc") <k>)
+ */
+export interface LCTopK {
+  tag: "top_k";
+  collection: LCTerm;
+  k: number;
+  key?: LCTerm;
+}
+
+/**
+ * (group_by <collection> <key-fn>) - partition items by key
+ * Returns one {key, count, items} record per distinct key, in first-seen order
+ */
+export interface LCGroupBy {
+  tag: "group_by";
+  collection: LCTerm;
+  key: LCTerm;
+}
+
+/**
+ * (frequencies <collection> [key-fn]) - count items per key
+ * Returns {key, count} records, most frequent first
+ */
+export interface LCFrequencies {
+  tag: "frequencies";
+  collection: LCTerm;
+  key?: LCTerm;
+}
+
+/**
+ * (group_sum <collection> <key-fn> <value-fn>) - sum a value per key
+ * Returns {key, count, sum} records, largest sum first
+ */
+export interface LCGroupSum {
+  tag: "group_sum";
+  collection: LCTerm;
+  key: LCTerm;
+  value: LCTerm;
+}
+
+/**
+ * (and <term> <term> ...) - true if every term is truthy (short-circuits)
+ */
+export interface LCAnd {
+  tag: "and";
+  terms: LCTerm[];
+}
+
+/**
+ * (or <term> <term> ...) - true if any term is truthy (short-circuits)
+ */
+export interface LCOr {
+  tag: "or";
+  terms: LCTerm[];
+}
+
+/**
+ * (not <term>) - logical negation
+ */
+export interface LCNot {
+  tag: "not";
+  term: LCTerm;
+}
+
+/**
+ * Comparison operators
+ */
+export type CompareOp = ">" | "<" | ">=" | "<=" | "=";
+
+/**
+ * (> a b), (< a b), (>= a b), (<= a b), (= a b) - comparison
+ * Numbers and numeric strings compare numerically, everything else as strings
+ */
+export interface LCCompare {
+  tag: "compare";
+  op: CompareOp;
+  left: LCTerm;
+  right: LCTerm;
+}
+
+/**
+ * (contains <str> <sub>), (starts_with <str> <prefix>), (ends_with <str> <suffix>)
+ * Case-insensitive like grep and match
+ */
+export interface LCStringTest {
+  tag: "contains" | "starts_with" | "ends_with";
+  str: LCTerm;
+  sub: LCTerm;
+}
+
 /**
  * (add <left> <right>) - arithmetic addition
  */
@@ -201,6 +397,69 @@ export interface LCParseFloat {
   str: LCTerm;
 }
 
+/**
+ * (parse_json <str>) - parse a JSON line into a record (null if invalid)
+ */
+export interface LCParseJson {
+  tag: "parse_json";
+  str: LCTerm;
+}
+
+/**
+ * (parse_kv <str>) - parse key=value pairs into a record of strings
+ */
+export interface LCParseKv {
+  tag: "parse_kv";
+  str: LCTerm;
+}
+
+/**
+ * (parse_csv_row <str> ["col1,col2,..."]) - split a CSV row
+ * Returns an array of fields, or a record when column names are given
+ */
+export interface LCParseCsvRow {
+  tag: "parse_csv_row";
+  str: LCTerm;
+  columns?: string[];
+}
+
+/**
+ * (get <record> "field") - read a field; dotted paths and array indexes allowed
+ */
+export interface LCGet {
+  tag: "get";
+  obj: LCTerm;
+  field: string | number;
+}
+
+/**
+ * (where <predicate>) - rows of the loaded CSV/TSV table matching a predicate
+ * Columns are named as strings: (where (> "amount" 1000)). Runs as SQL.
+ */
+export interface LCWhere {
+  tag: "where";
+  predicate: LCTerm;
+}
+
+/**
+ * (jpath "$.items[*].price") - query a JSON/JSONL document
+ * Returns {path, value} matches; filters and aggregates use the values
+ */
+export interface LCJPath {
+  tag: "jpath";
+  path: string;
+}
+
+/**
+ * (column [<collection>] "name") - values of one table column
+ * Without a collection, reads every row of the loaded table
+ */
+export interface LCColumn {
+  tag: "column";
+  name: string;
+  source?: LCTerm;
+}
+
 /**
  * (parseDate <term> [format]) - parse string as date
  * Format hints: "ISO", "US", "EU", "auto" (default)
@@ -393,6 +652,26 @@ export interface LCFindReferences {
   name: string;
 }
 
+/**
+ * (let ((<name> <term>) ...) <body>...) - local bindings
+ * Bindings are evaluated in order, so later bindings can refer to earlier ones.
+ * Multiple body terms are evaluated as an implicit (do ...)
+ */
+export interface LCLet {
+  tag: "let";
+  bindings: Array<{ name: string; value: LCTerm }>;
+  body: LCTerm;
+}
+
+/**
+ * (do <term> <term> ...) - evaluate terms in sequence, return the last value
+ * Array results rebind RESULTS for the following terms, like separate turns do
+ */
+export interface LCDo {
+  tag: "do";
+  terms: LCTerm[];
+}
+
 /**
  * Parse result
  */
@@ -408,11 +687,12 @@ export interface ParseResult {
  */
 export type LCType =
   | { tag: "string" }
-  | { tag: "number" }
+  | { tag: "number"; nullable?: boolean } // nullable: null for an empty collection
   | { tag: "boolean" }
   | { tag: "date" }
   | { tag: "array"; element: LCType }
   | { tag: "function"; param: LCType; result: LCType }
+  | { tag: "record"; fields?: string[] } // fields known only when statically visible
   | { tag: "any" }
   | { tag: "void" };
 
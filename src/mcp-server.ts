@@ -18,8 +18,8 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { runRLM } from "./rlm.js";
 import { loadConfig } from "./config.js";
-import { createLLMClient } from "./llm/index.js";
-import type { LLMQueryFn } from "./llm/types.js";
+import { createLLMClient, createLLMChatClient } from "./llm/index.js";
+import type { LLMQueryFn, LLMChatFn } from "./llm/types.js";
 import { NucleusEngine } from "./engine/nucleus-engine.js";
 import { getVersion } from "./version.js";
 
@@ -37,6 +37,7 @@ export type MCPToolResult = CallToolResult;
 
 export interface MCPServerOptions {
   llmClient?: LLMQueryFn;
+  llmChat?: LLMChatFn;
   onRunRLM?: (opts: { maxTurns?: number }) => void;
 }
 
@@ -122,6 +123,7 @@ const NUCLEUS_COMMANDS_TOOL: MCPTool = {
  */
 export function createMCPServer(options: MCPServerOptions = {}): MCPServerInstance {
   let llmClient: LLMQueryFn | undefined = options.llmClient;
+  let llmChat: LLMChatFn | undefined = options.llmChat;
 
   // Session-based engine cache for stateful Nucleus execution
   const engineSessions = new Map<string, NucleusEngine>();
@@ -140,6 +142,7 @@ export function createMCPServer(options: MCPServerOptions = {}): MCPServerInstan
     }
 
     llmClient = createLLMClient(providerName, providerConfig);
+    llmChat = createLLMChatClient(providerName, providerConfig) ?? undefined;
     return llmClient;
   };
 
@@ -261,6 +264,7 @@ export function createMCPServer(options: MCPServerOptions = {}): MCPServerInstan
           const client = await ensureLLMClient();
           const result = await runRLM(query, filePath, {
             llmClient: client,
+            llmChat,
             maxTurns: maxTurns || 10,
             turnTimeoutMs: timeoutMs || 30000,
           });
@@ -3,10 +3,19 @@
  *
  * Enables:
  * - Saving session state at any turn
- * - Restoring to previous turn
+ * - Restoring to previous turn (undo), or to a named checkpoint
  * - Session resume across runs (with sessionId)
+ *
+ * A checkpoint records the live handles, the RESULTS handle and the
+ * engine variables of its turn. Restoring one deletes handles created
+ * after it and discards later checkpoints, so new queries branch from
+ * the restored state.
+ *
+ * Persistent sessions keep their SessionDB in `<sessionDir>/<sessionId>.db`.
  */
 
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
 import type { SessionDB } from "./session-db.js";
 import type { HandleRegistry } from "./handle-registry.js";
 
@@ -14,24 +23,81 @@ export interface CheckpointMetadata {
   turn: number;
   timestamp: number;
   handleCount: number;
+  /** Name given with lattice_checkpoint, if any */
+  label: string | null;
 }
 
+/**
+ * Engine variables saved with a checkpoint, by binding name (_1, _fn_x, ...).
+ * Values are handles ("$res3") for arrays, JSON for scalars, and the
+ * defining command for synthesized functions (_fn_<name>).
+ */
+export type CheckpointVariables = Map<string, string>;
+
+const HANDLE_PATTERN = /^\$res\d+$/;
+
+let lastSessionTime = 0;
+
 export class CheckpointManager {
   private db: SessionDB;
   private registry: HandleRegistry;
   private sessionId: string;
   private autoCheckpointEnabled: boolean = false;
 
-  constructor(db: SessionDB, registry: HandleRegistry) {
+  constructor(db: SessionDB, registry: HandleRegistry, sessionId?: string) {
     this.db = db;
     this.registry = registry;
-    this.sessionId = `session-${Date.now()}`;
+    this.sessionId = sessionId ?? CheckpointManager.createSessionId();
+  }
+
+  /**
+   * Generate a new session ID (unique within the process, since IDs
+   * name database files)
+   */
+  static createSessionId(): string {
+    lastSessionTime = Math.max(Date.now(), lastSessionTime + 1);
+    return `session-${lastSessionTime}`;
+  }
+
+  /**
+   * Check whether a session ID can name a database file
+   */
+  static isValidSessionId(sessionId: string): boolean {
+    return /^[\w.-]+$/.test(sessionId) && !sessionId.startsWith(".");
+  }
+
+  /**
+   * Database file for a session ID inside a session directory
+   */
+  static sessionPath(sessionDir: string, sessionId: string): string {
+    if (!CheckpointManager.isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return join(sessionDir, `${sessionId}.db`);
+  }
+
+  /**
+   * Check whether a session was saved in a session directory
+   */
+  static hasSession(sessionDir: string, sessionId: string): boolean {
+    return existsSync(CheckpointManager.sessionPath(sessionDir, sessionId));
+  }
+
+  /**
+   * List session IDs saved in a session directory
+   */
+  static listSessions(sessionDir: string): string[] {
+    if (!existsSync(sessionDir)) return [];
+    return readdirSync(sessionDir)
+      .filter((f) => f.endsWith(".db"))
+      .map((f) => f.slice(0, -".db".length))
+      .sort();
   }
 
   /**
    * Save checkpoint at current turn
    */
-  save(turn: number): void {
+  save(turn: number, variables: CheckpointVariables = new Map(), label?: string): void {
     // Collect all handle references
     const handles = this.registry.listHandles();
     const resultsHandle = this.registry.getResults();
@@ -44,26 +110,65 @@ export class CheckpointManager {
     if (resultsHandle) {
       bindings.set("RESULTS", resultsHandle);
     }
+    for (const [name, value] of variables) {
+      bindings.set(name, value);
+    }
 
-    this.db.saveCheckpoint(turn, bindings);
+    this.db.saveCheckpoint(turn, bindings, label);
   }
 
   /**
    * Restore checkpoint for a turn
+   *
+   * Handles created after the checkpoint are deleted and later
+   * checkpoints are discarded.
    */
   restore(turn: number): boolean {
     const bindings = this.db.getCheckpoint(turn);
     if (!bindings) return false;
 
+    // Restore the handle set
+    for (const handle of this.registry.listHandles()) {
+      if (!bindings.has(handle)) {
+        this.registry.delete(handle);
+      }
+    }
+    this.db.deleteCheckpointsAfter(turn);
+
     // Restore RESULTS binding
     const resultsHandle = bindings.get("RESULTS");
     if (resultsHandle) {
       this.registry.setResults(resultsHandle);
+    } else {
+      this.registry.clearResults();
     }
 
     return true;
   }
 
+  /**
+   * Engine variables saved with a checkpoint
+   */
+  getVariables(turn: number): CheckpointVariables | null {
+    const bindings = this.db.getCheckpoint(turn);
+    if (!bindings) return null;
+
+    const variables: CheckpointVariables = new Map();
+    for (const [name, value] of bindings) {
+      if (name !== "RESULTS" && !HANDLE_PATTERN.test(name)) {
+        variables.set(name, value);
+      }
+    }
+    return variables;
+  }
+
+  /**
+   * Find the turn of a named checkpoint
+   */
+  findByLabel(label: string): number | null {
+    return this.db.findCheckpoint(label);
+  }
+
   /**
    * List all checkpoint turns
    */
@@ -104,20 +209,29 @@ export class CheckpointManager {
    */
   getMetadata(turn: number): CheckpointMetadata | null {
     const bindings = this.db.getCheckpoint(turn);
-    if (!bindings) return null;
+    const info = this.db.getCheckpointInfo(turn);
+    if (!bindings || !info) return null;
 
     // Count handles in bindings
-    const handleCount = Array.from(bindings.values()).filter(v =>
-      typeof v === "string" && v.startsWith("$res")
-    ).length;
+    const handleCount = Array.from(bindings.keys()).filter((k) => HANDLE_PATTERN.test(k)).length;
 
     return {
       turn,
-      timestamp: Date.now(),  // Ideally stored with checkpoint
+      timestamp: info.timestamp,
       handleCount,
+      label: info.label,
     };
   }
 
+  /**
+   * Get metadata for every checkpoint, oldest first
+   */
+  list(): CheckpointMetadata[] {
+    return this.listTurns()
+      .map((turn) => this.getMetadata(turn))
+      .filter((meta): meta is CheckpointMetadata => meta !== null);
+  }
+
   /**
    * Enable/disable auto-checkpoint on each operation
    */
@@ -128,9 +242,9 @@ export class CheckpointManager {
   /**
    * Called by operations to trigger auto-checkpoint
    */
-  onOperation(turn: number): void {
+  onOperation(turn: number, variables?: CheckpointVariables): void {
     if (this.autoCheckpointEnabled) {
-      this.save(turn);
+      this.save(turn, variables);
     }
   }
 }
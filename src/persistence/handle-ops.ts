@@ -8,6 +8,8 @@
 import type { SessionDB } from "./session-db.js";
 import type { HandleRegistry } from "./handle-registry.js";
 import { PredicateCompiler } from "./predicate-compiler.js";
+import { extractNumber, computeStat, computePercentile } from "../logic/statistics.js";
+import type { StatOp } from "../logic/types.js";
 
 export interface DescribeResult {
   count: number;
@@ -82,6 +84,44 @@ export class HandleOps {
     }, 0);
   }
 
+  /**
+   * Compute min/max/avg/median/stddev over a handle.
+   * With a field, numbers come from that field; otherwise from the item
+   * itself (numbers, "$1,000" strings, or the first number on a line; map
+   * grep results to the wanted value first when lines carry timestamps).
+   * Returns null when no item has a number.
+   */
+  aggregate(handle: string, op: StatOp, field?: string): number | null {
+    return computeStat(op, this.numbers(handle, field));
+  }
+
+  /**
+   * Compute the p-th percentile (0-100) over a handle
+   */
+  percentile(handle: string, p: number, field?: string): number | null {
+    return computePercentile(this.numbers(handle, field), p);
+  }
+
+  /**
+   * Extract numbers from handle items, optionally from a field
+   */
+  private numbers(handle: string, field?: string): number[] {
+    const data = this.registry.get(handle);
+    if (data === null) {
+      throw new Error(`Invalid handle: ${handle}`);
+    }
+
+    const nums: number[] = [];
+    for (const item of data) {
+      const value = field !== undefined && typeof item === "object" && item !== null
+        ? (item as Record<string, unknown>)[field]
+        : item;
+      const num = extractNumber(value);
+      if (num !== null) nums.push(num);
+    }
+    return nums;
+  }
+
   /**
    * Filter items by predicate, return new handle
    */
@@ -6,6 +6,7 @@
  */
 
 import type { SessionDB } from "./session-db.js";
+import { isPathMatch } from "../logic/json-path.js";
 
 export interface HandleStub {
   handle: string;
@@ -47,11 +48,23 @@ export class HandleRegistry {
 
     // Get preview of first few items
     const data = this.db.getHandleData(handle);
+    if (isGroupTable(data)) {
+      return `${handle}: Groups(${meta.count}) [${previewGroups(data)}]`;
+    }
+
     let preview = "";
 
     if (data.length > 0) {
       const firstItem = data[0];
-      if (typeof firstItem === "object" && firstItem !== null) {
+      if (Array.isArray(firstItem)) {
+        // Rows (parse_csv_row without columns): show the first row
+        const row = JSON.stringify(firstItem);
+        preview = row.length > 50 ? row.slice(0, 50) + "..." : row;
+      } else if (isPathMatch(firstItem)) {
+        // jpath matches: show where the first value came from
+        const item = `${firstItem.path} = ${JSON.stringify(firstItem.value) ?? "undefined"}`;
+        preview = item.length > 50 ? item.slice(0, 50) + "..." : item;
+      } else if (typeof firstItem === "object" && firstItem !== null) {
         // For objects, show abbreviated first item
         const obj = firstItem as Record<string, unknown>;
         // Check for common line content fields
@@ -60,8 +73,8 @@ export class HandleRegistry {
           const line = String(lineContent);
           preview = line.length > 50 ? line.slice(0, 50) + "..." : line;
         } else {
-          const keys = Object.keys(obj).slice(0, 3);
-          preview = keys.join(", ");
+          // Records (parse_json, parse_kv, ...): show their field names
+          preview = previewFields(data);
         }
       } else {
         preview = String(firstItem).slice(0, 50);
@@ -89,6 +102,13 @@ export class HandleRegistry {
     this.resultsHandle = handle;
   }
 
+  /**
+   * Unbind RESULTS
+   */
+  clearResults(): void {
+    this.resultsHandle = null;
+  }
+
   /**
    * Get the current RESULTS handle
    */
@@ -144,3 +164,46 @@ export class HandleRegistry {
     return meta?.count ?? 0;
   }
 }
+
+type GroupRow = { key: unknown; count: number; sum?: number };
+
+/**
+ * Detect results of group_by / frequencies / group_sum ({key, count, ...} records)
+ */
+function isGroupTable(data: unknown[]): data is GroupRow[] {
+  const first = data[0];
+  return (
+    typeof first === "object" &&
+    first !== null &&
+    "key" in first &&
+    typeof (first as { count?: unknown }).count === "number"
+  );
+}
+
+/**
+ * Render the first few groups as "key: value" (sum for group_sum, else count)
+ */
+function previewGroups(groups: GroupRow[], max: number = 3): string {
+  const shown = groups.slice(0, max).map((g) => {
+    const key = typeof g.key === "string" ? g.key : JSON.stringify(g.key);
+    const label = key.length > 30 ? key.slice(0, 30) + "..." : key;
+    return `${label}: ${g.sum ?? g.count}`;
+  });
+  return groups.length > max ? `${shown.join(", ")}, ...` : shown.join(", ");
+}
+
+/**
+ * Render field names of record items as "{a, b, c, ...}",
+ * collected from the first few items since records may differ
+ */
+function previewFields(data: unknown[], maxFields: number = 6): string {
+  const fields = new Set<string>();
+  for (const item of data.slice(0, 10)) {
+    if (typeof item === "object" && item !== null && !Array.isArray(item)) {
+      for (const key of Object.keys(item)) fields.add(key);
+    }
+  }
+  const names = [...fields];
+  const shown = names.slice(0, maxFields).join(", ");
+  return names.length > maxFields ? `{${shown}, ...}` : `{${shown}}`;
+}
@@ -6,7 +6,14 @@
  */
 
 export { SessionDB } from "./session-db.js";
-export type { DocumentLine, HandleMetadata } from "./session-db.js";
+export type {
+  DocumentLine,
+  HandleMetadata,
+  CheckpointInfo,
+  TableColumn,
+  SqlCondition,
+  SqlAggregate,
+} from "./session-db.js";
 
 export { HandleRegistry } from "./handle-registry.js";
 export type { HandleStub } from "./handle-registry.js";
@@ -21,4 +28,4 @@ export { FTS5Search } from "./fts5-search.js";
 export type { SearchResult, HighlightResult, SnippetResult, HighlightOptions } from "./fts5-search.js";
 
 export { CheckpointManager } from "./checkpoint.js";
-export type { CheckpointMetadata } from "./checkpoint.js";
+export type { CheckpointMetadata, CheckpointVariables } from "./checkpoint.js";
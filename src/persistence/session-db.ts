@@ -1,5 +1,8 @@
 /**
- * SessionDB - In-memory SQLite database for session state
+ * SessionDB - SQLite database for session state
+ *
+ * In-memory by default; pass a file path to keep the session on disk
+ * so it can be reopened after a restart.
  *
  * Provides:
  * - FTS5 full-text search for document lines
@@ -9,6 +12,8 @@
  */
 
 import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
 import type { Symbol, SymbolKind } from "../treesitter/types.js";
 
 export interface DocumentLine {
@@ -23,14 +28,72 @@ export interface HandleMetadata {
   createdAt: number;
 }
 
+/**
+ * When a checkpoint was saved, and its label if it was named
+ */
+export interface CheckpointInfo {
+  turn: number;
+  timestamp: number;
+  label: string | null;
+}
+
+/**
+ * Column of a loaded CSV/TSV table with its detected SQLite type
+ */
+export interface TableColumn {
+  name: string;
+  type: "INTEGER" | "REAL" | "TEXT";
+}
+
+/**
+ * Parameterized SQL condition over table columns (WHERE clause body)
+ */
+export interface SqlCondition {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Aggregates that SQLite computes directly
+ */
+export type SqlAggregate = "sum" | "avg" | "min" | "max";
+
 export class SessionDB {
   private db: Database.Database | null;
   private handleCounter: number = 0;
+  private tableColumns: TableColumn[] = [];
+  private path: string;
 
-  constructor() {
-    // Create in-memory database
-    this.db = new Database(":memory:");
+  /**
+   * @param path - Database file, or ":memory:" (default). Reopening an
+   *   existing file restores its document, handles and checkpoints.
+   */
+  constructor(path: string = ":memory:") {
+    this.path = path;
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
     this.initSchema();
+    this.restoreState();
+  }
+
+  /**
+   * Pick up counters and table columns from an existing database file
+   */
+  private restoreState(): void {
+    if (!this.db) return;
+
+    const handles = this.db.prepare("SELECT handle FROM handles").all() as Array<{ handle: string }>;
+    for (const { handle } of handles) {
+      const n = parseInt(handle.replace("$res", ""), 10);
+      if (!isNaN(n) && n > this.handleCounter) this.handleCounter = n;
+    }
+
+    const columns = this.db.prepare("PRAGMA table_info(table_rows)").all() as Array<{ name: string; type: string }>;
+    this.tableColumns = columns
+      .filter((c) => c.name !== "_row")
+      .map((c) => ({ name: c.name, type: c.type as TableColumn["type"] }));
   }
 
   private initSchema(): void {
@@ -84,7 +147,8 @@ export class SessionDB {
       CREATE TABLE IF NOT EXISTS checkpoints (
         turn INTEGER PRIMARY KEY,
         bindings TEXT NOT NULL,
-        timestamp INTEGER NOT NULL
+        timestamp INTEGER NOT NULL,
+        label TEXT
       );
 
       -- Symbols table for tree-sitter extracted symbols
@@ -101,10 +165,22 @@ export class SessionDB {
         FOREIGN KEY (parentSymbolId) REFERENCES symbols(id) ON DELETE CASCADE
       );
 
+      -- Session metadata (document path, load time, ...)
+      CREATE TABLE IF NOT EXISTS session_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
       CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
       CREATE INDEX IF NOT EXISTS idx_symbols_kind ON symbols(kind);
       CREATE INDEX IF NOT EXISTS idx_symbols_lines ON symbols(startLine, endLine);
     `);
+
+    // Session files written before checkpoints had labels
+    const checkpointColumns = this.db.prepare("PRAGMA table_info(checkpoints)").all() as Array<{ name: string }>;
+    if (!checkpointColumns.some((c) => c.name === "label")) {
+      this.db.exec("ALTER TABLE checkpoints ADD COLUMN label TEXT");
+    }
   }
 
   /**
@@ -114,6 +190,39 @@ export class SessionDB {
     return this.db !== null;
   }
 
+  /**
+   * Check if the database is stored in a file
+   */
+  isPersistent(): boolean {
+    return this.path !== ":memory:";
+  }
+
+  /**
+   * Get the database file path (":memory:" for in-memory sessions)
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Store a session metadata value
+   */
+  setMeta(key: string, value: string): void {
+    if (!this.db) return;
+    const stmt = this.db.prepare("INSERT OR REPLACE INTO session_meta (key, value) VALUES (?, ?)");
+    stmt.run(key, value);
+  }
+
+  /**
+   * Get a session metadata value
+   */
+  getMeta(key: string): string | null {
+    if (!this.db) return null;
+    const stmt = this.db.prepare("SELECT value FROM session_meta WHERE key = ?");
+    const row = stmt.get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
   /**
    * Get list of tables in database
    */
@@ -183,6 +292,16 @@ export class SessionDB {
     return stmt.all(start, end) as DocumentLine[];
   }
 
+  /**
+   * Rebuild the document text from its stored lines
+   */
+  getDocumentContent(): string {
+    if (!this.db) return "";
+    const stmt = this.db.prepare("SELECT content FROM document_lines ORDER BY lineNum");
+    const rows = stmt.all() as Array<{ content: string }>;
+    return rows.map((r) => r.content).join("\n");
+  }
+
   /**
    * Get total line count
    */
@@ -286,16 +405,27 @@ export class SessionDB {
   }
 
   /**
-   * Save a checkpoint
+   * Save a checkpoint. A label names it; saving again without a label
+   * keeps the existing one.
    */
-  saveCheckpoint(turn: number, bindings: Map<string, string>): void {
+  saveCheckpoint(turn: number, bindings: Map<string, string>, label?: string): void {
     if (!this.db) return;
     const bindingsJson = JSON.stringify(Object.fromEntries(bindings));
-    const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO checkpoints (turn, bindings, timestamp)
-      VALUES (?, ?, ?)
-    `);
-    stmt.run(turn, bindingsJson, Date.now());
+    const save = this.db.transaction(() => {
+      if (label !== undefined) {
+        // Labels are unique: move the label to this checkpoint
+        this.db!.prepare("UPDATE checkpoints SET label = NULL WHERE label = ?").run(label);
+      }
+      this.db!.prepare(`
+        INSERT INTO checkpoints (turn, bindings, timestamp, label)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(turn) DO UPDATE SET
+          bindings = excluded.bindings,
+          timestamp = excluded.timestamp,
+          label = COALESCE(excluded.label, checkpoints.label)
+      `).run(turn, bindingsJson, Date.now(), label ?? null);
+    });
+    save();
   }
 
   /**
@@ -310,6 +440,26 @@ export class SessionDB {
     return new Map(Object.entries(obj));
   }
 
+  /**
+   * Get when a checkpoint was saved and its label
+   */
+  getCheckpointInfo(turn: number): CheckpointInfo | null {
+    if (!this.db) return null;
+    const stmt = this.db.prepare("SELECT turn, timestamp, label FROM checkpoints WHERE turn = ?");
+    const row = stmt.get(turn) as CheckpointInfo | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * Find the turn of a labeled checkpoint
+   */
+  findCheckpoint(label: string): number | null {
+    if (!this.db) return null;
+    const stmt = this.db.prepare("SELECT turn FROM checkpoints WHERE label = ?");
+    const row = stmt.get(label) as { turn: number } | undefined;
+    return row?.turn ?? null;
+  }
+
   /**
    * Get all checkpoint turns
    */
@@ -329,6 +479,15 @@ export class SessionDB {
     stmt.run(turn);
   }
 
+  /**
+   * Delete checkpoints saved after a turn
+   */
+  deleteCheckpointsAfter(turn: number): void {
+    if (!this.db) return;
+    const stmt = this.db.prepare("DELETE FROM checkpoints WHERE turn > ?");
+    stmt.run(turn);
+  }
+
   /**
    * Clear all checkpoints
    */
@@ -337,6 +496,124 @@ export class SessionDB {
     this.db.exec("DELETE FROM checkpoints");
   }
 
+  // ========================================
+  // Table operations (CSV/TSV documents)
+  // ========================================
+
+  /**
+   * Store rows of a tabular document in a typed table.
+   * Column types are detected from the values: INTEGER if every
+   * non-empty value is an integer, REAL if every one is numeric,
+   * otherwise TEXT. Integers beyond Number.MAX_SAFE_INTEGER (e.g. 64-bit
+   * IDs) would lose digits as numbers, so their column is TEXT. Empty
+   * values are stored as NULL.
+   * Column names must be unique case-insensitively and must not be _row
+   * (parseDelimitedTable guarantees both).
+   */
+  loadTable(columnNames: string[], rows: Array<Array<string | null>>): TableColumn[] {
+    if (!this.db) throw new Error("Database not open");
+    this.clearTable();
+
+    const columns: TableColumn[] = columnNames.map((name, i) => ({
+      name,
+      type: detectColumnType(rows.map((row) => row[i] ?? null)),
+    }));
+
+    const columnDefs = columns.map((c) => `${quoteIdent(c.name)} ${c.type}`).join(", ");
+    this.db.exec(`CREATE TABLE table_rows (_row INTEGER PRIMARY KEY, ${columnDefs})`);
+
+    const placeholders = columns.map(() => "?").join(", ");
+    const insert = this.db.prepare(
+      `INSERT INTO table_rows (_row, ${columns.map((c) => quoteIdent(c.name)).join(", ")}) VALUES (?, ${placeholders})`
+    );
+    const insertAll = this.db.transaction((items: Array<Array<string | null>>) => {
+      items.forEach((row, r) => {
+        const values = columns.map((col, i) => toColumnValue(row[i] ?? null, col.type));
+        insert.run(r + 1, ...values);
+      });
+    });
+    insertAll(rows);
+
+    this.tableColumns = columns;
+    return columns;
+  }
+
+  /**
+   * Columns of the loaded table (empty when the document is not tabular)
+   */
+  getTableColumns(): TableColumn[] {
+    return [...this.tableColumns];
+  }
+
+  /**
+   * Drop the loaded table, if any
+   */
+  clearTable(): void {
+    if (!this.db) return;
+    this.db.exec("DROP TABLE IF EXISTS table_rows");
+    this.tableColumns = [];
+  }
+
+  /**
+   * Get table rows as records, optionally filtered
+   */
+  selectRows(where?: SqlCondition): Array<Record<string, unknown>> {
+    if (!this.db) return [];
+    const columns = this.tableColumns.map((c) => quoteIdent(c.name)).join(", ");
+    const stmt = this.db.prepare(
+      `SELECT ${columns} FROM table_rows${whereClause(where)} ORDER BY _row`
+    );
+    return stmt.all(...(where?.params ?? [])) as Array<Record<string, unknown>>;
+  }
+
+  /**
+   * Get all values of one column in row order, optionally filtered
+   */
+  selectColumn(column: string, where?: SqlCondition): unknown[] {
+    if (!this.db) return [];
+    this.requireColumn(column);
+    const stmt = this.db.prepare(
+      `SELECT ${quoteIdent(column)} AS value FROM table_rows${whereClause(where)} ORDER BY _row`
+    );
+    const rows = stmt.all(...(where?.params ?? [])) as Array<{ value: unknown }>;
+    return rows.map((r) => r.value);
+  }
+
+  /**
+   * Count table rows, optionally filtered
+   */
+  countRows(where?: SqlCondition): number {
+    if (!this.db) return 0;
+    const stmt = this.db.prepare(`SELECT COUNT(*) AS count FROM table_rows${whereClause(where)}`);
+    const row = stmt.get(...(where?.params ?? [])) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Compute SUM/AVG/MIN/MAX of a column in SQL.
+   * Returns null (0 for sum) when no row has a value.
+   */
+  aggregateColumn(op: SqlAggregate, column: string, where?: SqlCondition): number | null {
+    if (!this.db) return null;
+    this.requireColumn(column);
+    // TOTAL() is SUM() that returns 0.0 instead of NULL for no rows
+    const fn = op === "sum" ? "TOTAL" : op.toUpperCase();
+    const stmt = this.db.prepare(
+      `SELECT ${fn}(${quoteIdent(column)}) AS value FROM table_rows${whereClause(where)}`
+    );
+    const row = stmt.get(...(where?.params ?? [])) as { value: number | null };
+    return row.value;
+  }
+
+  private requireColumn(column: string): void {
+    // SQLite matches identifiers case-insensitively
+    const lower = column.toLowerCase();
+    if (!this.tableColumns.some((c) => c.name.toLowerCase() === lower)) {
+      const names = this.tableColumns.map((c) => c.name).join(", ");
+      throw new Error(`Unknown column "${column}" (columns: ${names})`);
+    }
+  }
+
   // ========================================
   // Symbol operations
   // ========================================
@@ -447,7 +724,9 @@ export class SessionDB {
       DELETE FROM handles;
       DELETE FROM checkpoints;
       DELETE FROM symbols;
+      DELETE FROM session_meta;
     `);
+    this.clearTable();
     this.handleCounter = 0;
   }
 
@@ -461,3 +740,30 @@ export class SessionDB {
     }
   }
 }
+
+/**
+ * Quote an SQL identifier (column names come from document headers)
+ */
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function whereClause(where?: SqlCondition): string {
+  return where ? ` WHERE ${where.sql}` : "";
+}
+
+function detectColumnType(values: Array<string | null>): TableColumn["type"] {
+  const present = values.filter((v): v is string => v !== null && v.trim() !== "");
+  if (present.length === 0) return "TEXT";
+  if (present.every((v) => /^-?\d+$/.test(v.trim()))) {
+    return present.every((v) => Number.isSafeInteger(Number(v))) ? "INTEGER" : "TEXT";
+  }
+  if (present.every((v) => /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v.trim()))) return "REAL";
+  return "TEXT";
+}
+
+function toColumnValue(value: string | null, type: TableColumn["type"]): string | number | null {
+  if (value === null || value.trim() === "") return null;
+  if (type === "TEXT") return value;
+  return Number(value.trim());
+}
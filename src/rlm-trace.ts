@@ -0,0 +1,45 @@
+/**
+ * JSONL Run Traces
+ *
+ * Writes the events of an RLM run to a file, one JSON object per line,
+ * for debugging and auditing. Each line is written as the event happens,
+ * so a run that crashes still leaves its trace up to that point.
+ *
+ * Lines have an "event" field:
+ *   turn_start    turn, maxTurns, messageCount, estimated tokens
+ *   llm_response  turn, response, durationMs
+ *   term_parsed   turn, term, type
+ *   solve_result  turn, term, success, value, logs, error, durationMs
+ *   feedback      turn, content
+ *   final         the RLMRunResult (answer, terminationReason, turns, terms, durationMs)
+ */
+
+import { appendFileSync, writeFileSync } from "node:fs";
+import type { RLMHooks } from "./rlm.js";
+import { estimateMessageTokens } from "./context-budget.js";
+
+/**
+ * Create hooks that write a JSONL trace to a file (truncating it first)
+ */
+export function createTraceHooks(path: string): Required<RLMHooks> {
+  writeFileSync(path, "");
+
+  const write = (event: string, data: object) => {
+    appendFileSync(path, JSON.stringify({ event, time: new Date().toISOString(), ...data }) + "\n");
+  };
+
+  return {
+    onTurnStart: ({ turn, maxTurns, messages }) =>
+      write("turn_start", {
+        turn,
+        maxTurns,
+        messageCount: messages.length,
+        tokens: estimateMessageTokens(messages),
+      }),
+    onLLMResponse: (event) => write("llm_response", event),
+    onTermParsed: (event) => write("term_parsed", event),
+    onSolveResult: (event) => write("solve_result", event),
+    onFeedback: (event) => write("feedback", event),
+    onFinal: (result) => write("final", result),
+  };
+}
@@ -11,7 +11,9 @@ import { createSandboxWithSynthesis, type SandboxWithSynthesis } from "./synthes
 import { SynthesisCoordinator } from "./synthesis/coordinator.js";
 import { collectExamplesFromResult, extractGrepResults } from "./synthesis/example-collector.js";
 import { createToolRegistry, getToolInterfaces } from "./tools.js";
-import type { LLMQueryFn } from "./llm/types.js";
+import type { LLMQueryFn, LLMChatFn, ChatMessage } from "./llm/types.js";
+import { flattenMessages } from "./llm/messages.js";
+import { ContextBudget, DEFAULT_CONTEXT_BUDGET, estimateMessageTokens } from "./context-budget.js";
 import type { ModelAdapter, FinalVarMarker, RAGHints } from "./adapters/types.js";
 import { createNucleusAdapter } from "./adapters/nucleus.js";
 import type { SynthesisConstraint } from "./constraints/types.js";
@@ -22,6 +24,7 @@ import { parse as parseLC } from "./logic/lc-parser.js";
 import { isClassifyTerm, validateClassifyExamples } from "./logic/lc-compiler.js";
 import { inferType, typeToString } from "./logic/type-inference.js";
 import { solve as solveTerm, type SolverTools, type Bindings } from "./logic/lc-solver.js";
+import { splitRecords } from "./logic/records.js";
 
 /**
  * Create SolverTools from document content
@@ -128,6 +131,8 @@ function createSolverTools(context: string): SolverTools {
     },
 
     text_stats: () => ({ ...textStats }),
+
+    records: (pattern: string) => splitRecords(context, pattern),
   };
 }
 
@@ -306,8 +311,97 @@ Example using YOUR grep output:
 IMPORTANT: Copy the EXACT line strings from above. Do NOT paraphrase or modify them.`;
 }
 
-export interface RLMOptions {
+/** Why a run ended */
+export type RLMTerminationReason =
+  | "final_answer"
+  | "computed_result"
+  | "stuck"
+  | "max_turns"
+  | "empty_response"
+  | "load_error";
+
+/** Outcome of executing one term with the solver */
+export interface RLMSolveRecord {
+  success: boolean;
+  value: unknown;
+  logs: string[];
+  error?: string;
+  durationMs: number;
+}
+
+/** What happened in one turn */
+export interface RLMTurnRecord {
+  turn: number;
+  /** Start time in ms since the epoch */
+  startedAt: number;
+  durationMs: number;
+  /** Number of messages sent to the LLM (after compaction) */
+  messageCount: number;
+  llmMs: number;
+  response: string;
+  /** The term from this turn's response, if it parsed and type-checked */
+  term?: string;
+  solve?: RLMSolveRecord;
+  /** Feedback messages sent back to the model */
+  feedback: string[];
+}
+
+/** Structured result of a run, with its transcript and timings */
+export interface RLMRunResult {
+  answer: unknown;
+  terminationReason: RLMTerminationReason;
+  turns: RLMTurnRecord[];
+  /** Terms that parsed and type-checked, in order */
+  terms: string[];
+  durationMs: number;
+}
+
+export interface RLMTurnStartEvent {
+  turn: number;
+  maxTurns: number;
+  messages: ChatMessage[];
+}
+
+export interface RLMLLMResponseEvent {
+  turn: number;
+  response: string;
+  durationMs: number;
+}
+
+export interface RLMTermParsedEvent {
+  turn: number;
+  term: string;
+  /** Inferred type, if known */
+  type?: string;
+}
+
+export interface RLMSolveResultEvent extends RLMSolveRecord {
+  turn: number;
+  term: string;
+}
+
+export interface RLMFeedbackEvent {
+  turn: number;
+  content: string;
+}
+
+/** Event hooks for observing a run; each is called synchronously as the run progresses */
+export interface RLMHooks {
+  /** Before the LLM is queried, with the messages about to be sent */
+  onTurnStart?: (event: RLMTurnStartEvent) => void;
+  onLLMResponse?: (event: RLMLLMResponseEvent) => void;
+  /** After a term parses and type-checks, before it runs */
+  onTermParsed?: (event: RLMTermParsedEvent) => void;
+  onSolveResult?: (event: RLMSolveResultEvent) => void;
+  /** When feedback (results, errors, hints) is sent back to the model */
+  onFeedback?: (event: RLMFeedbackEvent) => void;
+  onFinal?: (result: RLMRunResult) => void;
+}
+
+export interface RLMOptions extends RLMHooks {
   llmClient: LLMQueryFn;
+  /** Chat client for the main loop; sends history as role messages instead of one flattened prompt */
+  llmChat?: LLMChatFn;
   /** Model adapter for prompt/response handling. Uses base adapter if not specified. */
   adapter?: ModelAdapter;
   maxTurns?: number;
@@ -320,6 +414,8 @@ export interface RLMOptions {
   ragEnabled?: boolean;
   /** Session ID for tracking failures (default: auto-generated) */
   sessionId?: string;
+  /** Token budget for the messages sent each turn; older turns are summarized beyond it (default: 6000) */
+  contextBudget?: number;
 }
 
 /**
@@ -518,14 +614,28 @@ function verifyAndReturnResult(
 
 /**
  * Run the RLM execution loop
+ * @returns The answer, or an error message if the run did not produce one
  */
 export async function runRLM(
   query: string,
   filePath: string,
   options: RLMOptions
 ): Promise<unknown> {
+  const result = await runRLMWithTrace(query, filePath, options);
+  return result.answer;
+}
+
+/**
+ * Run the RLM execution loop, returning the answer with a structured trace
+ */
+export async function runRLMWithTrace(
+  query: string,
+  filePath: string,
+  options: RLMOptions
+): Promise<RLMRunResult> {
   const {
     llmClient,
+    llmChat,
     adapter = createNucleusAdapter(),
     maxTurns = 10,
     turnTimeoutMs = 30000,
@@ -534,12 +644,44 @@ export async function runRLM(
     constraint,
     ragEnabled = true,
     sessionId = `session-${Date.now()}`,
+    contextBudget = DEFAULT_CONTEXT_BUDGET,
+    onTurnStart,
+    onLLMResponse,
+    onTermParsed,
+    onSolveResult,
+    onFeedback,
+    onFinal,
   } = options;
 
   const log = (msg: string) => {
     if (verbose) console.log(msg);
   };
 
+  // Run trace: one record per turn, closed when the next turn starts or the run ends
+  const runStart = Date.now();
+  const turns: RLMTurnRecord[] = [];
+  let current: RLMTurnRecord | null = null;
+
+  const closeTurn = () => {
+    if (current) {
+      current.durationMs = Date.now() - current.startedAt;
+      current = null;
+    }
+  };
+
+  const finish = (answer: unknown, terminationReason: RLMTerminationReason): RLMRunResult => {
+    closeTurn();
+    const result: RLMRunResult = {
+      answer,
+      terminationReason,
+      turns,
+      terms: turns.flatMap((t) => (t.term ? [t.term] : [])),
+      durationMs: Date.now() - runStart,
+    };
+    onFinal?.(result);
+    return result;
+  };
+
   // Initialize RAG manager for few-shot learning
   let ragManager: RAGManager | null = null;
   let ragHints: RAGHints | undefined;
@@ -568,7 +710,7 @@ export async function runRLM(
     documentContent = await readFile(filePath, "utf-8");
   } catch (err) {
     const error = err as Error;
-    return `Error loading file: ${error.message}`;
+    return finish(`Error loading file: ${error.message}`, "load_error");
   }
 
   log(`\n[RLM] Loaded document: ${documentContent.length.toLocaleString()} characters`);
@@ -633,11 +775,20 @@ export async function runRLM(
   }
 
   // Build conversation history
-  const history: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+  const history: ChatMessage[] = [
     { role: "system", content: systemPrompt },
     { role: "user", content: userMessage },
   ];
 
+  // Send feedback to the model for the next turn
+  const pushFeedback = (content: string) => {
+    history.push({ role: "user", content });
+    if (current) {
+      current.feedback.push(content);
+      onFeedback?.({ turn: current.turn, content });
+    }
+  };
+
   // Track whether code has been executed (to detect hallucination risk)
   let codeExecuted = false;
   // Track if the last execution had an error (don't accept answers after errors)
@@ -656,19 +807,43 @@ export async function runRLM(
   let previousResultCount = 0;
   // Bindings for cross-turn state - allows referencing previous results
   const solverBindings: Bindings = new Map();
+  // Keeps the messages sent each turn within the token budget
+  const budget = new ContextBudget(contextBudget);
 
   try {
     for (let turn = 1; turn <= maxTurns; turn++) {
       log(`\n${"─".repeat(50)}`);
       log(`[Turn ${turn}/${maxTurns}] Querying LLM...`);
 
-      // Build prompt from history
-      const prompt = history.map((h) => `${h.role.toUpperCase()}: ${h.content}`).join("\n\n");
+      // Fold older turns into a summary once the history outgrows the budget
+      const messages = budget.fit(history);
+      if (messages.length < history.length) {
+        log(`[Turn ${turn}] Compacted history: ${history.length} -> ${messages.length} messages (~${estimateMessageTokens(messages)} tokens)`);
+      }
 
-      // Get LLM response
-      const response = await llmClient(prompt);
+      closeTurn();
+      const record: RLMTurnRecord = {
+        turn,
+        startedAt: Date.now(),
+        durationMs: 0,
+        messageCount: messages.length,
+        llmMs: 0,
+        response: "",
+        feedback: [],
+      };
+      turns.push(record);
+      current = record;
+      onTurnStart?.({ turn, maxTurns, messages });
+
+      // Get LLM response, flattening the messages into one prompt if there is no chat client
+      const response = llmChat
+        ? (await llmChat(messages)).content
+        : await llmClient(flattenMessages(messages));
+      record.llmMs = Date.now() - record.startedAt;
+      record.response = response ?? "";
+      onLLMResponse?.({ turn, response: record.response, durationMs: record.llmMs });
       if (!response) {
-        return `Error: LLM returned empty response at turn ${turn}`;
+        return finish(`Error: LLM returned empty response at turn ${turn}`, "empty_response");
       }
       history.push({ role: "assistant", content: response });
 
@@ -691,7 +866,7 @@ export async function runRLM(
           if (!codeExecuted) {
             log(`[Turn ${turn}] Rejecting - no code executed yet`);
             const feedback = `You put <<<FINAL>>> inside the code block. First run code to get the answer, then put <<<FINAL>>> OUTSIDE the code block.`;
-            history.push({ role: "user", content: feedback });
+            pushFeedback(feedback);
             continue;
           }
           const extractedAnswer = finalInCode[1].trim();
@@ -711,10 +886,10 @@ Your actual answer here (plain text, not code)
 <<<END>>>
 
 Try again with proper formatting.`;
-            history.push({ role: "user", content: feedback });
+            pushFeedback(feedback);
             continue;
           }
-          return extractedAnswer;
+          return finish(extractedAnswer, "final_answer");
         }
 
         codeExecuted = true;
@@ -724,7 +899,7 @@ Try again with proper formatting.`;
         const isRepeatedCode = code.trim() === lastCode.trim();
         if (isRepeatedCode) {
           log(`[Turn ${turn}] WARNING: Repeated code detected`);
-          history.push({ role: "user", content: adapter.getRepeatedCodeFeedback(lastResultCount) });
+          pushFeedback(adapter.getRepeatedCodeFeedback(lastResultCount));
           continue;
         }
         lastCode = code;
@@ -739,10 +914,8 @@ Try again with proper formatting.`;
         if (!lcResult.success || !lcResult.term) {
           log(`[Turn ${turn}] LC parse error: ${lcResult.error}`);
           log(`[Turn ${turn}] Failed to parse: ${code}`);
-          history.push({
-            role: "user",
-            content: adapter.getErrorFeedback(lcResult.error || "Parse error", code),
-          });
+          budget.recordError(turn, `Parse error in ${code}: ${lcResult.error || "Parse error"}`);
+          pushFeedback(adapter.getErrorFeedback(lcResult.error || "Parse error", code));
           continue;
         }
 
@@ -752,16 +925,16 @@ Try again with proper formatting.`;
         const typeResult = inferType(lcResult.term);
         if (!typeResult.valid) {
           log(`[Turn ${turn}] Type inference failed: ${typeResult.error}`);
-          history.push({
-            role: "user",
-            content: `Type error: ${typeResult.error}\n\nCheck your LC term structure.`,
-          });
+          budget.recordError(turn, `Type error in ${code}: ${typeResult.error}`);
+          pushFeedback(`Type error: ${typeResult.error}\n\nCheck your LC term structure.`);
           continue;
         }
 
         if (typeResult.type) {
           log(`[Turn ${turn}] Inferred type: ${typeToString(typeResult.type)}`);
         }
+        record.term = code;
+        onTermParsed?.({ turn, term: code, type: typeResult.type ? typeToString(typeResult.type) : undefined });
 
         // Validate classify examples against previous grep output
         if (isClassifyTerm(lcResult.term)) {
@@ -772,10 +945,8 @@ Try again with proper formatting.`;
           const validationError = validateClassifyExamples(lcResult.term, prevLogs);
           if (validationError) {
             log(`[Turn ${turn}] Classify validation error: ${validationError}`);
-            history.push({
-              role: "user",
-              content: `ERROR: ${validationError}\n\nCopy the EXACT lines from the grep output above.`,
-            });
+            budget.recordError(turn, validationError);
+            pushFeedback(`ERROR: ${validationError}\n\nCopy the EXACT lines from the grep output above.`);
             continue;
           }
         }
@@ -788,7 +959,16 @@ Try again with proper formatting.`;
         }
 
         const solverTools = createSolverTools(documentContent);
+        const solveStart = Date.now();
         const solverResult = solveTerm(lcResult.term, solverTools, solverBindings);
+        record.solve = {
+          success: solverResult.success,
+          value: solverResult.value,
+          logs: solverResult.logs,
+          error: solverResult.error,
+          durationMs: Date.now() - solveStart,
+        };
+        onSolveResult?.({ turn, term: code, ...record.solve });
 
         // Convert solver result to sandbox-compatible result format
         const result = {
@@ -797,16 +977,24 @@ Try again with proper formatting.`;
           error: solverResult.success ? undefined : solverResult.error,
         };
 
+        if (solverResult.success) {
+          budget.recordCommand(turn, code, solverResult.value);
+        } else {
+          budget.recordError(turn, `${code} failed: ${solverResult.error}`);
+        }
+
         // Bind result for next turn - model can reference as RESULTS or _N
         // IMPORTANT: Only overwrite RESULTS with arrays. Scalar values (count, sum)
         // are stored in _N bindings but don't replace the array in RESULTS.
         // This prevents (count RESULTS) from destroying the data for subsequent (sum RESULTS).
         if (solverResult.success && solverResult.value !== null && solverResult.value !== undefined) {
           solverBindings.set(`_${turn}`, solverResult.value);
+          budget.recordBinding(`_${turn}`, solverResult.value);
 
           if (Array.isArray(solverResult.value)) {
             // Array result - update RESULTS and track count
             solverBindings.set("RESULTS", solverResult.value);
+            budget.recordBinding("RESULTS", solverResult.value);
             previousResultCount = lastResultCount;
             lastResultCount = solverResult.value.length;
             log(`[Turn ${turn}] Bound result to RESULTS and _${turn}`);
@@ -860,7 +1048,7 @@ Try again with proper formatting.`;
             doneCount++;
             if (doneCount >= 3 && lastMeaningfulOutput) {
               log(`[Turn ${turn}] Detected stuck pattern. Auto-terminating with last meaningful output.`);
-              return lastMeaningfulOutput;
+              return finish(lastMeaningfulOutput, "stuck");
             }
             // Add feedback to encourage different approach
             if (isRepeatedOutput) {
@@ -889,7 +1077,7 @@ Try again with proper formatting.`;
                 const verification = verifyAndReturnResult(answerLine, constraint, log);
                 if (verification.valid) {
                   log(`[Turn ${turn}] Auto-terminating with computed result`);
-                  return verification.result;
+                  return finish(verification.result, "computed_result");
                 } else {
                   log(`[Turn ${turn}] Constraint violation - continuing`);
                   feedback += `\n${verification.feedback}`;
@@ -953,7 +1141,7 @@ Try again with proper formatting.`;
         // Add adapter-specific success feedback (language reminders, etc.)
         feedback += `\n\n${adapter.getSuccessFeedback(lastResultCount, previousResultCount, query)}`;
 
-        history.push({ role: "user", content: feedback });
+        pushFeedback(feedback);
 
         // Check for final answer AFTER code execution (same response may have both)
         // But only if there was no error, output was helpful, and result is not an array
@@ -981,10 +1169,10 @@ Try again with proper formatting.`;
             // Verify constraints if specified
             const verification = verifyAndReturnResult(resultToReturn, constraint, log);
             if (verification.valid) {
-              return verification.result;
+              return finish(verification.result, "final_answer");
             } else {
               log(`[Turn ${turn}] Constraint violation - continuing`);
-              history.push({ role: "user", content: verification.feedback });
+              pushFeedback(verification.feedback);
               continue;
             }
           }
@@ -998,10 +1186,10 @@ Try again with proper formatting.`;
           log(`[Turn ${turn}] Model stuck (${noCodeCount} consecutive no-code responses). Returning last meaningful output.`);
           const verification = verifyAndReturnResult(lastMeaningfulOutput, constraint, log);
           if (verification.valid) {
-            return verification.result;
+            return finish(verification.result, "stuck");
           }
           // Continue even if verification fails - we need to break out of the stuck state
-          return lastMeaningfulOutput;
+          return finish(lastMeaningfulOutput, "stuck");
         }
 
         // Check for final answer in responses without code
@@ -1011,14 +1199,14 @@ Try again with proper formatting.`;
           if (!codeExecuted) {
             log(`[Turn ${turn}] Rejecting final answer - no code executed yet`);
             const feedback = `ERROR: You tried to answer without reading the document.\n\n${adapter.getNoCodeFeedback()}`;
-            history.push({ role: "user", content: feedback });
+            pushFeedback(feedback);
             continue;
           }
 
           // Reject if last execution had an error (model might be explaining the error, not answering)
           if (lastExecutionHadError) {
             log(`[Turn ${turn}] Rejecting final answer - last execution had error, need retry`);
-            history.push({ role: "user", content: adapter.getErrorFeedback("Previous execution failed") });
+            pushFeedback(adapter.getErrorFeedback("Previous execution failed"));
             continue;
           }
 
@@ -1034,22 +1222,25 @@ Try again with proper formatting.`;
           // Verify constraints if specified
           const verification = verifyAndReturnResult(resultToReturn, constraint, log);
           if (verification.valid) {
-            return verification.result;
+            return finish(verification.result, "final_answer");
           } else {
             log(`[Turn ${turn}] Constraint violation - continuing`);
-            history.push({ role: "user", content: verification.feedback });
+            pushFeedback(verification.feedback);
             continue;
           }
         }
 
         // Add feedback to prompt the model to provide code
-        history.push({ role: "user", content: adapter.getNoCodeFeedback() });
+        pushFeedback(adapter.getNoCodeFeedback());
       }
     }
 
     // Max turns reached
     log(`\n[RLM] Max turns (${maxTurns}) reached without final answer`);
-    return `Max turns (${maxTurns}) reached without final answer. Last memory state: ${JSON.stringify(sandbox.getMemory())}`;
+    return finish(
+      `Max turns (${maxTurns}) reached without final answer. Last memory state: ${JSON.stringify(sandbox.getMemory())}`,
+      "max_turns"
+    );
   } finally {
     sandbox.dispose();
     log(`\n[RLM] Sandbox disposed`);
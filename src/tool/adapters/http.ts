@@ -6,23 +6,60 @@
  * Uses Nucleus S-expression syntax for queries.
  *
  * SESSION LIFECYCLE:
- * - Sessions auto-expire after inactivity (default: 10 minutes)
+ * - Several sessions can be open at once; POST /load returns each one's sessionId
+ * - Requests pick a session with "session" in the JSON body or ?session=<id>;
+ *   without one they use the most recently loaded session
+ * - Each session auto-expires after its own inactivity (default: 10 minutes)
  * - POST /close explicitly ends a session
- * - Loading a new document starts a new session
  *
  * Endpoints:
- *   POST /load          - Load a document (starts session)
- *   POST /query         - Execute a Nucleus query (resets timeout)
+ *   POST /load          - Load a document (starts a session)
+ *   POST /resume        - Reopen a saved session (needs --session-dir)
+ *   POST /query         - Execute a Nucleus query (resets timeout). With
+ *                         "Accept: text/event-stream" it streams "progress"
+ *                         events, then a "result" event; disconnecting
+ *                         cancels the query
+ *   POST /batch         - Run several Nucleus queries in order in one session
+ *                         ({"commands": [...], "stopOnError": true})
  *   POST /close         - Close session and free memory
+ *   GET  /handles       - List result handles ($res1, $res2, ...)
+ *   GET  /handles/:id   - Get a handle's items (?limit=&offset= to page)
+ *   DELETE /handles/:id - Delete a handle
+ *   GET  /sessions      - List open sessions
  *   GET  /status        - Get session status (timeout, queries, etc)
  *   GET  /bindings      - Get current variable bindings
  *   POST /reset         - Reset bindings (keep document)
  *   GET  /stats         - Get document statistics
  *   GET  /help          - Get command reference
  *   GET  /health        - Health check
+ *   GET  /openapi.json  - OpenAPI 3.1 description of this API
+ *   GET  /ws            - WebSocket: LatticeCommand JSON messages in,
+ *                         streamed progress, matches, logs and results out
+ *
+ * WEBSOCKET (/ws):
+ * - Send LatticeCommand objects ({"type": "query", "command": "..."}) with
+ *   an optional "id" (echoed on every reply) and "session"
+ * - A query streams {"type": "progress"}, {"type": "found", "items"} for grep
+ *   matches as they are found and {"type": "log", "line"}, then
+ *   {"type": "result"}; array results carry the handle, count and stub
+ *   instead of the data
+ * - {"type": "subscribe", "id", "command"} runs a query now and again each
+ *   time its session's document reloads; {"type": "unsubscribe", "id"}
+ *   stops it and {"type": "cancel", "id"} stops a running query
+ * - Browsers, which cannot set headers, may pass the token as ?token=
+ *
+ * ACCESS CONTROL (for shared machines such as CI runners):
+ * - --token (or LATTICE_HTTP_TOKEN) requires "Authorization: Bearer <token>"
+ *   on every request except GET /health; others get 401
+ * - --allow-root <dir> (repeatable) limits POST /load filePath to files under
+ *   those directories, after resolving symlinks; others get 403
+ * - --max-body caps request bodies (default: 50 MB); larger ones get 413
+ * - --rate-limit caps requests per minute from one client address; requests
+ *   over it get 429 with Retry-After
+ * All of these respond with a LatticeResponse ({"success": false, "error"}).
  *
  * Usage:
- *   lattice-http --port 3456 --timeout 600
+ *   lattice-http --port 3456 --timeout 600 [--session-dir ./sessions]
  *
  *   curl -X POST http://localhost:3456/load -d '{"filePath":"./data.txt"}'
  *   curl -X POST http://localhost:3456/query -d '{"command":"(grep \"error\")"}'
@@ -30,10 +67,19 @@
  */
 
 import * as http from "node:http";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { realpathSync } from "node:fs";
+import { isAbsolute, relative, resolve, sep } from "node:path";
 import {
   LatticeTool,
+  type LatticeCommand,
   type LatticeResponse,
 } from "../lattice-tool.js";
+import { CheckpointManager } from "../../persistence/checkpoint.js";
+import type { Duplex } from "node:stream";
+import type { SolveOptions } from "../../logic/lc-solver.js";
+import { createOpenApiSpec } from "./openapi.js";
+import { acceptWebSocket, CloseCode, type WebSocketConnection } from "./websocket.js";
 
 export interface HttpAdapterOptions {
   /** Port to listen on (default: 3456) */
@@ -44,84 +90,200 @@ export interface HttpAdapterOptions {
   cors?: boolean;
   /** Session timeout in seconds (default: 600 = 10 minutes) */
   timeoutSeconds?: number;
+  /** Directory for saved sessions; enables POST /resume (default: none) */
+  sessionDir?: string;
+  /** Bearer token required on every request but GET /health (default: none) */
+  authToken?: string;
+  /** Directories POST /load may read files from (default: any path) */
+  allowedRoots?: string[];
+  /** Largest accepted request body in bytes (default: 50 MB) */
+  maxBodyBytes?: number;
+  /** Requests allowed per minute from one client address (default: unlimited) */
+  rateLimitPerMinute?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * A request refused before it reaches an endpoint, sent as a
+ * LatticeResponse with this status
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+/**
+ * An open /ws connection and the queries it is running, by message id
+ */
+interface SocketClient {
+  connection: WebSocketConnection;
+  running: Map<string, AbortController>;
+  /** Remote address, for the rate limit */
+  address: string;
+}
+
+/**
+ * A saved query that runs again whenever its session's document reloads
+ */
+interface Subscription {
+  id: string | number;
+  command: string;
+  /** Session it follows; null follows the default session */
+  sessionId: string | null;
+  client: SocketClient;
 }
 
+/** Client-chosen id of a /ws message, echoed on every reply to it */
+type MessageId = string | number | null;
+
 interface Session {
+  id: string;
   tool: LatticeTool;
   documentName: string | null;
   loadedAt: Date;
   lastAccessedAt: Date;
   queryCount: number;
+  timeoutHandle: ReturnType<typeof setTimeout> | null;
 }
 
 /**
  * HTTP server adapter with session lifecycle
  */
 export class HttpAdapter {
-  private session: Session | null = null;
+  private sessions = new Map<string, Session>();
+  /** Session used by requests that do not name one (the last one loaded) */
+  private currentSessionId: string | null = null;
   private server: http.Server | null = null;
   private port: number;
   private host: string;
   private cors: boolean;
   private timeoutMs: number;
-  private timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+  private sessionDir: string | undefined;
+  private authDigest: Buffer | null;
+  private allowedRoots: string[] | null;
+  private maxBodyBytes: number;
+  private rateLimit: number | null;
+  private rateWindows = new Map<string, RateWindow>();
+  private socketClients = new Set<SocketClient>();
+  private subscriptions = new Set<Subscription>();
 
   constructor(options: HttpAdapterOptions = {}) {
     this.port = options.port ?? 3456;
     this.host = options.host ?? "localhost";
     this.cors = options.cors ?? true;
     this.timeoutMs = (options.timeoutSeconds ?? 600) * 1000;
+    this.sessionDir = options.sessionDir;
+    this.authDigest = options.authToken ? digest(options.authToken) : null;
+    this.allowedRoots = options.allowedRoots ? options.allowedRoots.map(canonicalPath) : null;
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    this.rateLimit = options.rateLimitPerMinute ?? null;
   }
 
-  private resetInactivityTimer(): void {
-    if (this.timeoutHandle) {
-      clearTimeout(this.timeoutHandle);
+  private resetInactivityTimer(session: Session): void {
+    if (session.timeoutHandle) {
+      clearTimeout(session.timeoutHandle);
     }
 
-    this.timeoutHandle = setTimeout(() => {
-      if (this.session) {
-        console.log(`[Lattice] Session expired after ${this.timeoutMs / 1000}s inactivity`);
-        this.closeSession("timeout");
-      }
+    session.timeoutHandle = setTimeout(() => {
+      console.log(`[Lattice] Session ${session.id} expired after ${this.timeoutMs / 1000}s inactivity`);
+      this.closeSession(session.id, "timeout");
     }, this.timeoutMs);
   }
 
-  private closeSession(reason: string): void {
-    if (this.session) {
-      const duration = Date.now() - this.session.loadedAt.getTime();
-      console.log(
-        `[Lattice] Session closed: ${reason} | ` +
-        `Document: ${this.session.documentName || "inline"} | ` +
-        `Duration: ${Math.round(duration / 1000)}s | ` +
-        `Queries: ${this.session.queryCount}`
-      );
-      this.session = null;
+  private openSession(id: string, tool: LatticeTool, queryCount: number): Session {
+    const session: Session = {
+      id,
+      tool,
+      documentName: tool.getDocumentName(),
+      loadedAt: new Date(),
+      lastAccessedAt: new Date(),
+      queryCount,
+      timeoutHandle: null,
+    };
+    this.sessions.set(id, session);
+    this.currentSessionId = id;
+    this.resetInactivityTimer(session);
+    return session;
+  }
+
+  private closeSession(id: string, reason: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    const duration = Date.now() - session.loadedAt.getTime();
+    console.log(
+      `[Lattice] Session closed: ${id} (${reason}) | ` +
+      `Document: ${session.documentName || "inline"} | ` +
+      `Duration: ${Math.round(duration / 1000)}s | ` +
+      `Queries: ${session.queryCount}`
+    );
+    session.tool.close();
+    if (session.timeoutHandle) {
+      clearTimeout(session.timeoutHandle);
     }
+    this.sessions.delete(id);
 
-    if (this.timeoutHandle) {
-      clearTimeout(this.timeoutHandle);
-      this.timeoutHandle = null;
+    // Fall back to the most recently opened session that is still open
+    if (this.currentSessionId === id) {
+      const remaining = Array.from(this.sessions.keys());
+      this.currentSessionId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+    }
+  }
+
+  /**
+   * Find the session a request names, or the default session.
+   * Returns an error response when there is none.
+   */
+  private findSession(sessionId: string | null): Session | LatticeResponse {
+    const id = sessionId ?? this.currentSessionId;
+    if (!id) {
+      return { success: false, error: "No active session. POST /load first." };
+    }
+    const session = this.sessions.get(id);
+    if (!session) {
+      const known = Array.from(this.sessions.keys());
+      return {
+        success: false,
+        error: `Unknown session "${id}".` +
+          (known.length > 0 ? ` Open sessions: ${known.join(", ")}` : " POST /load first."),
+      };
     }
+    return session;
   }
 
-  private getSessionStatus(): Record<string, unknown> {
-    if (!this.session) {
+  private getSessionStatus(session: Session | null): Record<string, unknown> {
+    if (!session) {
       return { active: false };
     }
 
     const now = new Date();
-    const age = Math.round((now.getTime() - this.session.loadedAt.getTime()) / 1000);
-    const idle = Math.round((now.getTime() - this.session.lastAccessedAt.getTime()) / 1000);
+    const age = Math.round((now.getTime() - session.loadedAt.getTime()) / 1000);
+    const idle = Math.round((now.getTime() - session.lastAccessedAt.getTime()) / 1000);
     const timeoutIn = Math.max(0, Math.round((this.timeoutMs - idle * 1000) / 1000));
 
     return {
       active: true,
-      document: this.session.documentName,
-      loaded: this.session.tool.isLoaded(),
+      sessionId: session.id,
+      saved: session.tool.getSessionId() !== null,
+      default: session.id === this.currentSessionId,
+      document: session.documentName,
+      loaded: session.tool.isLoaded(),
       ageSeconds: age,
       idleSeconds: idle,
       timeoutInSeconds: timeoutIn,
-      queryCount: this.session.queryCount,
+      queryCount: session.queryCount,
     };
   }
 
@@ -133,22 +295,41 @@ export class HttpAdapter {
       this.server = http.createServer(async (req, res) => {
         await this.handleRequest(req, res);
       });
+      this.server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
 
       this.server.on("error", reject);
 
       this.server.listen(this.port, this.host, () => {
         console.log(`Lattice HTTP server running at http://${this.host}:${this.port}`);
         console.log(`Session timeout: ${this.timeoutMs / 1000} seconds`);
+        if (this.sessionDir) {
+          console.log(`Saving sessions to ${this.sessionDir}`);
+        }
+        console.log(this.authDigest ? "Bearer token required" : "No token required (use --token on shared machines)");
+        if (this.allowedRoots) {
+          console.log(`Loading files only under: ${this.allowedRoots.join(", ")}`);
+        }
+        if (this.rateLimit !== null) {
+          console.log(`Rate limit: ${this.rateLimit} requests per minute per client`);
+        }
         console.log("Endpoints:");
-        console.log("  POST /load      - Load a document (starts session)");
+        console.log("  POST /load      - Load a document (starts a session)");
+        console.log("  POST /resume    - Reopen a saved session");
         console.log("  POST /query     - Execute Nucleus command");
+        console.log("  POST /batch     - Execute several Nucleus commands in order");
         console.log("  POST /close     - Close session and free memory");
+        console.log("  GET  /handles   - List result handles");
+        console.log("  GET  /handles/:id - Get a handle's items (?limit&offset)");
+        console.log("  DELETE /handles/:id - Delete a handle");
+        console.log("  GET  /sessions  - List open sessions");
         console.log("  GET  /status    - Get session status");
         console.log("  GET  /bindings  - Get current bindings");
         console.log("  POST /reset     - Reset bindings");
         console.log("  GET  /stats     - Get document stats");
         console.log("  GET  /help      - Command reference");
         console.log("  GET  /health    - Health check");
+        console.log("  GET  /openapi.json - OpenAPI spec");
+        console.log("  GET  /ws        - WebSocket streaming queries");
         resolve();
       });
     });
@@ -158,7 +339,12 @@ export class HttpAdapter {
    * Stop the server
    */
   async stop(): Promise<void> {
-    this.closeSession("server stopped");
+    for (const client of this.socketClients) {
+      client.connection.close(CloseCode.goingAway, "Server stopped");
+    }
+    for (const id of Array.from(this.sessions.keys())) {
+      this.closeSession(id, "server stopped");
+    }
 
     return new Promise((resolve) => {
       if (this.server) {
@@ -179,8 +365,8 @@ export class HttpAdapter {
     // CORS headers
     if (this.cors) {
       res.setHeader("Access-Control-Allow-Origin", "*");
-      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 
       if (req.method === "OPTIONS") {
         res.writeHead(204);
@@ -195,42 +381,119 @@ export class HttpAdapter {
     const path = url.pathname;
 
     try {
+      this.checkRateLimit(clientAddress(req));
+      if (path !== "/health") this.checkAuth(req);
+
+      const body = req.method === "POST" ? await this.readBody(req) : {};
+      // The target session comes from the body or ?session=<id>
+      const sessionId = typeof body.session === "string" ? body.session : url.searchParams.get("session");
       let response: LatticeResponse;
 
+      if (path.startsWith("/handles/")) {
+        const handle = parseHandle(path.slice("/handles/".length));
+        if (req.method === "GET") {
+          const limit = parseCount(url.searchParams.get("limit"));
+          const offset = parseCount(url.searchParams.get("offset"));
+          if (Number.isNaN(limit) || Number.isNaN(offset)) {
+            this.sendError(res, 400, "limit and offset must be non-negative integers");
+            return;
+          }
+          response = this.handleWithSession(sessionId, (session) =>
+            session.tool.execute({ type: "expand", handle, limit, offset })
+          );
+        } else if (req.method === "DELETE") {
+          response = this.handleWithSession(sessionId, (session) =>
+            session.tool.execute({ type: "deleteHandle", handle })
+          );
+        } else {
+          this.sendError(res, 405, "Method not allowed");
+          return;
+        }
+        this.sendResponse(res, response, response.success ? 200 : 404);
+        return;
+      }
+
       switch (path) {
         case "/load":
           if (req.method !== "POST") {
             this.sendError(res, 405, "Method not allowed");
             return;
           }
-          response = await this.handleLoad(req);
+          response = await this.handleLoad(body);
           break;
 
-        case "/query":
+        case "/resume":
           if (req.method !== "POST") {
             this.sendError(res, 405, "Method not allowed");
             return;
           }
-          response = await this.handleQuery(req);
+          response = this.handleResume(body);
           break;
 
+        case "/query": {
+          if (req.method !== "POST") {
+            this.sendError(res, 405, "Method not allowed");
+            return;
+          }
+          // A client that disconnects cancels its query
+          const controller = new AbortController();
+          res.on("close", () => {
+            if (!res.writableEnded) controller.abort();
+          });
+          if (req.headers.accept?.includes("text/event-stream")) {
+            await this.streamQuery(res, sessionId, body, controller.signal);
+            return;
+          }
+          response = await this.handleQuery(sessionId, body, { signal: controller.signal });
+          break;
+        }
+
+        case "/batch": {
+          if (req.method !== "POST") {
+            this.sendError(res, 405, "Method not allowed");
+            return;
+          }
+          const controller = new AbortController();
+          res.on("close", () => {
+            if (!res.writableEnded) controller.abort();
+          });
+          response = await this.handleBatch(sessionId, body, { signal: controller.signal });
+          break;
+        }
+
         case "/close":
           if (req.method !== "POST") {
             this.sendError(res, 405, "Method not allowed");
             return;
           }
-          response = this.handleClose();
+          response = this.handleClose(sessionId);
           break;
 
-        case "/status":
+        case "/sessions":
           response = {
             success: true,
-            data: this.getSessionStatus(),
+            data: Array.from(this.sessions.values()).map((session) => this.getSessionStatus(session)),
           };
           break;
 
+        case "/status": {
+          if (sessionId === null && this.sessions.size === 0) {
+            response = { success: true, data: this.getSessionStatus(null) };
+            break;
+          }
+          const found = this.findSession(sessionId);
+          response = "tool" in found
+            ? { success: true, data: this.getSessionStatus(found) }
+            : found;
+          break;
+        }
+
+        case "/handles":
+          response = this.handleWithSession(sessionId, (session) => session.tool.execute({ type: "handles" }));
+          break;
+
         case "/bindings":
-          response = this.handleWithSession((session) => session.tool.execute({ type: "bindings" }));
+          response = this.handleWithSession(sessionId, (session) => session.tool.execute({ type: "bindings" }));
           break;
 
         case "/reset":
@@ -238,23 +501,31 @@ export class HttpAdapter {
             this.sendError(res, 405, "Method not allowed");
             return;
           }
-          response = this.handleWithSession((session) => session.tool.execute({ type: "reset" }));
+          response = this.handleWithSession(sessionId, (session) => session.tool.execute({ type: "reset" }));
           break;
 
         case "/stats":
-          response = this.handleWithSession((session) => session.tool.execute({ type: "stats" }));
+          response = this.handleWithSession(sessionId, (session) => session.tool.execute({ type: "stats" }));
           break;
 
         case "/help":
           response = new LatticeTool().execute({ type: "help" });
           break;
 
+        case "/openapi.json":
+          res.writeHead(200);
+          res.end(JSON.stringify(createOpenApiSpec(this.host, this.port), null, 2));
+          return;
+
         case "/health":
           response = {
             success: true,
             data: {
               status: "ok",
-              session: this.getSessionStatus(),
+              session: this.getSessionStatus(
+                this.currentSessionId ? this.sessions.get(this.currentSessionId) ?? null : null
+              ),
+              sessionCount: this.sessions.size,
             },
           };
           break;
@@ -266,23 +537,95 @@ export class HttpAdapter {
 
       this.sendResponse(res, response);
     } catch (err) {
+      if (err instanceof HttpError) {
+        for (const [name, value] of Object.entries(err.headers)) {
+          res.setHeader(name, value);
+        }
+        this.sendError(res, err.status, err.message);
+        return;
+      }
       this.sendError(res, 500, err instanceof Error ? err.message : String(err));
     }
   }
 
+  /**
+   * Count a request (or WebSocket message) against its client's window
+   * (fixed, one minute). The client is its remote address.
+   */
+  private checkRateLimit(client: string): void {
+    if (this.rateLimit === null) return;
+
+    const now = Date.now();
+    let window = this.rateWindows.get(client);
+    if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+      // Drop finished windows so idle clients do not accumulate
+      for (const [key, old] of this.rateWindows) {
+        if (now - old.startedAt >= RATE_WINDOW_MS) this.rateWindows.delete(key);
+      }
+      window = { startedAt: now, count: 0 };
+      this.rateWindows.set(client, window);
+    }
+
+    window.count++;
+    if (window.count > this.rateLimit) {
+      const retryAfter = Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000);
+      throw new HttpError(
+        429,
+        `Rate limit exceeded: ${this.rateLimit} requests per minute. Retry in ${retryAfter}s.`,
+        { "Retry-After": String(retryAfter) }
+      );
+    }
+  }
+
+  /**
+   * Check the bearer token; queryToken is the ?token= of a WebSocket upgrade
+   */
+  private checkAuth(req: http.IncomingMessage, queryToken: string | null = null): void {
+    if (!this.authDigest) return;
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    const token = match ? match[1].trim() : queryToken;
+    // Compare digests so the comparison takes the same time for any token
+    if (token === null || !timingSafeEqual(digest(token), this.authDigest)) {
+      throw new HttpError(401, "Unauthorized: send Authorization: Bearer <token>", {
+        "WWW-Authenticate": 'Bearer realm="lattice"',
+      });
+    }
+  }
+
+  /**
+   * Refuse a load path outside the allowed roots. Symlinks are resolved
+   * first, so a link inside a root cannot reach a file outside it.
+   */
+  private checkLoadPath(filePath: string): void {
+    if (!this.allowedRoots) return;
+
+    const target = canonicalPath(filePath);
+    if (!this.allowedRoots.some((root) => isWithin(root, target))) {
+      throw new HttpError(403, `Forbidden: ${filePath} is outside the allowed directories`);
+    }
+  }
+
   /**
    * Handle /load endpoint
    */
-  private async handleLoad(req: http.IncomingMessage): Promise<LatticeResponse> {
-    const body = await this.readBody(req);
+  private async handleLoad(body: Record<string, unknown>): Promise<LatticeResponse> {
+    const requestedId = typeof body.session === "string" ? body.session : undefined;
+    if (requestedId !== undefined && !CheckpointManager.isValidSessionId(requestedId)) {
+      return { success: false, error: `Invalid session ID "${requestedId}"` };
+    }
+    const id = requestedId ?? CheckpointManager.createSessionId();
+    if (typeof body.filePath === "string") {
+      this.checkLoadPath(body.filePath);
+    }
 
-    // Close existing session
-    if (this.session) {
-      this.closeSession("new document loaded");
+    // Loading an open session's ID replaces it
+    if (this.sessions.has(id)) {
+      this.closeSession(id, "new document loaded");
     }
 
     // Create new session
-    const tool = new LatticeTool();
+    const tool = new LatticeTool({ sessionDir: this.sessionDir, sessionId: id });
     let response: LatticeResponse;
 
     if (typeof body.filePath === "string") {
@@ -297,83 +640,452 @@ export class HttpAdapter {
       return { success: false, error: "Provide 'filePath' or 'content'" };
     }
 
-    if (response.success) {
-      this.session = {
-        tool,
-        documentName: tool.getDocumentName(),
-        loadedAt: new Date(),
-        lastAccessedAt: new Date(),
-        queryCount: 0,
-      };
-      this.resetInactivityTimer();
-      console.log(`[Lattice] Session started: ${this.session.documentName}`);
+    if (!response.success) {
+      tool.close();
+      return response;
+    }
+
+    const session = this.openSession(id, tool, 0);
+    console.log(`[Lattice] Session started: ${id} (${session.documentName})`);
+    this.refireSubscriptions(id);
+
+    return { ...response, data: { ...(response.data as Record<string, unknown>), sessionId: id } };
+  }
+
+  /**
+   * Handle /resume endpoint
+   */
+  private handleResume(body: Record<string, unknown>): LatticeResponse {
+    if (typeof body.sessionId !== "string") {
+      return { success: false, error: "Missing 'sessionId' field" };
+    }
+
+    const tool = new LatticeTool({ sessionDir: this.sessionDir });
+    const response = tool.execute({ type: "resume", sessionId: body.sessionId });
+    if (!response.success) {
+      tool.close();
+      return response;
+    }
+
+    // Replace an open session of the same ID only once the saved one has loaded
+    if (this.sessions.has(body.sessionId)) {
+      this.closeSession(body.sessionId, "session resumed");
     }
 
+    const data = response.data as { queryCount?: number } | undefined;
+    this.openSession(body.sessionId, tool, data?.queryCount ?? 0);
+    console.log(`[Lattice] Session resumed: ${body.sessionId}`);
+    this.refireSubscriptions(body.sessionId);
+
     return response;
   }
 
   /**
    * Handle /query endpoint
    */
-  private async handleQuery(req: http.IncomingMessage): Promise<LatticeResponse> {
-    if (!this.session) {
-      return { success: false, error: "No active session. POST /load first." };
+  private async handleQuery(
+    sessionId: string | null,
+    body: Record<string, unknown>,
+    options: SolveOptions = {}
+  ): Promise<LatticeResponse> {
+    const found = this.findSession(sessionId);
+    if (!("tool" in found)) {
+      return found;
     }
 
-    const body = await this.readBody(req);
-
     if (typeof body.command !== "string") {
       return { success: false, error: "Missing 'command' field" };
     }
 
     // Update session
-    this.session.lastAccessedAt = new Date();
-    this.session.queryCount++;
-    this.resetInactivityTimer();
+    found.lastAccessedAt = new Date();
+    found.queryCount++;
+    this.resetInactivityTimer(found);
+
+    return found.tool.executeAsync({ type: "query", command: body.command }, options);
+  }
+
+  /**
+   * Handle /batch endpoint: the steps share the session's bindings
+   */
+  private async handleBatch(
+    sessionId: string | null,
+    body: Record<string, unknown>,
+    options: SolveOptions = {}
+  ): Promise<LatticeResponse> {
+    const found = this.findSession(sessionId);
+    if (!("tool" in found)) {
+      return found;
+    }
+
+    found.lastAccessedAt = new Date();
+    this.resetInactivityTimer(found);
+
+    const response = await found.tool.executeAsync(
+      { type: "batch", commands: body.commands as string[], stopOnError: body.stopOnError === true },
+      options
+    );
+    if (Array.isArray(response.data)) {
+      found.queryCount += response.data.length;
+    }
+    return response;
+  }
+
+  /**
+   * Handle /query as a Server-Sent Events stream: "progress" events
+   * while the query runs, then a "result" event with the response
+   */
+  private async streamQuery(
+    res: http.ServerResponse,
+    sessionId: string | null,
+    body: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<void> {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.destroyed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    let response: LatticeResponse;
+    try {
+      response = await this.handleQuery(sessionId, body, {
+        signal,
+        onProgress: (progress) => send("progress", progress),
+      });
+    } catch (err) {
+      response = { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    send("result", response);
+    res.end();
+  }
+
+  /**
+   * Accept a WebSocket upgrade on /ws, after the same rate limit and
+   * token checks as other requests
+   */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    try {
+      if (url.pathname !== "/ws") {
+        throw new HttpError(404, `Unknown endpoint: ${url.pathname}`);
+      }
+      this.checkRateLimit(clientAddress(req));
+      this.checkAuth(req, url.searchParams.get("token"));
+    } catch (err) {
+      const refusal = err instanceof HttpError ? err : new HttpError(500, String(err));
+      const body = JSON.stringify({ success: false, error: refusal.message } satisfies LatticeResponse);
+      const headers = Object.entries(refusal.headers).map(([name, value]) => `${name}: ${value}\r\n`).join("");
+      socket.end(
+        `HTTP/1.1 ${refusal.status} ${http.STATUS_CODES[refusal.status]}\r\n` +
+        `Content-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\n` +
+        `${headers}Connection: close\r\n\r\n${body}`
+      );
+      return;
+    }
+
+    if (head.length > 0) {
+      socket.unshift(head);
+    }
+    let client: SocketClient;
+    const connection = acceptWebSocket(req, socket, {
+      maxMessageBytes: this.maxBodyBytes,
+      onMessage: (text) => {
+        this.handleSocketMessage(client, text).catch((err) =>
+          this.sendSocket(client, null, {
+            type: "result",
+            success: false,
+            error: err instanceof Error ? err.message : String(err),
+          })
+        );
+      },
+      onClose: () => {
+        for (const controller of client.running.values()) controller.abort();
+        for (const subscription of this.subscriptions) {
+          if (subscription.client === client) this.subscriptions.delete(subscription);
+        }
+        this.socketClients.delete(client);
+      },
+    });
+    if (!connection) return;
+    client = { connection, running: new Map(), address: clientAddress(req) };
+    this.socketClients.add(client);
+  }
+
+  /**
+   * Handle one /ws message: a LatticeCommand, or subscribe, unsubscribe
+   * or cancel. Every reply carries the message's id. Each message counts
+   * against the client's rate limit like an HTTP request.
+   */
+  private async handleSocketMessage(client: SocketClient, text: string): Promise<void> {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      message = {};
+    }
+    if (typeof message !== "object" || message === null) {
+      message = {};
+    }
+
+    const id = typeof message.id === "string" || typeof message.id === "number" ? message.id : null;
+    try {
+      this.checkRateLimit(client.address);
+    } catch (err) {
+      this.sendSocket(client, id, { type: "result", success: false, error: (err as Error).message });
+      return;
+    }
+    if (typeof message.type !== "string") {
+      this.sendSocket(client, null, { type: "result", success: false, error: "Send a JSON object with a \"type\"" });
+      return;
+    }
+
+    const sessionId = typeof message.session === "string" ? message.session : null;
+    let response: LatticeResponse;
+
+    switch (message.type) {
+      case "query":
+        if (typeof message.command !== "string") {
+          response = { success: false, error: "Missing 'command' field" };
+          break;
+        }
+        await this.runSocketQuery(client, id, sessionId, message.command);
+        return;
+
+      case "subscribe": {
+        if (id === null || typeof message.command !== "string") {
+          response = { success: false, error: "subscribe needs 'id' and 'command'" };
+          break;
+        }
+        this.unsubscribe(client, id);
+        this.subscriptions.add({ id, command: message.command, sessionId, client });
+        await this.runSocketQuery(client, id, sessionId, message.command, "subscribe");
+        return;
+      }
+
+      case "unsubscribe":
+        response = this.unsubscribe(client, id)
+          ? { success: true, message: `Unsubscribed ${id}` }
+          : { success: false, error: `No subscription "${id}"` };
+        break;
+
+      case "cancel": {
+        const controller = client.running.get(String(id));
+        controller?.abort();
+        response = controller
+          ? { success: true, message: `Cancelled ${id}` }
+          : { success: false, error: `No running query "${id}"` };
+        break;
+      }
+
+      case "batch": {
+        const controller = new AbortController();
+        const key = id === null ? null : String(id);
+        if (key !== null) client.running.set(key, controller);
+        try {
+          response = await this.handleBatch(sessionId, message, {
+            signal: controller.signal,
+            onLog: (line) => this.sendSocket(client, id, { type: "log", line }),
+          });
+        } finally {
+          if (key !== null && client.running.get(key) === controller) client.running.delete(key);
+        }
+        break;
+      }
+
+      case "load":
+      case "loadContent":
+        try {
+          response = await this.handleLoad(message);
+        } catch (err) {
+          response = { success: false, error: err instanceof Error ? err.message : String(err) };
+        }
+        break;
+
+      case "resume":
+        response = this.handleResume(message);
+        break;
+
+      case "help":
+        response = new LatticeTool().execute({ type: "help" });
+        break;
+
+      case "handles":
+      case "expand":
+      case "deleteHandle":
+      case "bindings":
+      case "reset":
+      case "stats":
+        response = this.handleWithSession(sessionId, (session) =>
+          session.tool.execute(message as unknown as LatticeCommand)
+        );
+        break;
+
+      default:
+        response = { success: false, error: `Unknown message type "${message.type}"` };
+    }
+
+    this.sendSocket(client, id, { type: "result", ...response });
+  }
+
+  /**
+   * Run a query for a /ws client, streaming its progress, grep matches
+   * and log lines before the result
+   */
+  private async runSocketQuery(
+    client: SocketClient,
+    id: MessageId,
+    sessionId: string | null,
+    command: string,
+    trigger?: "subscribe" | "reload"
+  ): Promise<void> {
+    const send = (message: Record<string, unknown>) =>
+      this.sendSocket(client, id, trigger ? { ...message, trigger } : message);
+
+    const found = this.findSession(sessionId);
+    if (!("tool" in found)) {
+      send({ type: "result", ...found });
+      return;
+    }
+
+    // A new query with the id of a running one replaces it
+    const controller = new AbortController();
+    const key = id === null ? null : String(id);
+    if (key !== null) {
+      client.running.get(key)?.abort();
+      client.running.set(key, controller);
+    }
+    let response: LatticeResponse;
+    try {
+      response = await this.handleQuery(found.id, { command }, {
+        signal: controller.signal,
+        onProgress: ({ stage, done, total }) => send({ type: "progress", stage, done, total }),
+        onFound: (items) => send({ type: "found", items }),
+        onLog: (line) => send({ type: "log", line }),
+      });
+    } finally {
+      if (key !== null && client.running.get(key) === controller) client.running.delete(key);
+    }
+
+    // Array results went out as "found" items or can be expanded; send the stub
+    if (response.handle) {
+      const { data, ...rest } = response;
+      send({
+        type: "result",
+        ...rest,
+        count: Array.isArray(data) ? data.length : undefined,
+        stub: found.tool.getHandleStub(response.handle),
+      });
+      return;
+    }
+    send({ type: "result", ...response });
+  }
+
+  /**
+   * Run the subscriptions that follow a session whose document was
+   * just loaded or resumed
+   */
+  private refireSubscriptions(sessionId: string): void {
+    for (const subscription of this.subscriptions) {
+      const follows = subscription.sessionId === null
+        ? this.currentSessionId === sessionId
+        : subscription.sessionId === sessionId;
+      if (!follows || !subscription.client.connection.isOpen()) continue;
+      this.runSocketQuery(subscription.client, subscription.id, sessionId, subscription.command, "reload")
+        .catch((err) => console.error(`[Lattice] Subscription ${subscription.id} failed:`, err));
+    }
+  }
 
-    return this.session.tool.execute({ type: "query", command: body.command });
+  private unsubscribe(client: SocketClient, id: MessageId): boolean {
+    for (const subscription of this.subscriptions) {
+      if (subscription.client === client && subscription.id === id) {
+        this.subscriptions.delete(subscription);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private sendSocket(client: SocketClient, id: MessageId, message: Record<string, unknown>): void {
+    client.connection.send(JSON.stringify({ id, ...message }));
   }
 
   /**
    * Handle /close endpoint
    */
-  private handleClose(): LatticeResponse {
-    if (!this.session) {
+  private handleClose(sessionId: string | null): LatticeResponse {
+    if (sessionId === null && this.sessions.size === 0) {
       return { success: true, message: "No active session to close." };
     }
 
-    const info = `Closed session for ${this.session.documentName} (${this.session.queryCount} queries)`;
-    this.closeSession("explicit close");
+    const found = this.findSession(sessionId);
+    if (!("tool" in found)) {
+      return found;
+    }
+
+    const info = `Closed session ${found.id} for ${found.documentName} (${found.queryCount} queries)`;
+    this.closeSession(found.id, "explicit close");
     return { success: true, message: info };
   }
 
   /**
    * Handle request that requires an active session
    */
-  private handleWithSession(fn: (session: Session) => LatticeResponse): LatticeResponse {
-    if (!this.session) {
-      return { success: false, error: "No active session. POST /load first." };
+  private handleWithSession(
+    sessionId: string | null,
+    fn: (session: Session) => LatticeResponse
+  ): LatticeResponse {
+    const found = this.findSession(sessionId);
+    if (!("tool" in found)) {
+      return found;
     }
 
     // Update access time
-    this.session.lastAccessedAt = new Date();
-    this.resetInactivityTimer();
+    found.lastAccessedAt = new Date();
+    this.resetInactivityTimer(found);
 
-    return fn(this.session);
+    return fn(found);
   }
 
   /**
    * Read and parse JSON body
    */
   private readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    const tooLarge = () =>
+      new HttpError(413, `Request body exceeds ${this.maxBodyBytes} bytes`, { Connection: "close" });
+
     return new Promise((resolve, reject) => {
-      let data = "";
+      if (Number(req.headers["content-length"]) > this.maxBodyBytes) {
+        reject(tooLarge());
+        req.resume();
+        return;
+      }
 
-      req.on("data", (chunk) => {
-        data += chunk;
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let rejected = false;
+
+      req.on("data", (chunk: Buffer) => {
+        if (rejected) return;
+        size += chunk.length;
+        if (size > this.maxBodyBytes) {
+          // Keep draining so the 413 reaches the client
+          rejected = true;
+          chunks.length = 0;
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
       });
 
       req.on("end", () => {
+        if (rejected) return;
+        const data = Buffer.concat(chunks).toString("utf-8");
         if (!data) {
           resolve({});
           return;
@@ -382,7 +1094,7 @@ export class HttpAdapter {
         try {
           resolve(JSON.parse(data));
         } catch {
-          reject(new Error("Invalid JSON body"));
+          reject(new HttpError(400, "Invalid JSON body"));
         }
       });
 
@@ -393,8 +1105,12 @@ export class HttpAdapter {
   /**
    * Send a successful response
    */
-  private sendResponse(res: http.ServerResponse, response: LatticeResponse): void {
-    res.writeHead(response.success ? 200 : 400);
+  private sendResponse(
+    res: http.ServerResponse,
+    response: LatticeResponse,
+    failureStatus: number = 400
+  ): void {
+    res.writeHead(response.success ? 200 : failureStatus);
     res.end(JSON.stringify(response, null, 2));
   }
 
@@ -407,10 +1123,11 @@ export class HttpAdapter {
   }
 
   /**
-   * Get the underlying tool (if session exists)
+   * Get the underlying tool of a session (default: the most recently loaded)
    */
-  getTool(): LatticeTool | null {
-    return this.session?.tool ?? null;
+  getTool(sessionId?: string): LatticeTool | null {
+    const id = sessionId ?? this.currentSessionId;
+    return id ? this.sessions.get(id)?.tool ?? null : null;
   }
 
   /**
@@ -421,6 +1138,60 @@ export class HttpAdapter {
   }
 }
 
+/**
+ * Handle from a /handles/:id path segment; "res1" is short for "$res1"
+ */
+function parseHandle(segment: string): string {
+  const handle = decodeURIComponent(segment);
+  return /^res\d+$/.test(handle) ? `$${handle}` : handle;
+}
+
+function clientAddress(req: http.IncomingMessage): string {
+  return req.socket.remoteAddress ?? "unknown";
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Absolute path with symlinks resolved; paths that do not exist yet are
+ * only made absolute
+ */
+function canonicalPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return resolve(path);
+  }
+}
+
+function isWithin(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Parse an optional non-negative integer query parameter (NaN if invalid)
+ */
+function parseCount(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+/**
+ * Parse a CLI flag that must be a positive integer, exiting if it is not.
+ * A NaN limit would compare false everywhere and silently disable it.
+ */
+function parsePositiveFlag(flag: string, value: string): number {
+  const n = parseCount(value) ?? NaN;
+  if (!(n > 0)) {
+    console.error(`[Lattice] ${flag} must be a positive integer, got "${value}"`);
+    process.exit(1);
+  }
+  return n;
+}
+
 /**
  * Create and start an HTTP adapter
  */
@@ -447,22 +1218,54 @@ Options:
   --port <n>      Port to listen on (default: 3456)
   --host <addr>   Host to bind to (default: localhost)
   --timeout <s>   Session timeout in seconds (default: 600)
+  --session-dir <dir>
+                  Save sessions to <dir> so POST /resume can reopen them
   --no-cors       Disable CORS headers
+  --token <t>     Require "Authorization: Bearer <t>" (default: $LATTICE_HTTP_TOKEN)
+  --allow-root <dir>
+                  Only load files under <dir> (repeatable; default: any path)
+  --max-body <bytes>
+                  Largest request body accepted (default: 52428800 = 50 MB)
+  --rate-limit <n>
+                  Requests per minute allowed from one client (default: unlimited)
   --help, -h      Show this help
 
 Session Lifecycle:
-  Sessions auto-expire after --timeout seconds of inactivity.
+  Several sessions can be open at once. Pick one with "session" in the
+  JSON body or ?session=<id>; otherwise the last loaded session is used.
+  Each session auto-expires after --timeout seconds of inactivity.
   Use POST /close to explicitly end a session and free memory.
 
 Endpoints:
-  POST /load      Load a document (starts session)
+  POST /load      Load a document (starts a session, returns its sessionId)
                   Body: {"filePath": "..."} or {"content": "...", "name": "..."}
+                  Optional "session": "<id>" names it (replaces an open one)
+
+  POST /resume    Reopen a saved session (document, RESULTS, query count)
+                  Body: {"sessionId": "session-1718035200000"}
 
   POST /query     Execute Nucleus command (resets timeout)
                   Body: {"command": "(grep \\"pattern\\")"}
+                  Array results are stored as a handle ("handle": "$res1")
+                  "Accept: text/event-stream" streams progress events
+
+  POST /batch     Run Nucleus commands in order in one session
+                  Body: {"commands": ["(grep \\"ERROR\\")", "(count RESULTS)"],
+                         "stopOnError": true}
+                  Returns each step's handle, count and stub, or value
+
+  GET  /handles   List result handles with their size and preview
+
+  GET  /handles/:id
+                  Get a handle's items, e.g. /handles/res1?limit=20&offset=40
+
+  DELETE /handles/:id
+                  Delete a handle
 
   POST /close     Close session and free memory
 
+  GET  /sessions  List open sessions
+
   GET  /status    Get session status (timeout, queries, etc)
 
   GET  /bindings  Get current variable bindings
@@ -475,10 +1278,27 @@ Endpoints:
 
   GET  /health    Health check with session info
 
+  GET  /openapi.json
+                  OpenAPI 3.1 description of this API
+
+  GET  /ws        WebSocket: send LatticeCommand JSON ({"id": 1, "type": "query",
+                  "command": "..."}); receive progress, found, log and result
+                  messages. {"type": "subscribe", "id", "command"} re-runs a
+                  query whenever its session's document reloads
+
+Access Control:
+  Without --token anyone who can reach the port can use the server.
+  GET /health never needs the token. Refused requests get 401 (bad token),
+  403 (path outside --allow-root), 413 (body too large) or 429 (rate
+  limited, with Retry-After), each with {"success": false, "error": "..."}.
+
 Examples:
   # Start server with 5-minute timeout
   lattice-http --port 8080 --timeout 300
 
+  # Shared machine: require a token and only serve the checkout
+  LATTICE_HTTP_TOKEN=secret lattice-http --allow-root . --rate-limit 120
+
   # Load a document
   curl -X POST http://localhost:8080/load \\
     -H "Content-Type: application/json" \\
@@ -500,6 +1320,11 @@ Examples:
   let host = "localhost";
   let cors = true;
   let timeoutSeconds = 600;
+  let sessionDir: string | undefined;
+  let authToken = process.env.LATTICE_HTTP_TOKEN || undefined;
+  const allowedRoots: string[] = [];
+  let maxBodyBytes: number | undefined;
+  let rateLimitPerMinute: number | undefined;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--port" && args[i + 1]) {
@@ -508,8 +1333,18 @@ Examples:
       host = args[++i];
     } else if (args[i] === "--timeout" && args[i + 1]) {
       timeoutSeconds = parseInt(args[++i], 10);
+    } else if (args[i] === "--session-dir" && args[i + 1]) {
+      sessionDir = args[++i];
     } else if (args[i] === "--no-cors") {
       cors = false;
+    } else if (args[i] === "--token" && args[i + 1]) {
+      authToken = args[++i];
+    } else if (args[i] === "--allow-root" && args[i + 1]) {
+      allowedRoots.push(args[++i]);
+    } else if (args[i] === "--max-body" && args[i + 1]) {
+      maxBodyBytes = parsePositiveFlag("--max-body", args[++i]);
+    } else if (args[i] === "--rate-limit" && args[i + 1]) {
+      rateLimitPerMinute = parsePositiveFlag("--rate-limit", args[++i]);
     }
   }
 
@@ -524,7 +1359,17 @@ Examples:
     process.exit(0);
   });
 
-  startHttpAdapter({ port, host, cors, timeoutSeconds }).catch((err) => {
+  startHttpAdapter({
+    port,
+    host,
+    cors,
+    timeoutSeconds,
+    sessionDir,
+    authToken,
+    allowedRoots: allowedRoots.length > 0 ? allowedRoots : undefined,
+    maxBodyBytes,
+    rateLimitPerMinute,
+  }).catch((err) => {
     console.error("Fatal error:", err);
     process.exit(1);
   });
@@ -25,3 +25,5 @@ export {
   startHttpAdapter,
   type HttpAdapterOptions,
 } from "./http.js";
+
+export { createOpenApiSpec } from "./openapi.js";
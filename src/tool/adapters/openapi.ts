@@ -0,0 +1,357 @@
+/**
+ * OpenAPI description of the Lattice HTTP API
+ *
+ * Served by HttpAdapter at GET /openapi.json so clients can be generated.
+ * Keep it in step with the routes in http.ts.
+ */
+
+import { getVersion } from "../../version.js";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * JSON response with a LatticeResponse body whose data has the given schema
+ */
+function respond(description: string, data?: Schema): Schema {
+  const schema = data
+    ? { allOf: [ref("LatticeResponse"), { type: "object", properties: { data } }] }
+    : ref("LatticeResponse");
+  return {
+    description,
+    content: { "application/json": { schema } },
+  };
+}
+
+function jsonBody(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: { ...properties, session: { type: "string", description: "Target session ID" } },
+          ...(required.length > 0 ? { required } : {}),
+        },
+      },
+    },
+  };
+}
+
+const FAILURE = respond("Failed: success is false and error says why");
+
+/**
+ * Refusals any operation can get, depending on the server's options
+ */
+function withAccessErrors(paths: Record<string, Record<string, Schema>>): typeof paths {
+  for (const [path, operations] of Object.entries(paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const responses = operation.responses as Record<string, Schema>;
+      if (path === "/health") {
+        operation.security = [];
+      } else {
+        responses["401"] = respond("Missing or wrong bearer token (server started with --token)");
+      }
+      if (method === "post") {
+        responses["413"] = respond("Request body larger than --max-body");
+      }
+      responses["429"] = respond("Over --rate-limit; Retry-After gives the seconds to wait");
+    }
+  }
+  return paths;
+}
+
+const SESSION_PARAM: Schema = {
+  name: "session",
+  in: "query",
+  required: false,
+  description: "Session ID (default: the most recently loaded session)",
+  schema: { type: "string" },
+};
+
+const HANDLE_PARAM: Schema = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: 'Handle, e.g. "$res1" (URL-encoded) or "res1"',
+  schema: { type: "string" },
+};
+
+/**
+ * Build the OpenAPI 3.1 document for a server at host:port
+ */
+export function createOpenApiSpec(host: string, port: number): Schema {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Lattice HTTP API",
+      version: getVersion(),
+      description:
+        "Stateful document analysis with Nucleus S-expression queries. " +
+        "Every response is a LatticeResponse; failures have success: false.",
+    },
+    servers: [{ url: `http://${host}:${port}` }],
+    security: [{ bearerAuth: [] }],
+    paths: withAccessErrors({
+      "/load": {
+        post: {
+          summary: "Load a document, starting a session",
+          requestBody: jsonBody({
+            filePath: { type: "string", description: "Path of the document on the server" },
+            content: { type: "string", description: "Document text (instead of filePath)" },
+            name: { type: "string", description: 'Name for inline content; "x.json" selects JSON mode' },
+          }),
+          responses: {
+            "200": respond("Loaded", ref("LoadStats")),
+            "400": FAILURE,
+            "403": respond("filePath is outside the --allow-root directories"),
+          },
+        },
+      },
+      "/resume": {
+        post: {
+          summary: "Reopen a saved session (server needs --session-dir)",
+          requestBody: jsonBody({ sessionId: { type: "string" } }, ["sessionId"]),
+          responses: {
+            "200": respond("Resumed", ref("LoadStats")),
+            "400": FAILURE,
+          },
+        },
+      },
+      "/query": {
+        post: {
+          summary: "Execute a Nucleus query",
+          description:
+            "Array results are stored as a handle, returned in `handle`. " +
+            'With "Accept: text/event-stream" the response streams "progress" events ' +
+            'and ends with a "result" event holding the LatticeResponse. ' +
+            "Closing the connection cancels the query.",
+          requestBody: jsonBody({ command: { type: "string", example: '(grep "ERROR")' } }, ["command"]),
+          responses: {
+            "200": {
+              description: "Query result",
+              content: {
+                "application/json": { schema: ref("LatticeResponse") },
+                "text/event-stream": { schema: { type: "string" } },
+              },
+            },
+            "400": FAILURE,
+          },
+        },
+      },
+      "/batch": {
+        post: {
+          summary: "Execute several Nucleus queries in order in one session",
+          description:
+            "Each step sees the previous step's RESULTS. Array results are summarized by " +
+            "handle, count and stub. The response fails when any step did; data still " +
+            "holds the steps that ran. Closing the connection cancels the batch.",
+          requestBody: jsonBody(
+            {
+              commands: { type: "array", items: { type: "string" }, example: ['(grep "ERROR")', "(count RESULTS)"] },
+              stopOnError: { type: "boolean", description: "Stop at the first failed step (default: false)" },
+            },
+            ["commands"]
+          ),
+          responses: {
+            "200": respond("Every step succeeded", { type: "array", items: ref("BatchStep") }),
+            "400": respond("A step failed, or no session", { type: "array", items: ref("BatchStep") }),
+          },
+        },
+      },
+      "/handles": {
+        get: {
+          summary: "List result handles",
+          parameters: [SESSION_PARAM],
+          responses: {
+            "200": respond("Handles", { type: "array", items: ref("HandleInfo") }),
+            "400": FAILURE,
+          },
+        },
+      },
+      "/handles/{id}": {
+        get: {
+          summary: "Get a page of a handle's items",
+          parameters: [
+            HANDLE_PARAM,
+            { name: "limit", in: "query", required: false, schema: { type: "integer", minimum: 0 } },
+            { name: "offset", in: "query", required: false, schema: { type: "integer", minimum: 0 } },
+            SESSION_PARAM,
+          ],
+          responses: {
+            "200": respond("Items", ref("HandlePage")),
+            "400": FAILURE,
+            "404": FAILURE,
+          },
+        },
+        delete: {
+          summary: "Delete a handle (not the one RESULTS points to)",
+          parameters: [HANDLE_PARAM, SESSION_PARAM],
+          responses: {
+            "200": respond("Deleted"),
+            "404": FAILURE,
+          },
+        },
+      },
+      "/close": {
+        post: {
+          summary: "Close a session and free memory",
+          requestBody: { ...jsonBody({}), required: false },
+          responses: { "200": respond("Closed"), "400": FAILURE },
+        },
+      },
+      "/sessions": {
+        get: {
+          summary: "List open sessions",
+          responses: { "200": respond("Sessions", { type: "array", items: ref("SessionStatus") }) },
+        },
+      },
+      "/status": {
+        get: {
+          summary: "Get session status",
+          parameters: [SESSION_PARAM],
+          responses: { "200": respond("Status", ref("SessionStatus")), "400": FAILURE },
+        },
+      },
+      "/bindings": {
+        get: {
+          summary: "Get variable bindings (arrays summarized as Array[n])",
+          parameters: [SESSION_PARAM],
+          responses: { "200": respond("Bindings", { type: "object" }), "400": FAILURE },
+        },
+      },
+      "/reset": {
+        post: {
+          summary: "Clear bindings, keeping the document",
+          requestBody: { ...jsonBody({}), required: false },
+          responses: { "200": respond("Reset"), "400": FAILURE },
+        },
+      },
+      "/stats": {
+        get: {
+          summary: "Get document statistics",
+          parameters: [SESSION_PARAM],
+          responses: { "200": respond("Statistics", { type: "object" }), "400": FAILURE },
+        },
+      },
+      "/help": {
+        get: {
+          summary: "Get the Nucleus command reference (in message)",
+          responses: { "200": respond("Reference") },
+        },
+      },
+      "/health": {
+        get: {
+          summary: "Health check",
+          responses: { "200": respond("Healthy", { type: "object" }) },
+        },
+      },
+      "/ws": {
+        get: {
+          summary: "Open a WebSocket for streaming queries",
+          description:
+            'Send LatticeCommand JSON messages with an optional "id" and "session". ' +
+            'Queries stream "progress", "found" (grep matches) and "log" messages, then a "result"; ' +
+            "array results carry handle, count and stub instead of data. " +
+            '{"type": "subscribe", "id", "command"} re-runs a query whenever its session reloads; ' +
+            '"unsubscribe" and "cancel" take the id.',
+          parameters: [
+            {
+              name: "token",
+              in: "query",
+              required: false,
+              description: "Bearer token, for clients that cannot set headers",
+              schema: { type: "string" },
+            },
+          ],
+          responses: { "101": { description: "Switching Protocols" } },
+        },
+      },
+      "/openapi.json": {
+        get: {
+          summary: "This document",
+          responses: { "200": { description: "OpenAPI document", content: { "application/json": {} } } },
+        },
+      },
+    }),
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "Needed only when the server was started with --token or LATTICE_HTTP_TOKEN",
+        },
+      },
+      schemas: {
+        LatticeResponse: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            data: {},
+            handle: { type: "string", description: "Handle of an array query result" },
+            message: { type: "string" },
+            error: { type: "string" },
+          },
+          required: ["success"],
+        },
+        LoadStats: {
+          type: "object",
+          properties: {
+            length: { type: "integer" },
+            lineCount: { type: "integer" },
+            sessionId: { type: "string" },
+            queryCount: { type: "integer" },
+          },
+        },
+        BatchStep: {
+          type: "object",
+          properties: {
+            command: { type: "string" },
+            success: { type: "boolean" },
+            handle: { type: "string", description: "Handle of an array result" },
+            count: { type: "integer" },
+            stub: { type: "string" },
+            value: { description: "Value of a non-array result" },
+            error: { type: "string" },
+          },
+          required: ["command", "success"],
+        },
+        HandleInfo: {
+          type: "object",
+          properties: {
+            handle: { type: "string", example: "$res1" },
+            count: { type: "integer" },
+            stub: { type: "string" },
+            results: { type: "boolean", description: "Whether RESULTS points at this handle" },
+          },
+        },
+        HandlePage: {
+          type: "object",
+          properties: {
+            handle: { type: "string" },
+            total: { type: "integer" },
+            offset: { type: "integer" },
+            limit: { type: "integer" },
+            items: { type: "array", items: {} },
+          },
+        },
+        SessionStatus: {
+          type: "object",
+          properties: {
+            active: { type: "boolean" },
+            sessionId: { type: "string" },
+            saved: { type: "boolean", description: "Whether the session is saved for resume" },
+            default: { type: "boolean", description: "Whether requests without a session use it" },
+            document: { type: "string" },
+            loaded: { type: "boolean" },
+            ageSeconds: { type: "integer" },
+            idleSeconds: { type: "integer" },
+            timeoutInSeconds: { type: "integer" },
+            queryCount: { type: "integer" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -207,6 +207,7 @@ JSON Mode (default):
     {"type": "load", "filePath": "./file.txt"}
     {"type": "loadContent", "content": "data here", "name": "optional-name"}
     {"type": "query", "command": "(grep \\"pattern\\")"}
+    {"type": "batch", "commands": ["(grep \\"ERROR\\")", "(count RESULTS)"], "stopOnError": true}
     {"type": "bindings"}
     {"type": "reset"}
     {"type": "stats"}
@@ -0,0 +1,341 @@
+/**
+ * Minimal WebSocket (RFC 6455) server side for node:http upgrades
+ *
+ * Covers what JSON messaging needs: text messages (fragmented or not),
+ * ping/pong and the close handshake. Binary messages and extensions
+ * such as permessage-deflate are refused.
+ */
+
+import type * as http from "node:http";
+import type { Duplex } from "node:stream";
+import { createHash } from "node:crypto";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Throws on malformed text instead of substituting U+FFFD */
+const utf8 = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+export const Opcode = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const;
+
+/** Close codes used by the server */
+export const CloseCode = {
+  normal: 1000,
+  goingAway: 1001,
+  protocolError: 1002,
+  unsupportedData: 1003,
+  invalidData: 1007,
+  tooLarge: 1009,
+} as const;
+
+export interface WebSocketFrame {
+  fin: boolean;
+  /** RSV1-3 bits; nonzero only when an extension was negotiated */
+  rsv: number;
+  opcode: number;
+  /** Whether the frame was masked, as every client frame must be */
+  masked: boolean;
+  payload: Buffer;
+}
+
+/** Control frames (close, ping, pong) carry at most 125 bytes */
+const MAX_CONTROL_PAYLOAD = 125;
+
+/** A close frame payload is a 2-byte code and the reason */
+const MAX_CLOSE_REASON_BYTES = MAX_CONTROL_PAYLOAD - 2;
+
+/**
+ * Whether a peer may send this close code (RFC 6455 section 7.4)
+ */
+function isValidCloseCode(code: number): boolean {
+  if (code >= 3000 && code <= 4999) return true;
+  return code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006;
+}
+
+/**
+ * Encode one frame. Clients must pass a 4-byte mask; servers send unmasked.
+ */
+export function encodeFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (length < 126 ? length : length < 65536 ? 126 : 127);
+  if (lengthBytes === 2) {
+    header.writeUInt16BE(length, 2);
+  } else if (lengthBytes === 8) {
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  if (!mask) {
+    return Buffer.concat([header, payload]);
+  }
+
+  mask.copy(header, 2 + lengthBytes);
+  const masked = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    masked[i] = payload[i] ^ mask[i % 4];
+  }
+  return Buffer.concat([header, masked]);
+}
+
+/**
+ * Split a byte stream into frames, unmasking masked payloads
+ */
+export class FrameReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private maxPayload: number = Infinity) {}
+
+  /**
+   * Add received bytes and return the frames they complete.
+   * Throws when a frame announces a payload over maxPayload.
+   */
+  push(chunk: Buffer): WebSocketFrame[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: WebSocketFrame[] = [];
+
+    for (;;) {
+      if (this.buffer.length < 2) break;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) break;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) break;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > this.maxPayload) {
+        throw new Error(`Frame of ${length} bytes exceeds ${this.maxPayload}`);
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) break;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      frames.push({
+        fin: (this.buffer[0] & 0x80) !== 0,
+        rsv: (this.buffer[0] >> 4) & 0x07,
+        opcode: this.buffer[0] & 0x0f,
+        masked,
+        payload,
+      });
+      this.buffer = this.buffer.subarray(offset + length);
+    }
+
+    return frames;
+  }
+}
+
+export interface WebSocketHandlers {
+  /** Largest message accepted, in bytes; bigger ones close with 1009 */
+  maxMessageBytes?: number;
+  onMessage: (text: string) => void;
+  onClose?: () => void;
+}
+
+/**
+ * Accept key for a Sec-WebSocket-Key header
+ */
+export function acceptKey(key: string): string {
+  return createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+}
+
+/**
+ * Answer a WebSocket upgrade request. Returns null (after replying 400)
+ * when it is not a valid version 13 handshake.
+ */
+export function acceptWebSocket(
+  req: http.IncomingMessage,
+  socket: Duplex,
+  handlers: WebSocketHandlers
+): WebSocketConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (
+    req.headers.upgrade?.toLowerCase() !== "websocket" ||
+    req.headers["sec-websocket-version"] !== "13" ||
+    typeof key !== "string"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    return null;
+  }
+
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+    "Upgrade: websocket\r\n" +
+    "Connection: Upgrade\r\n" +
+    `Sec-WebSocket-Accept: ${acceptKey(key)}\r\n\r\n`
+  );
+  return new WebSocketConnection(socket, handlers);
+}
+
+/**
+ * One accepted WebSocket connection
+ */
+export class WebSocketConnection {
+  private reader: FrameReader;
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private maxMessageBytes: number;
+  private closed = false;
+
+  constructor(
+    private socket: Duplex,
+    private handlers: WebSocketHandlers
+  ) {
+    this.maxMessageBytes = handlers.maxMessageBytes ?? Infinity;
+    this.reader = new FrameReader(this.maxMessageBytes);
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+  }
+
+  /**
+   * Whether the connection can still send
+   */
+  isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Send a text message
+   */
+  send(text: string): void {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(Opcode.text, Buffer.from(text, "utf-8")));
+  }
+
+  /**
+   * Start the close handshake; the socket ends once the frame is sent.
+   * A reason over 123 bytes is cut at a character boundary.
+   */
+  close(code: number = CloseCode.normal, reason: string = ""): void {
+    if (this.closed) return;
+    let text = Buffer.from(reason, "utf-8");
+    if (text.length > MAX_CLOSE_REASON_BYTES) {
+      let end = MAX_CLOSE_REASON_BYTES;
+      // Back up over UTF-8 continuation bytes
+      while (end > 0 && (text[end] & 0xc0) === 0x80) end--;
+      text = text.subarray(0, end);
+    }
+    const payload = Buffer.alloc(2 + text.length);
+    payload.writeUInt16BE(code, 0);
+    text.copy(payload, 2);
+    this.socket.end(encodeFrame(Opcode.close, payload));
+    this.finish();
+  }
+
+  private receive(chunk: Buffer): void {
+    let frames: WebSocketFrame[];
+    try {
+      frames = this.reader.push(chunk);
+    } catch {
+      this.close(CloseCode.tooLarge, "Message too large");
+      return;
+    }
+
+    for (const frame of frames) {
+      if (this.closed) return;
+      if (!frame.masked) {
+        this.close(CloseCode.protocolError, "Client frames must be masked");
+        return;
+      }
+      if (frame.rsv !== 0) {
+        this.close(CloseCode.protocolError, "No extension was negotiated");
+        return;
+      }
+      if (frame.opcode >= Opcode.close && (!frame.fin || frame.payload.length > MAX_CONTROL_PAYLOAD)) {
+        this.close(CloseCode.protocolError, "Control frames must be unfragmented and at most 125 bytes");
+        return;
+      }
+      switch (frame.opcode) {
+        case Opcode.text:
+        case Opcode.continuation:
+          this.receiveData(frame);
+          break;
+        case Opcode.ping:
+          this.socket.write(encodeFrame(Opcode.pong, frame.payload));
+          break;
+        case Opcode.pong:
+          break;
+        case Opcode.close:
+          this.receiveClose(frame.payload);
+          break;
+        case Opcode.binary:
+          this.close(CloseCode.unsupportedData, "Binary messages are not supported");
+          break;
+        default:
+          this.close(CloseCode.protocolError, "Unknown opcode");
+      }
+    }
+  }
+
+  private receiveData(frame: WebSocketFrame): void {
+    if ((frame.opcode === Opcode.continuation) !== this.fragments.length > 0) {
+      this.close(CloseCode.protocolError, "Unexpected continuation frame");
+      return;
+    }
+
+    this.fragmentBytes += frame.payload.length;
+    if (this.fragmentBytes > this.maxMessageBytes) {
+      this.close(CloseCode.tooLarge, "Message too large");
+      return;
+    }
+    this.fragments.push(frame.payload);
+    if (!frame.fin) return;
+
+    let text: string;
+    try {
+      text = utf8.decode(Buffer.concat(this.fragments));
+    } catch {
+      this.close(CloseCode.invalidData, "Text messages must be valid UTF-8");
+      return;
+    }
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.handlers.onMessage(text);
+  }
+
+  /**
+   * Answer a close frame with the peer's own code, as RFC 6455 asks
+   */
+  private receiveClose(payload: Buffer): void {
+    if (payload.length === 0) {
+      this.close();
+      return;
+    }
+    const code = payload.length >= 2 ? payload.readUInt16BE(0) : 0;
+    if (!isValidCloseCode(code)) {
+      this.close(CloseCode.protocolError, "Invalid close code");
+      return;
+    }
+    try {
+      utf8.decode(payload.subarray(2));
+    } catch {
+      this.close(CloseCode.invalidData, "Close reasons must be valid UTF-8");
+      return;
+    }
+    this.close(code);
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.handlers.onClose?.();
+  }
+}
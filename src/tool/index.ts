@@ -18,6 +18,7 @@ export {
   formatResponse,
   type LatticeCommand,
   type LatticeResponse,
+  type LatticeToolOptions,
 } from "./lattice-tool.js";
 
 // Adapters
@@ -39,3 +40,5 @@ export {
   startHttpAdapter,
   type HttpAdapterOptions,
 } from "./adapters/http.js";
+
+export { createOpenApiSpec } from "./adapters/openapi.js";
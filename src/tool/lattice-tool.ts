@@ -8,7 +8,11 @@
  * - HTTP server
  */
 
+import { basename } from "node:path";
 import { NucleusEngine, type ExecutionResult } from "../engine/nucleus-engine.js";
+import { HandleSession } from "../engine/handle-session.js";
+import type { SolveOptions } from "../logic/lc-solver.js";
+import { CheckpointManager } from "../persistence/checkpoint.js";
 
 /**
  * Command types supported by the tool
@@ -16,7 +20,12 @@ import { NucleusEngine, type ExecutionResult } from "../engine/nucleus-engine.js
 export type LatticeCommand =
   | { type: "load"; filePath: string }
   | { type: "loadContent"; content: string; name?: string }
+  | { type: "resume"; sessionId: string }
   | { type: "query"; command: string }
+  | { type: "batch"; commands: string[]; stopOnError?: boolean }
+  | { type: "handles" }
+  | { type: "expand"; handle: string; limit?: number; offset?: number }
+  | { type: "deleteHandle"; handle: string }
   | { type: "bindings" }
   | { type: "reset" }
   | { type: "stats" }
@@ -28,23 +37,62 @@ export type LatticeCommand =
 export interface LatticeResponse {
   success: boolean;
   data?: unknown;
+  /** Handle storing an array query result (e.g. "$res1") */
+  handle?: string;
   error?: string;
   message?: string;
 }
 
+/**
+ * One step of a batch: array results are summarized by handle, count
+ * and stub; other results carry the value
+ */
+export interface BatchStep {
+  command: string;
+  success: boolean;
+  handle?: string;
+  count?: number;
+  stub?: string;
+  value?: unknown;
+  error?: string;
+}
+
+/**
+ * Options for creating a LatticeTool
+ */
+export interface LatticeToolOptions {
+  /** Directory for saved sessions; enables the "resume" command */
+  sessionDir?: string;
+  /** ID of the saved session written on load (default: a new ID) */
+  sessionId?: string;
+}
+
 /**
  * LatticeTool - Stateful wrapper around NucleusEngine
  *
  * Maintains state across multiple commands, allowing iterative
- * document exploration using Nucleus query syntax.
+ * document exploration using Nucleus query syntax. Each array result
+ * is stored as a handle ($res1, $res2, ...) that can be listed,
+ * expanded a page at a time and deleted.
+ *
+ * Each loaded document gets a HandleSession, which stores the handles
+ * and checkpoints. With a sessionDir it is written to
+ * `<sessionDir>/<sessionId>.db`, so a later process can continue the
+ * session with { type: "resume", sessionId }; without one it is kept in
+ * memory.
  */
 export class LatticeTool {
   private engine: NucleusEngine;
   private documentPath: string | null = null;
   private documentName: string | null = null;
+  private sessionDir: string | null;
+  private sessionId: string | null;
+  private session: HandleSession | null = null;
 
-  constructor() {
+  constructor(options: LatticeToolOptions = {}) {
     this.engine = new NucleusEngine();
+    this.sessionDir = options.sessionDir ?? null;
+    this.sessionId = options.sessionId ?? null;
   }
 
   /**
@@ -58,9 +106,24 @@ export class LatticeTool {
       case "loadContent":
         return this.loadContent(command.content, command.name);
 
+      case "resume":
+        return this.resume(command.sessionId);
+
       case "query":
         return this.query(command.command);
 
+      case "batch":
+        return this.batch(command.commands, command.stopOnError ?? false);
+
+      case "handles":
+        return this.listHandles();
+
+      case "expand":
+        return this.expand(command.handle, command.limit, command.offset);
+
+      case "deleteHandle":
+        return this.deleteHandle(command.handle);
+
       case "bindings":
         return this.getBindings();
 
@@ -79,29 +142,87 @@ export class LatticeTool {
   }
 
   /**
-   * Execute a command asynchronously (for file loading)
+   * Execute a command asynchronously (for file loading and long queries).
+   * Queries yield to the event loop, report progress through
+   * `options.onProgress` and stop when `options.signal` is aborted.
    */
-  async executeAsync(command: LatticeCommand): Promise<LatticeResponse> {
+  async executeAsync(command: LatticeCommand, options: SolveOptions = {}): Promise<LatticeResponse> {
     if (command.type === "load") {
       return this.loadAsync(command.filePath);
     }
+    if (command.type === "query") {
+      if (!this.session) {
+        return this.query(command.command);
+      }
+      return this.queryResult(command.command, await this.engine.executeAsync(command.command, options));
+    }
+    if (command.type === "batch") {
+      return this.batchAsync(command.commands, command.stopOnError ?? false, options);
+    }
     return this.execute(command);
   }
 
+  /**
+   * Run a batch of queries in order in this session, each seeing the
+   * previous step's RESULTS. With stopOnError the first failure ends it.
+   */
+  private batch(commands: string[], stopOnError: boolean): LatticeResponse {
+    const invalid = checkBatch(commands);
+    if (invalid) return invalid;
+
+    const steps: BatchStep[] = [];
+    for (const command of commands) {
+      const response = this.query(command);
+      steps.push(this.batchStep(command, response));
+      if (!response.success && stopOnError) break;
+    }
+    return this.batchResult(commands, steps);
+  }
+
+  /**
+   * Run a batch without blocking the event loop. A cancelled batch
+   * stops at the step that was running.
+   */
+  private async batchAsync(
+    commands: string[],
+    stopOnError: boolean,
+    options: SolveOptions
+  ): Promise<LatticeResponse> {
+    const invalid = checkBatch(commands);
+    if (invalid) return invalid;
+
+    const steps: BatchStep[] = [];
+    for (const command of commands) {
+      const response = this.session
+        ? this.queryResult(command, await this.engine.executeAsync(command, options))
+        : this.query(command);
+      steps.push(this.batchStep(command, response));
+      if (!response.success && (stopOnError || options.signal?.aborted)) break;
+    }
+    return this.batchResult(commands, steps);
+  }
+
   /**
    * Load a document from file (async)
    */
   async loadAsync(filePath: string): Promise<LatticeResponse> {
     try {
-      await this.engine.loadFile(filePath);
+      const session = this.newSession();
+      try {
+        await session.loadFile(filePath);
+      } catch (err) {
+        session.close();
+        throw err;
+      }
+      this.startSession(session);
       this.documentPath = filePath;
-      this.documentName = filePath.split("/").pop() || filePath;
+      this.documentName = basename(filePath) || filePath;
 
       const stats = this.engine.getStats();
       return {
         success: true,
         message: `Loaded ${this.documentName}: ${stats?.lineCount.toLocaleString()} lines, ${stats?.length.toLocaleString()} chars`,
-        data: stats,
+        data: this.withSessionId(stats),
       };
     } catch (err) {
       return {
@@ -127,7 +248,15 @@ export class LatticeTool {
    */
   private loadContent(content: string, name?: string): LatticeResponse {
     try {
-      this.engine.loadContent(content);
+      const session = this.newSession();
+      try {
+        // A name like "dump.json" selects the JSON document mode
+        session.loadContent(content, name || "inline-document");
+      } catch (err) {
+        session.close();
+        throw err;
+      }
+      this.startSession(session);
       this.documentPath = null;
       this.documentName = name || "inline-document";
 
@@ -135,7 +264,7 @@ export class LatticeTool {
       return {
         success: true,
         message: `Loaded ${this.documentName}: ${stats?.lineCount.toLocaleString()} lines, ${stats?.length.toLocaleString()} chars`,
-        data: stats,
+        data: this.withSessionId(stats),
       };
     } catch (err) {
       return {
@@ -145,19 +274,98 @@ export class LatticeTool {
     }
   }
 
+  /**
+   * Reopen a saved session: document, bindings and query count
+   */
+  private resume(sessionId: string): LatticeResponse {
+    if (!this.sessionDir) {
+      return { success: false, error: "Session persistence is disabled (no sessionDir configured)" };
+    }
+    try {
+      if (!CheckpointManager.hasSession(this.sessionDir, sessionId)) {
+        return { success: false, error: `No saved session "${sessionId}"` };
+      }
+
+      const session = HandleSession.resume(sessionId, this.sessionDir, this.engine);
+      this.useSession(session);
+      const { documentPath, queryCount } = session.getSessionInfo();
+      this.documentPath = documentPath;
+      this.documentName = basename(documentPath);
+
+      const results = this.engine.getBinding("RESULTS");
+      const stats = this.engine.getStats();
+      return {
+        success: true,
+        message: `Resumed ${sessionId}: ${this.documentName} (${queryCount} queries so far)` +
+          (Array.isArray(results) ? `, RESULTS has ${results.length} items` : ""),
+        data: { ...stats, sessionId, queryCount },
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: `Failed to resume ${sessionId}: ${err instanceof Error ? err.message : err}`,
+      };
+    }
+  }
+
+  /**
+   * Open the session for a new document, on this tool's engine
+   */
+  private newSession(): HandleSession {
+    return new HandleSession({
+      engine: this.engine,
+      ...(this.sessionDir ? { sessionDir: this.sessionDir } : {}),
+      ...(this.sessionId ? { sessionId: this.sessionId } : {}),
+    });
+  }
+
+  /**
+   * Switch to a session that just loaded a document. Handles saved
+   * under the same session ID by an earlier load are dropped.
+   */
+  private startSession(session: HandleSession): void {
+    if (session.listHandles().length > 0) {
+      session.reset();
+    }
+    this.useSession(session);
+  }
+
+  /**
+   * Switch to another session, closing the current one
+   */
+  private useSession(session: HandleSession): void {
+    this.session?.close();
+    this.session = session;
+  }
+
+  /**
+   * Add the saved session ID to load stats
+   */
+  private withSessionId(stats: { length: number; lineCount: number } | null): unknown {
+    const sessionId = this.getSessionId();
+    return sessionId && stats ? { ...stats, sessionId } : stats;
+  }
+
   /**
    * Execute a Nucleus query
    */
   private query(command: string): LatticeResponse {
-    if (!this.engine.isLoaded()) {
+    if (!this.session) {
       return {
         success: false,
         error: "No document loaded. Use 'load' first.",
       };
     }
 
-    const result = this.engine.execute(command);
+    return this.queryResult(command, this.engine.execute(command));
+  }
 
+  /**
+   * Record a query result in the session (arrays become a handle and the
+   * new RESULTS) and build its response
+   */
+  private queryResult(command: string, result: ExecutionResult): LatticeResponse {
+    const handle = this.session?.record(command, result).handle;
     if (!result.success) {
       return {
         success: false,
@@ -168,10 +376,47 @@ export class LatticeTool {
     return {
       success: true,
       data: result.value,
+      ...(handle ? { handle } : {}),
       message: this.formatResultMessage(result),
     };
   }
 
+  /**
+   * Summarize a batch step's response
+   */
+  private batchStep(command: string, response: LatticeResponse): BatchStep {
+    if (!response.success) {
+      return { command, success: false, error: response.error };
+    }
+    if (response.handle) {
+      return {
+        command,
+        success: true,
+        handle: response.handle,
+        count: (response.data as unknown[]).length,
+        stub: this.getHandleStub(response.handle) ?? undefined,
+      };
+    }
+    return { command, success: true, value: response.data };
+  }
+
+  /**
+   * Build a batch response; it fails when any step did
+   */
+  private batchResult(commands: string[], steps: BatchStep[]): LatticeResponse {
+    const failed = steps.findIndex((step) => !step.success);
+    const ran = `Ran ${steps.length} of ${commands.length} steps`;
+    if (failed === -1) {
+      return { success: true, data: steps, message: ran };
+    }
+    return {
+      success: false,
+      data: steps,
+      error: `Step ${failed + 1} failed: ${steps[failed].error}`,
+      message: ran,
+    };
+  }
+
   /**
    * Format a result message for display
    */
@@ -197,11 +442,63 @@ export class LatticeTool {
     return `Result: ${JSON.stringify(value)}`;
   }
 
+  /**
+   * List stored handles with their size and stub
+   */
+  private listHandles(): LatticeResponse {
+    if (!this.session) {
+      return { success: false, error: "No document loaded. Use 'load' first." };
+    }
+    const handles = this.session.listHandleSummaries();
+    return {
+      success: true,
+      data: handles,
+      message: handles.length > 0 ? `${handles.length} handles` : "No handles",
+    };
+  }
+
+  /**
+   * Get a page of a handle's items
+   */
+  private expand(handle: string, limit?: number, offset: number = 0): LatticeResponse {
+    if (offset < 0 || (limit !== undefined && limit < 0)) {
+      return { success: false, error: "limit and offset must not be negative" };
+    }
+    const page = this.session?.expand(handle, { limit, offset });
+    if (!page?.success) {
+      return { success: false, error: `Invalid handle: ${handle}` };
+    }
+
+    const total = page.total!;
+    const items = page.data!;
+    return {
+      success: true,
+      data: { handle, total, offset, limit: limit ?? total, items },
+      message: `${handle}: items ${Math.min(offset + 1, total)}-${offset + items.length} of ${total}`,
+    };
+  }
+
+  /**
+   * Delete a handle other than the one RESULTS points to
+   */
+  private deleteHandle(handle: string): LatticeResponse {
+    if (!this.session) {
+      return { success: false, error: `Invalid handle: ${handle}` };
+    }
+    try {
+      this.session.deleteHandle(handle);
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    return { success: true, message: `Deleted ${handle}` };
+  }
+
   /**
    * Get current bindings
    */
   private getBindings(): LatticeResponse {
-    const bindings = this.engine.getBindings();
+    // _sessionDB is the session's database, not a query result
+    const { _sessionDB, ...bindings } = this.engine.getBindings();
     return {
       success: true,
       data: bindings,
@@ -215,7 +512,11 @@ export class LatticeTool {
    * Reset state
    */
   private reset(): LatticeResponse {
-    this.engine.reset();
+    if (this.session) {
+      this.session.reset();
+    } else {
+      this.engine.reset();
+    }
     return {
       success: true,
       message: "State reset (bindings cleared)",
@@ -269,12 +570,34 @@ export class LatticeTool {
     return this.engine;
   }
 
+  /**
+   * Get a handle's one-line stub (null before a document is loaded)
+   */
+  getHandleStub(handle: string): string | null {
+    return this.session ? this.session.getStub(handle) : null;
+  }
+
   /**
    * Get document name
    */
   getDocumentName(): string | null {
     return this.documentName;
   }
+
+  /**
+   * Get the saved session ID (null when sessions are not saved)
+   */
+  getSessionId(): string | null {
+    return this.session?.isPersistent() ? this.session.getSessionId() : null;
+  }
+
+  /**
+   * Release the session's database (a saved file is kept for resume)
+   */
+  close(): void {
+    this.session?.close();
+    this.session = null;
+  }
 }
 
 /**
@@ -369,4 +692,17 @@ export function formatResponse(response: LatticeResponse): string {
   }
 
   return parts.join("\n");
-}
\ No newline at end of file
+}
+
+/**
+ * Error response for a malformed batch, or null
+ */
+function checkBatch(commands: unknown): LatticeResponse | null {
+  if (!Array.isArray(commands) || commands.some((command) => typeof command !== "string")) {
+    return { success: false, error: "'commands' must be an array of Nucleus command strings" };
+  }
+  if (commands.length === 0) {
+    return { success: false, error: "Batch has no commands" };
+  }
+  return null;
+}
@@ -73,6 +73,27 @@ describe("CLI", () => {
       );
       expect(output).toContain("Provider: deepseek");
     });
+
+    it("should accept --trace option", () => {
+      const output = cli(
+        '"query" ./test-fixtures/small.txt --trace run.jsonl --dry-run'
+      );
+      expect(output).toMatch(/Trace: .*run\.jsonl/);
+    });
+
+    it("should accept --replay and --replay-mode options", () => {
+      const output = cli(
+        '"query" ./test-fixtures/small.txt --replay run.json --replay-mode hash --dry-run'
+      );
+      expect(output).toMatch(/Replay: .*run\.json \(hash\)/);
+    });
+
+    it("should reject --record with --replay", () => {
+      const output = cli(
+        '"query" ./test-fixtures/small.txt --record a.json --replay b.json --dry-run'
+      );
+      expect(output).toMatch(/cannot be used together/);
+    });
   });
 
   describe("file handling", () => {
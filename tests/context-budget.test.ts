@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  ContextBudget,
+  describeValue,
+  estimateMessageTokens,
+  estimateTokens,
+} from "../src/context-budget.js";
+import type { ChatMessage } from "../src/llm/types.js";
+
+function buildHistory(turns: number, feedbackSize = 400): ChatMessage[] {
+  const history: ChatMessage[] = [
+    { role: "system", content: "SYSTEM PROMPT" },
+    { role: "user", content: "Query: total sales" },
+  ];
+  for (let turn = 1; turn <= turns; turn++) {
+    history.push({ role: "assistant", content: `(grep "turn${turn}")` });
+    history.push({ role: "user", content: `Turn ${turn} Sandbox execution:\n${"x".repeat(feedbackSize)}` });
+  }
+  return history;
+}
+
+describe("context-budget", () => {
+  describe("estimateTokens", () => {
+    it("should estimate about four characters per token", () => {
+      expect(estimateTokens("")).toBe(0);
+      expect(estimateTokens("abcd")).toBe(1);
+      expect(estimateTokens("abcde")).toBe(2);
+    });
+
+    it("should add per-message overhead", () => {
+      expect(estimateMessageTokens([{ role: "user", content: "abcd" }])).toBe(5);
+    });
+  });
+
+  describe("describeValue", () => {
+    it("should describe arrays by count and scalars by value", () => {
+      expect(describeValue([1, 2, 3])).toBe("3 results");
+      expect(describeValue([1])).toBe("1 result");
+      expect(describeValue(42)).toBe("42");
+      expect(describeValue("short")).toBe('"short"');
+      expect(describeValue({ a: 1 })).toBe("object");
+    });
+  });
+
+  describe("ContextBudget", () => {
+    it("should return the history unchanged when it fits", () => {
+      const history = buildHistory(3);
+      const messages = new ContextBudget(10000).fit(history);
+      expect(messages).toEqual(history);
+      expect(messages).not.toBe(history);
+    });
+
+    it("should keep the system prompt, query and latest turns verbatim", () => {
+      const history = buildHistory(10);
+      const messages = new ContextBudget(500).fit(history);
+
+      expect(estimateMessageTokens(messages)).toBeLessThanOrEqual(500);
+      expect(messages[0]).toEqual(history[0]);
+      expect(messages[1]).toEqual(history[1]);
+      expect(messages[2].content).toMatch(/^\[Turns 1-\d+ were compacted/);
+      expect(messages.slice(-2)).toEqual(history.slice(-2));
+      expect(messages.length).toBeLessThan(history.length);
+    });
+
+    it("should keep the latest turn even when it exceeds the budget", () => {
+      const history = buildHistory(3, 4000);
+      const messages = new ContextBudget(100).fit(history);
+
+      expect(messages).toHaveLength(5);
+      expect(messages[2].content).toContain("[Turns 1-2 were compacted");
+      expect(messages.slice(-2)).toEqual(history.slice(-2));
+    });
+
+    it("should return a single oversized turn unchanged", () => {
+      const history = buildHistory(1, 4000);
+      const messages = new ContextBudget(100).fit(history);
+
+      expect(messages).toEqual(history);
+    });
+
+    it("should summarize commands, bindings and errors of folded turns", () => {
+      const budget = new ContextBudget(500);
+      budget.recordCommand(1, '(grep "sales")', ["a", "b", "c"]);
+      budget.recordBinding("_1", ["a", "b", "c"]);
+      budget.recordBinding("RESULTS", ["a", "b", "c"]);
+      budget.recordError(2, "Parse error in (grep: unexpected end of input");
+      budget.recordError(3, "Parse error in (grep: unexpected end of input");
+      budget.recordCommand(4, "(count RESULTS)", 3);
+      budget.recordError(9, "Turn nine failed");
+
+      const summary = budget.fit(buildHistory(10))[2].content;
+
+      expect(summary).toContain('- Turn 1: (grep "sales") -> 3 results');
+      expect(summary).toContain("- Turn 4: (count RESULTS) -> 3");
+      expect(summary).toContain("- _1: 3 results");
+      expect(summary).toContain("- RESULTS: 3 results");
+      expect(summary.match(/unexpected end of input/g)).toHaveLength(1);
+      // Turn 9 is still in the verbatim window
+      expect(summary).not.toContain("Turn nine failed");
+    });
+  });
+});
@@ -85,6 +85,82 @@ DEBUG: Cache hit ratio: 95%`;
     });
   });
 
+  describe("execute - grouped results", () => {
+    beforeEach(() => {
+      session.loadContent(testDocument);
+    });
+
+    it("should store frequency tables as handles with readable stubs", () => {
+      const result = session.execute(
+        '(frequencies (grep "^\\\\w+:") (lambda x (match x "^(\\\\w+):" 1)))'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.handle).toMatch(/^\$res\d+$/);
+      expect(result.stub).toContain("Groups(4) [ERROR: 3, INFO: 2, WARN: 1, ...]");
+    });
+
+    it("should expand group_by handles to their members", () => {
+      const result = session.execute(
+        '(group_by (grep "timeout") (lambda x (match x "^(\\\\w+):" 1)))'
+      );
+      const expanded = session.expand(result.handle!);
+
+      expect(expanded.data).toHaveLength(1);
+      expect(expanded.data![0]).toMatchObject({ key: "ERROR", count: 2 });
+    });
+  });
+
+  describe("executeAsync", () => {
+    beforeEach(() => {
+      session.loadContent(testDocument);
+    });
+
+    it("should store array results as handles", async () => {
+      const result = await session.executeAsync('(grep "ERROR")');
+
+      expect(result.success).toBe(true);
+      expect(result.handle).toMatch(/^\$res\d+$/);
+      expect(session.execute("(count RESULTS)").value).toBe(3);
+    });
+
+    it("should not create a handle for a cancelled query", async () => {
+      const result = await session.executeAsync('(grep "ERROR")', { signal: AbortSignal.abort() });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Query cancelled");
+      expect(session.listHandles()).toEqual([]);
+    });
+  });
+
+  describe("executeBatch", () => {
+    beforeEach(() => {
+      session.loadContent(testDocument);
+    });
+
+    it("should run queries in order on the same RESULTS", async () => {
+      const results = await session.executeBatch([
+        '(grep "ERROR")',
+        '(filter RESULTS (lambda x (match x "timeout" 0)))',
+        "(count RESULTS)",
+      ]);
+
+      expect(results.map((r) => r.success)).toEqual([true, true, true]);
+      expect(results[0].stub).toContain("Array(3)");
+      expect(results[1].stub).toContain("Array(2)");
+      expect(results[2].value).toBe(2);
+    });
+
+    it("should stop at a failed step when asked", async () => {
+      const commands = ["(bogus", "(count RESULTS)"];
+
+      expect(await session.executeBatch(commands)).toHaveLength(2);
+      const stopped = await session.executeBatch(commands, true);
+      expect(stopped).toHaveLength(1);
+      expect(stopped[0].success).toBe(false);
+    });
+  });
+
   describe("expand - get full data when needed", () => {
     beforeEach(() => {
       session.loadContent(testDocument);
@@ -151,6 +227,14 @@ DEBUG: Cache hit ratio: 95%`;
       expect(bindings["$res1"]).toContain("Array");
     });
 
+    it("should list handle names", () => {
+      session.execute('(grep "ERROR")');
+      session.execute("(count RESULTS)");
+      session.execute('(grep "INFO")');
+
+      expect(session.listHandles()).toEqual(["$res1", "$res2"]);
+    });
+
     it("should indicate current RESULTS binding", () => {
       session.execute('(grep "ERROR")');
 
@@ -202,6 +286,66 @@ DEBUG: Cache hit ratio: 95%`;
     });
   });
 
+  describe("JSON documents", () => {
+    it("should query .json files with jpath and store matches as handles", () => {
+      session.loadContent('{"orders": [{"total": 40}, {"total": 60}]}', "dump.json");
+
+      expect(session.getStats()?.format).toBe("json");
+      const result = session.execute('(jpath "$.orders[*].total")');
+      expect(result.stub).toBe("$res1: Array(2) [$.orders[0].total = 40]");
+      expect(session.execute("(sum RESULTS)").value).toBe(100);
+    });
+
+    it("should load other files as text", () => {
+      session.loadContent(testDocument, "app.log");
+      expect(session.getStats()?.format).toBe("text");
+    });
+  });
+
+  describe("tabular documents", () => {
+    const csv = `region,amount\nwest,1200\neast,800\nwest,2500`;
+
+    it("should store .csv files as a typed table", () => {
+      session.loadContent(csv, "sales.csv");
+
+      expect(session.getTableInfo()).toEqual({
+        columns: [
+          { name: "region", type: "TEXT" },
+          { name: "amount", type: "INTEGER" },
+        ],
+        rowCount: 3,
+      });
+      expect(session.execute('(sum (column (where (= "region" "west")) "amount"))').value).toBe(3700);
+    });
+
+    it("should return where results as a handle of records", () => {
+      session.loadContent(csv, "sales.csv");
+      const result = session.execute('(where (> "amount" 1000))');
+
+      expect(result.handle).toBeDefined();
+      expect(result.stub).toContain("{region, amount}");
+    });
+
+    it("should split .tsv files on tabs", () => {
+      session.loadContent("name\tscore\nada\t9", "scores.tsv");
+      expect(session.getTableInfo()?.columns.map((c) => c.name)).toEqual(["name", "score"]);
+    });
+
+    it("should drop the table when a non-tabular file is loaded", () => {
+      session.loadContent(csv, "sales.csv");
+      session.loadContent(testDocument, "app.log");
+
+      expect(session.getTableInfo()).toBeNull();
+      expect(session.execute('(column "region")').error).toContain("No table loaded");
+    });
+
+    it("should keep table queries working after reset", () => {
+      session.loadContent(csv, "sales.csv");
+      session.reset();
+      expect(session.execute('(count (where (= "region" "east")))').value).toBe(1);
+    });
+  });
+
   describe("reset", () => {
     beforeEach(() => {
       session.loadContent(testDocument);
@@ -218,6 +362,87 @@ DEBUG: Cache hit ratio: 95%`;
     });
   });
 
+  describe("checkpoints", () => {
+    beforeEach(() => {
+      session.loadContent(testDocument);
+    });
+
+    it("should undo the last query", () => {
+      session.execute('(grep "ERROR")');
+      session.execute('(filter RESULTS (lambda x (match x "timeout" 0)))');
+
+      expect(session.undo()).toBe(1);
+
+      expect(session.getBindings()).toEqual({
+        $res1: expect.stringContaining("Array(3)"),
+        RESULTS: "-> $res1",
+      });
+      expect(session.execute("(count RESULTS)").value).toBe(3);
+    });
+
+    it("should undo several queries back to the loaded document", () => {
+      session.execute('(grep "ERROR")');
+      session.execute('(grep "INFO")');
+
+      expect(session.undo(2)).toBe(0);
+      expect(session.getBindings()).toEqual({});
+      expect(() => session.undo()).toThrow("Nothing to undo");
+    });
+
+    it("should not count failed queries", () => {
+      session.execute('(grep "ERROR")');
+      session.execute('(grep "INFO")');
+      session.execute("(unknown-op)");
+
+      expect(session.undo()).toBe(1);
+      expect(session.getBindings().RESULTS).toBe("-> $res1");
+    });
+
+    it("should restore a named checkpoint and branch from it", () => {
+      session.execute('(grep "ERROR")');
+      session.checkpoint("errors");
+      session.execute('(filter RESULTS (lambda x (match x "timeout" 0)))');
+      session.execute('(grep "WARN")');
+
+      expect(session.restore("errors")).toBe(1);
+      const branch = session.execute('(filter RESULTS (lambda x (match x "Database" 0)))');
+
+      expect(branch.stub).toContain("Array(1)");
+      expect(Object.keys(session.getBindings())).toEqual(["$res1", branch.handle, "RESULTS"]);
+      expect(session.listCheckpoints().map((c) => c.turn)).toEqual([0, 1, 2]);
+      expect(() => session.restore("missing")).toThrow('No checkpoint named "missing"');
+    });
+
+    it("should restore turn variables and scalars", () => {
+      session.execute('(grep "ERROR")');
+      session.execute("(count RESULTS)");
+      session.execute('(grep "INFO")');
+
+      session.undo();
+
+      expect(session.execute("(count _1)").value).toBe(3);
+      expect(session.execute("(add _2 1)").value).toBe(4);
+    });
+
+    it("should restore synthesized functions", () => {
+      session.execute('(define-fn "euro" :examples [("€100" 100) ("€250" 250)])');
+      session.execute('(grep "ERROR")');
+
+      session.undo();
+      expect(session.execute('(apply-fn "euro" "€500")').value).toBe(500);
+
+      session.undo(2);
+      expect(session.execute('(apply-fn "euro" "€500")').error).toContain('function "euro" not found');
+    });
+
+    it("should drop checkpoints on reset", () => {
+      session.execute('(grep "ERROR")');
+      session.reset();
+
+      expect(() => session.undo()).toThrow("Nothing to undo");
+    });
+  });
+
   describe("getSessionInfo", () => {
     it("should return session metadata", () => {
       session.loadContent(testDocument, "test.log");
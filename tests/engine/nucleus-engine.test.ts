@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { NucleusEngine, createEngine, createEngineFromContent } from "../../src/engine/nucleus-engine.js";
+import { NucleusEngine, createEngine, createEngineFromContent, formatFromPath } from "../../src/engine/nucleus-engine.js";
 
 const SAMPLE_DOCUMENT = `FATAL: Database connection failed at 10:30:45
 INFO: User logged in successfully
@@ -44,6 +44,40 @@ describe("NucleusEngine", () => {
     });
   });
 
+  describe("document formats", () => {
+    it("should pick the format from the file extension", () => {
+      expect(formatFromPath("dump.json")).toBe("json");
+      expect(formatFromPath("events.JSONL")).toBe("jsonl");
+      expect(formatFromPath("events.ndjson")).toBe("jsonl");
+      expect(formatFromPath("app.log")).toBe("text");
+    });
+
+    it("should parse JSON documents for jpath and keep grep on the text", () => {
+      const jsonEngine = new NucleusEngine();
+      jsonEngine.loadContent('{\n  "items": [{"price": 5}, {"price": 7}]\n}', "json");
+
+      expect(jsonEngine.getFormat()).toBe("json");
+      expect(jsonEngine.execute('(sum (jpath "$.items[*].price"))').value).toBe(12);
+      expect(jsonEngine.execute('(count (grep "price"))').value).toBe(2);
+    });
+
+    it("should load invalid JSON as text", () => {
+      const jsonEngine = new NucleusEngine();
+      jsonEngine.loadContent("{not json", "json");
+
+      expect(jsonEngine.getFormat()).toBe("text");
+      expect(jsonEngine.execute('(jpath "$")').success).toBe(false);
+    });
+
+    it("should treat JSON Lines as an array of lines", () => {
+      const jsonEngine = new NucleusEngine();
+      jsonEngine.loadContent('{"ms": 10}\n{"ms": 30}\nbroken\n', "jsonl");
+
+      expect(jsonEngine.getFormat()).toBe("jsonl");
+      expect(jsonEngine.execute('(avg (jpath "$[*].ms"))').value).toBe(20);
+    });
+  });
+
   describe("grep command", () => {
     it("should find matches with grep", () => {
       const result = engine.execute('(grep "FATAL")');
@@ -274,6 +308,141 @@ describe("NucleusEngine", () => {
     });
   });
 
+  describe("executeAsync", () => {
+    const BIG_DOCUMENT = Array.from({ length: 5000 }, (_, i) =>
+      i % 2 === 0 ? `ERROR request ${i} took ${i}ms` : `INFO request ${i}`
+    ).join("\n");
+
+    beforeEach(() => {
+      engine.loadContent(BIG_DOCUMENT);
+    });
+
+    it("should give the same results as execute", async () => {
+      const asyncResult = await engine.executeAsync('(grep "ERROR")');
+      const syncResult = new NucleusEngine();
+      syncResult.loadContent(BIG_DOCUMENT);
+
+      expect(asyncResult.success).toBe(true);
+      expect(asyncResult.value).toEqual(syncResult.execute('(grep "ERROR")').value);
+      expect((engine.getBinding("RESULTS") as unknown[]).length).toBe(2500);
+    });
+
+    it("should report grep and filter progress", async () => {
+      const progress: Array<{ stage: string; done: number; total: number }> = [];
+      const result = await engine.executeAsync(
+        '(filter (grep "ERROR") (lambda x (match x "took" 0)))',
+        { yieldIntervalMs: 0, onProgress: (p) => progress.push(p) }
+      );
+
+      expect(result.success).toBe(true);
+      expect((result.value as unknown[]).length).toBe(2500);
+      const grep = progress.filter((p) => p.stage === "grep");
+      expect(grep.length).toBeGreaterThan(0);
+      expect(grep[0].total).toBe(5000);
+      expect(grep[grep.length - 1].done).toBeGreaterThan(grep[0].done);
+      expect(progress.some((p) => p.stage === "filter" && p.total === 2500)).toBe(true);
+    });
+
+    it("should pass grep matches and log lines on as they are found", async () => {
+      const batches: unknown[][] = [];
+      const lines: string[] = [];
+      const result = await engine.executeAsync('(count (grep "ERROR"))', {
+        yieldIntervalMs: 0,
+        onFound: (items) => batches.push(items),
+        onLog: (line) => lines.push(line),
+      });
+
+      expect(result.value).toBe(2500);
+      expect(batches.length).toBeGreaterThan(1);
+      expect(batches.flat()).toHaveLength(2500);
+      expect((batches[0][0] as { lineNum: number }).lineNum).toBe(1);
+      expect(lines).toEqual(result.logs);
+    });
+
+    it("should stop a cancelled query and keep the previous bindings", async () => {
+      engine.execute('(grep "INFO")');
+      const controller = new AbortController();
+
+      const result = await engine.executeAsync('(map (grep "ERROR") (lambda x (match x "\\d+" 0)))', {
+        signal: controller.signal,
+        yieldIntervalMs: 0,
+        onProgress: (p) => {
+          if (p.stage === "map") controller.abort();
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Query cancelled");
+      expect((engine.getBinding("RESULTS") as unknown[]).length).toBe(2500);
+      expect((engine.getBinding("RESULTS") as Array<{ line: string }>)[0].line).toContain("INFO");
+    });
+
+    it("should report progress and cancel a grep with no matches", async () => {
+      const large = Array.from({ length: 50000 }, (_, i) => `line ${i} nothing here`).join("\n");
+      engine.loadContent(large);
+      const progress: Array<{ stage: string; done: number }> = [];
+
+      const complete = await engine.executeAsync('(count (grep "NEVER"))', {
+        yieldIntervalMs: 0,
+        onProgress: (p) => progress.push(p),
+      });
+      expect(complete.value).toBe(0);
+      expect(progress.filter((p) => p.stage === "grep").map((p) => p.done)).toEqual([10000, 20000, 30000, 40000, 50000]);
+
+      const controller = new AbortController();
+      const cancelled = await engine.executeAsync('(and (grep "NEVER") true)', {
+        signal: controller.signal,
+        yieldIntervalMs: 0,
+        onProgress: () => controller.abort(),
+      });
+      expect(cancelled.error).toBe("Query cancelled");
+    });
+
+    it("should find matches across grep chunk boundaries", async () => {
+      const large = Array.from({ length: 25000 }, (_, i) => `row ${i + 1}`).join("\n");
+      const sync = new NucleusEngine();
+      sync.loadContent(large);
+      const matches = sync.execute('(grep "^row (9999|10000|10001|20001)$")').value as Array<{
+        lineNum: number;
+        index: number;
+      }>;
+
+      expect(matches.map((m) => m.lineNum)).toEqual([9999, 10000, 10001, 20001]);
+      for (const m of matches) {
+        expect(large.startsWith(`row ${m.lineNum}\n`, m.index)).toBe(true);
+      }
+    });
+
+    it("should find a match spanning lines 10000 and 10001", async () => {
+      const large = Array.from({ length: 25000 }, (_, i) => `row ${i + 1}`).join("\n");
+      const doc = new NucleusEngine();
+      doc.loadContent(large);
+      const result = await doc.executeAsync('(grep "row 10000\\\\nrow 10001$")');
+      const matches = result.value as Array<{ match: string; lineNum: number; index: number }>;
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ match: "row 10000\nrow 10001", lineNum: 10000 });
+      expect(large.startsWith("row 10000\n", matches[0].index)).toBe(true);
+    });
+
+    it("should not start a query whose signal is already aborted", async () => {
+      const result = await engine.executeAsync('(grep "ERROR")', { signal: AbortSignal.abort() });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Query cancelled");
+    });
+
+    it("should run concurrent queries in order", async () => {
+      const [first, second] = await Promise.all([
+        engine.executeAsync('(grep "ERROR")', { yieldIntervalMs: 0 }),
+        engine.executeAsync("(count RESULTS)"),
+      ]);
+
+      expect(first.success).toBe(true);
+      expect(second.value).toBe(2500);
+    });
+  });
+
   describe("command reference", () => {
     it("should return command reference", () => {
       const ref = NucleusEngine.getCommandReference();
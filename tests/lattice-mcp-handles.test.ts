@@ -240,4 +240,80 @@ describe("Lattice MCP Handle-Based Results", () => {
       emptySession.close();
     });
   });
+
+  describe("lattice_resume behavior", () => {
+    it("should restore document, handles and RESULTS from a saved session", async () => {
+      const sessionDir = path.join(tempDir, "sessions");
+      const saved = new HandleSession({ sessionDir });
+      await saved.loadFile(testFile);
+      saved.execute('(grep "ERROR")');
+      saved.execute('(filter RESULTS (lambda x (match x "timeout" 0)))');
+      const sessionId = saved.getSessionId();
+      saved.close();
+
+      const resumed = HandleSession.resume(sessionId, sessionDir);
+      try {
+        const info = resumed.getSessionInfo();
+        expect(info.documentPath).toBe(testFile);
+        expect(info.queryCount).toBe(2);
+        expect(resumed.getBindings().RESULTS).toBe("-> $res2");
+
+        // RESULTS is usable by the next query, and handles keep counting
+        expect(resumed.execute("(count RESULTS)").value).toBe(2);
+        expect(resumed.execute('(grep "INFO")').handle).toBe("$res3");
+      } finally {
+        resumed.close();
+      }
+    });
+
+    it("should restore variables and functions from a saved session", async () => {
+      const sessionDir = path.join(tempDir, "sessions");
+      const saved = new HandleSession({ sessionDir });
+      await saved.loadFile(testFile);
+      saved.execute('(define-fn "euro" :examples [("€100" 100) ("€250" 250)])');
+      saved.execute('(grep "ERROR")');
+      saved.execute("(count RESULTS)");
+      const sessionId = saved.getSessionId();
+      saved.close();
+
+      const resumed = HandleSession.resume(sessionId, sessionDir);
+      try {
+        expect(resumed.execute("(add _3 1)").value).toBe(4);
+        expect(resumed.execute('(apply-fn "euro" "€500")').value).toBe(500);
+
+        // Checkpoints survive too: undo back past the grep
+        resumed.undo(4);
+        expect(resumed.getBindings()).toEqual({});
+      } finally {
+        resumed.close();
+      }
+    });
+
+    it("should restore symbols without re-parsing", async () => {
+      const sessionDir = path.join(tempDir, "sessions");
+      const codeFile = path.join(tempDir, "sample.ts");
+      fs.writeFileSync(codeFile, "function alpha() {}\nfunction beta() {}\n");
+
+      const saved = new HandleSession({ sessionDir });
+      await saved.loadFile(codeFile);
+      const sessionId = saved.getSessionId();
+      saved.close();
+
+      const resumed = HandleSession.resume(sessionId, sessionDir);
+      try {
+        resumed.execute('(list_symbols "function")');
+        expect(resumed.execute("(count RESULTS)").value).toBe(2);
+      } finally {
+        resumed.close();
+      }
+    });
+
+    it("should reject unknown sessions", () => {
+      expect(() => HandleSession.resume("session-404", tempDir)).toThrow('No saved session "session-404"');
+    });
+
+    it("should keep default sessions in memory", () => {
+      expect(session.isPersistent()).toBe(false);
+    });
+  });
 });
@@ -1,8 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
 import {
   createLLMClient,
+  createLLMChatClient,
+  registerProvider,
   createOllamaProvider,
   createDeepSeekProvider,
+  createOpenAIProvider,
   getAvailableProviders,
   createTieredClients,
 } from "../src/llm/index.js";
@@ -14,6 +19,7 @@ describe("LLM Provider System", () => {
       const providers = getAvailableProviders();
       expect(providers).toContain("ollama");
       expect(providers).toContain("deepseek");
+      expect(providers).toContain("openai");
     });
 
     it("should create Ollama client from config", () => {
@@ -142,6 +148,28 @@ describe("LLM Provider System", () => {
         provider.query("test", { provider: "ollama", model: "test" })
       ).rejects.toThrow(/ollama error.*500/i);
     });
+
+    it("should send chat messages to /api/chat", async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        json: async () => ({ message: { role: "assistant", content: "chat response" } }),
+      } as Response);
+
+      const provider = createOllamaProvider({
+        baseUrl: "http://localhost:11434",
+      });
+      const messages = [
+        { role: "system" as const, content: "be brief" },
+        { role: "user" as const, content: "hi" },
+      ];
+      const result = await provider.chat!(messages, { provider: "ollama", model: "test" });
+
+      expect(fetchSpy).toHaveBeenCalledWith("http://localhost:11434/api/chat", expect.anything());
+      const body = JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string);
+      expect(body.messages).toEqual(messages);
+      expect(body).not.toHaveProperty("prompt");
+      expect(result).toBe("chat response");
+    });
   });
 
   describe("DeepSeek Provider", () => {
@@ -191,6 +219,196 @@ describe("LLM Provider System", () => {
         provider.query("test", { provider: "deepseek", model: "test" })
       ).rejects.toThrow(/api key not configured/i);
     });
+
+    it("should send chat messages unchanged", async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "response" } }] }),
+      } as Response);
+
+      const provider = createDeepSeekProvider({
+        baseUrl: "https://api.deepseek.com",
+        apiKey: "test-key",
+      });
+      const messages = [
+        { role: "system" as const, content: "be brief" },
+        { role: "user" as const, content: "hi" },
+        { role: "assistant" as const, content: "hello" },
+        { role: "user" as const, content: "again" },
+      ];
+      await provider.chat!(messages, { provider: "deepseek", model: "deepseek-chat" });
+
+      const body = JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string);
+      expect(body.messages).toEqual(messages);
+    });
+  });
+
+  describe("Chat Client", () => {
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      fetchSpy = vi.spyOn(global, "fetch");
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it("should return an assistant message with merged options", async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        json: async () => ({ message: { content: "{}" } }),
+      } as Response);
+
+      const chat = createLLMChatClient(
+        "ollama",
+        { baseUrl: "http://localhost:11434", options: { temperature: 0.7 } },
+        { model: "qwen3-coder:30b" }
+      );
+      const reply = await chat!([{ role: "user", content: "hi" }], { format: "json" });
+
+      expect(reply).toEqual({ role: "assistant", content: "{}" });
+      const body = JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string);
+      expect(body).toMatchObject({ model: "qwen3-coder:30b", format: "json", options: { temperature: 0.7 } });
+    });
+
+    it("should return null for providers without chat", () => {
+      registerProvider("prompt-only", () => ({
+        name: "prompt-only",
+        query: async () => "",
+      }));
+
+      expect(createLLMChatClient("prompt-only", { baseUrl: "http://localhost" })).toBeNull();
+    });
+  });
+
+  describe("OpenAI-compatible Provider", () => {
+    // A local mock of POST /v1/chat/completions
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: Array<{ headers: http.IncomingHttpHeaders; body: Record<string, unknown> }>;
+    let reply: (body: Record<string, unknown>, res: http.ServerResponse) => void;
+
+    beforeEach(async () => {
+      requests = [];
+      server = http.createServer((req, res) => {
+        let data = "";
+        req.on("data", (chunk) => (data += chunk));
+        req.on("end", () => {
+          if (req.url !== "/v1/chat/completions") {
+            res.writeHead(404).end();
+            return;
+          }
+          const body = JSON.parse(data);
+          requests.push({ headers: req.headers, body });
+          reply(body, res);
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      reply = (_body, res) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ choices: [{ message: { role: "assistant", content: "hello" } }] }));
+      };
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should send a chat completion request with key, headers and options", async () => {
+      const provider = createOpenAIProvider({
+        baseUrl: `${baseUrl}/`,
+        apiKey: "sk-test",
+        headers: { "X-Team": "rlm" },
+      });
+      const result = await provider.query("test prompt", {
+        provider: "openai",
+        model: "qwen2.5-7b-instruct",
+        options: { temperature: 0.5, max_tokens: 256, stop: ["<<<END>>>"], format: "json" },
+      });
+
+      expect(result).toBe("hello");
+      expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+      expect(requests[0].headers["x-team"]).toBe("rlm");
+      expect(requests[0].body).toEqual({
+        model: "qwen2.5-7b-instruct",
+        messages: [{ role: "user", content: "test prompt" }],
+        temperature: 0.5,
+        max_tokens: 256,
+        stop: ["<<<END>>>"],
+        response_format: { type: "json_object" },
+        stream: false,
+      });
+    });
+
+    it("should send chat messages with their roles", async () => {
+      const provider = createOpenAIProvider({ baseUrl });
+      const messages = [
+        { role: "system" as const, content: "be brief" },
+        { role: "user" as const, content: "hi" },
+      ];
+      const result = await provider.chat!(messages, { provider: "openai", model: "test" });
+
+      expect(result).toBe("hello");
+      expect(requests[0].body.messages).toEqual(messages);
+    });
+
+    it("should work without an API key", async () => {
+      const provider = createOpenAIProvider({ baseUrl });
+      await provider.query("test", { provider: "openai", model: "local" });
+
+      expect(requests[0].headers.authorization).toBeUndefined();
+      expect(requests[0].body.max_tokens).toBeUndefined();
+    });
+
+    it("should stream chunks from server-sent events", async () => {
+      reply = (_body, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        for (const piece of ["Hel", "lo", " world"]) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`);
+        }
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: "stop" }] })}\n\n`);
+        res.end("data: [DONE]\n\n");
+      };
+
+      const chunks: string[] = [];
+      const provider = createOpenAIProvider({ baseUrl });
+      const result = await provider.stream!("test", { provider: "openai", model: "local" }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(requests[0].body.stream).toBe(true);
+      expect(chunks).toEqual(["Hel", "lo", " world"]);
+      expect(result).toBe("Hello world");
+    });
+
+    it("should stream through createLLMClient with onChunk", async () => {
+      reply = (_body, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.end(`data: ${JSON.stringify({ choices: [{ delta: { content: "streamed" } }] })}\n\ndata: [DONE]\n\n`);
+      };
+
+      const chunks: string[] = [];
+      const query = createLLMClient("openai", { baseUrl, model: "local" });
+      const result = await query("test", { onChunk: (chunk) => chunks.push(chunk) });
+
+      expect(result).toBe("streamed");
+      expect(chunks).toEqual(["streamed"]);
+      expect(requests[0].body).not.toHaveProperty("onChunk");
+    });
+
+    it("should report server errors with their body", async () => {
+      reply = (_body, res) => {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end('{"error":"model not found"}');
+      };
+
+      const provider = createOpenAIProvider({ baseUrl });
+      await expect(provider.query("test", { provider: "openai", model: "missing" })).rejects.toThrow(
+        /OpenAI-compatible error: 400.*model not found/
+      );
+    });
   });
 
   describe("JSON Format Mode", () => {
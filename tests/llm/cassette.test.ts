@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CassetteRecorder,
+  createReplayClient,
+  hashPrompt,
+  loadCassette,
+} from "../../src/llm/cassette.js";
+import { flattenMessages } from "../../src/llm/messages.js";
+import { runRLMWithTrace } from "../../src/rlm.js";
+
+describe("cassette", () => {
+  const dir = mkdtempSync(join(tmpdir(), "cassette-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("CassetteRecorder", () => {
+    it("should save every call as it happens", async () => {
+      const path = join(dir, "record.json");
+      const recorder = new CassetteRecorder(path);
+      const client = recorder.wrap(vi.fn().mockResolvedValueOnce("one").mockResolvedValueOnce("two"));
+
+      await client("first");
+      expect(loadCassette(path).entries).toHaveLength(1);
+      await client("second");
+
+      expect(loadCassette(path)).toEqual({
+        version: 1,
+        entries: [
+          { hash: hashPrompt("first"), prompt: "first", response: "one" },
+          { hash: hashPrompt("second"), prompt: "second", response: "two" },
+        ],
+      });
+    });
+
+    it("should record chat calls under their flattened prompt", async () => {
+      const recorder = new CassetteRecorder(join(dir, "chat.json"));
+      const chat = recorder.wrapChat(async () => ({ role: "assistant", content: "hi" }));
+      const messages = [
+        { role: "system" as const, content: "be brief" },
+        { role: "user" as const, content: "hello" },
+      ];
+
+      const reply = await chat(messages);
+
+      expect(reply.content).toBe("hi");
+      expect(recorder.entries[0].prompt).toBe("SYSTEM: be brief\n\nUSER: hello");
+      expect(flattenMessages(messages)).toBe(recorder.entries[0].prompt);
+    });
+  });
+
+  describe("createReplayClient", () => {
+    const cassette = {
+      version: 1 as const,
+      entries: [
+        { hash: hashPrompt("a"), prompt: "a", response: "first a" },
+        { hash: hashPrompt("b"), prompt: "b", response: "b" },
+        { hash: hashPrompt("a"), prompt: "a", response: "second a" },
+      ],
+    };
+
+    it("should serve responses in order and fail when exhausted", async () => {
+      const replay = createReplayClient(cassette);
+      expect(await replay("anything")).toBe("first a");
+      expect(await replay("anything")).toBe("b");
+      expect(await replay("anything")).toBe("second a");
+      await expect(replay("anything")).rejects.toThrow(/Cassette exhausted/);
+    });
+
+    it("should serve responses by prompt hash", async () => {
+      const replay = createReplayClient(cassette, "hash");
+      expect(await replay("b")).toBe("b");
+      expect(await replay("a")).toBe("first a");
+      expect(await replay("a")).toBe("second a");
+      expect(await replay("a")).toBe("second a");
+      await expect(replay("c")).rejects.toThrow(/No cassette entry for prompt/);
+    });
+
+    it("should replay the same cassette object more than once", async () => {
+      const snapshot = JSON.stringify(cassette);
+      for (let run = 0; run < 2; run++) {
+        const replay = createReplayClient(cassette, "hash");
+        expect(await replay("a")).toBe("first a");
+        expect(await replay("a")).toBe("second a");
+      }
+      expect(JSON.stringify(cassette)).toBe(snapshot);
+    });
+
+    it("should reject files that are not cassettes", () => {
+      const path = join(dir, "config.json");
+      writeFileSync(path, JSON.stringify({ llm: { provider: "ollama" } }));
+      expect(() => createReplayClient(path)).toThrow(/Not a cassette file/);
+    });
+  });
+
+  describe("replaying runRLM", () => {
+    it("should replay a recorded trajectory without a model", async () => {
+      const run = await runRLMWithTrace(
+        "How many lines mention 'line'?",
+        "./test-fixtures/small.txt",
+        {
+          llmClient: createReplayClient("./test-fixtures/cassettes/small-count-lines.json"),
+          ragEnabled: false,
+        }
+      );
+
+      expect(run.terminationReason).toBe("final_answer");
+      expect(run.answer).toBe("10");
+      expect(run.terms).toEqual(['(grep "line")', "(count RESULTS)"]);
+    });
+
+    it("should replay by hash when the prompts are unchanged", async () => {
+      const path = join(dir, "run.json");
+      const script = ['(grep "line")', "<<<FINAL>>>\nten lines\n<<<END>>>"];
+      let call = 0;
+      const recorder = new CassetteRecorder(path);
+      const options = { ragEnabled: false, maxTurns: 5 };
+
+      const recorded = await runRLMWithTrace("count lines", "./test-fixtures/small.txt", {
+        ...options,
+        llmClient: recorder.wrap(async () => script[call++]),
+      });
+      const replayed = await runRLMWithTrace("count lines", "./test-fixtures/small.txt", {
+        ...options,
+        llmClient: createReplayClient(path, "hash"),
+      });
+
+      expect(replayed.answer).toBe(recorded.answer);
+      expect(replayed.terms).toEqual(recorded.terms);
+    });
+  });
+});
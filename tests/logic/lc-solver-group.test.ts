@@ -0,0 +1,146 @@
+/**
+ * Tests for group_by, frequencies and group_sum
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType } from "../../src/logic/type-inference.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `[auth] ERROR login failed
+[db] ERROR query timeout
+[auth] ERROR token expired
+[api] WARN slow response
+[db] ERROR deadlock
+[auth] INFO login ok
+SALE region=west amount=$1,200
+SALE region=east amount=$300
+SALE region=west amount=$2,500
+SALE amount=$50`;
+
+const service = '(lambda x (match x "^\\\\[(\\\\w+)\\\\]" 1))';
+const region = '(lambda x (match x "region=(\\\\w+)" 1))';
+const amount = '(lambda x (match x "amount=(\\\\S+)" 1))';
+
+describe("LC group_by, frequencies and group_sum", () => {
+  describe("parsing", () => {
+    it("should parse grouping forms", () => {
+      expect(parse(`(group_by RESULTS ${service})`).term?.tag).toBe("group_by");
+      expect(parse(`(group_sum RESULTS ${region} ${amount})`).term?.tag).toBe("group_sum");
+      const freq = parse("(frequencies RESULTS)").term;
+      expect(freq?.tag).toBe("frequencies");
+      if (freq?.tag === "frequencies") {
+        expect(freq.key).toBeUndefined();
+      }
+    });
+
+    it("should reject missing arguments", () => {
+      expect(parse("(group_by RESULTS)").success).toBe(false);
+      expect(parse(`(group_sum RESULTS ${region})`).success).toBe(false);
+    });
+
+    it("should round-trip frequencies through prettyPrint", () => {
+      const source = '(frequencies (grep "ERROR"))';
+      expect(parse(prettyPrint(parse(source).term!)).term).toEqual(parse(source).term);
+    });
+
+    it("should type grouping results as arrays", () => {
+      const result = inferType(parse(`(group_by (grep "ERROR") ${service})`).term!);
+      expect(result.type?.tag).toBe("array");
+    });
+  });
+
+  describe("group_by", () => {
+    it("should partition items in first-seen order", () => {
+      const result = run(`(group_by (grep "ERROR") ${service})`);
+      expect(result.success).toBe(true);
+      const groups = result.value as Array<{ key: string; count: number; items: Array<{ lineNum: number }> }>;
+      expect(groups.map((g) => [g.key, g.count])).toEqual([["auth", 2], ["db", 2]]);
+      expect(groups[0].items.map((i) => i.lineNum)).toEqual([1, 3]);
+    });
+
+    it("should skip items without a key", () => {
+      const result = run(`(group_by (grep "SALE") ${region})`);
+      const groups = result.value as Array<{ key: string; count: number }>;
+      expect(groups.map((g) => g.key)).toEqual(["west", "east"]);
+      expect(result.logs.some((l) => l.includes("skipped 1 items"))).toBe(true);
+    });
+  });
+
+  describe("frequencies", () => {
+    it("should count per key, most frequent first", () => {
+      const result = run(`(frequencies (grep "^\\\\[") ${service})`);
+      expect(result.value).toEqual([
+        { key: "auth", count: 3 },
+        { key: "db", count: 2 },
+        { key: "api", count: 1 },
+      ]);
+    });
+
+    it("should count raw values without a key function", () => {
+      const bindings: Bindings = new Map([["RESULTS", ["a", "b", "a"]]]);
+      expect(run("(frequencies RESULTS)", bindings).value).toEqual([
+        { key: "a", count: 2 },
+        { key: "b", count: 1 },
+      ]);
+    });
+  });
+
+  describe("group_sum", () => {
+    it("should sum currency values per key, largest first", () => {
+      const result = run(`(group_sum (grep "SALE") ${region} ${amount})`);
+      expect(result.value).toEqual([
+        { key: "west", count: 2, sum: 3700 },
+        { key: "east", count: 1, sum: 300 },
+      ]);
+    });
+
+    it("should require a lambda for the value", () => {
+      const result = run(`(group_sum (grep "SALE") ${region} 1)`);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("group_sum: value must be a lambda");
+    });
+  });
+
+  it("should compose with count and let", () => {
+    const result = run(`(let ((g (group_by (grep "ERROR") ${service}))) (count g))`);
+    expect(result.value).toBe(2);
+  });
+});
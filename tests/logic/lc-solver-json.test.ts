@@ -0,0 +1,156 @@
+/**
+ * Tests for JSON document queries (jpath)
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+import { queryJsonPath, parseJsonPath, isPathMatch } from "../../src/logic/json-path.js";
+import { parseJsonLines } from "../../src/logic/structured.js";
+
+const doc = {
+  store: "main",
+  items: [
+    { id: 1, name: "widget", price: 12.5, tags: ["a", "b"] },
+    { id: 2, name: "gadget", price: 30 },
+    { id: 3, name: "gizmo", price: 7.5, meta: { id: 99 } },
+  ],
+  "odd key": { value: true },
+};
+
+function createTools(json: unknown): SolverTools {
+  const context = JSON.stringify(json);
+  return {
+    context,
+    grep: () => [],
+    fuzzy_search: () => [],
+    text_stats: () => ({ length: context.length, lineCount: 1, sample: { start: "", middle: "", end: "" } }),
+    records: () => [],
+    json,
+  };
+}
+
+function run(command: string, json: unknown = doc, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createTools(json), bindings);
+}
+
+describe("JSON documents (jpath)", () => {
+  describe("queryJsonPath", () => {
+    it("should return values with normalized paths", () => {
+      expect(queryJsonPath(doc, "$.items[*].price")).toEqual([
+        { path: "$.items[0].price", value: 12.5 },
+        { path: "$.items[1].price", value: 30 },
+        { path: "$.items[2].price", value: 7.5 },
+      ]);
+    });
+
+    it("should support indexes, negative indexes and bracket keys", () => {
+      expect(queryJsonPath(doc, "$.items[1].name")).toEqual([{ path: "$.items[1].name", value: "gadget" }]);
+      expect(queryJsonPath(doc, "$.items[-1].id")[0].value).toBe(3);
+      expect(queryJsonPath(doc, "$['odd key'].value")).toEqual([{ path: '$["odd key"].value', value: true }]);
+      expect(queryJsonPath(doc, "$.items[5]")).toEqual([]);
+    });
+
+    it("should descend recursively in document order", () => {
+      expect(queryJsonPath(doc, "$..id").map((m) => m.value)).toEqual([1, 2, 3, 99]);
+      expect(queryJsonPath(doc, "$.items[0].tags..*").map((m) => m.path)).toEqual([
+        "$.items[0].tags[0]",
+        "$.items[0].tags[1]",
+      ]);
+    });
+
+    it("should expand object members with wildcards", () => {
+      expect(queryJsonPath(doc, "$.items[2].meta.*")).toEqual([{ path: "$.items[2].meta.id", value: 99 }]);
+    });
+
+    it("should reject malformed paths", () => {
+      expect(() => parseJsonPath("items[0]")).toThrow('must start with "$"');
+      expect(() => parseJsonPath("$.items[")).toThrow("invalid path");
+      expect(() => parseJsonPath("$.items[a]")).toThrow("invalid path");
+    });
+
+    it("should recognise matches but not ordinary records", () => {
+      expect(isPathMatch({ path: "$.a", value: 1 })).toBe(true);
+      expect(isPathMatch({ path: "/api", value: 1 })).toBe(false);
+      expect(isPathMatch({ path: "$.a", value: 1, extra: 2 })).toBe(false);
+    });
+  });
+
+  describe("parseJsonLines", () => {
+    it("should parse each line and count invalid ones", () => {
+      const result = parseJsonLines('{"a":1}\n\nnot json\n{"a":2}\n');
+      expect(result.items).toEqual([{ a: 1 }, { a: 2 }]);
+      expect(result.invalid).toBe(1);
+    });
+  });
+
+  describe("parsing", () => {
+    it("should parse and round-trip jpath", () => {
+      const parsed = parse('(jpath "$.items[*].price")');
+      expect(parsed.term).toEqual({ tag: "jpath", path: "$.items[*].price" });
+      expect(parse(prettyPrint(parsed.term!)).term).toEqual(parsed.term);
+      expect(parse("(jpath)").success).toBe(false);
+    });
+
+    it("should type jpath as an array", () => {
+      const result = inferType(parse('(jpath "$..id")').term!);
+      expect(typeToString(result.type!)).toBe("any[]");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should return matches from the loaded document", () => {
+      const result = run('(jpath "$.items[*].name")');
+      expect(result.success).toBe(true);
+      expect((result.value as Array<{ value: unknown }>).map((m) => m.value)).toEqual(["widget", "gadget", "gizmo"]);
+    });
+
+    it("should aggregate match values", () => {
+      expect(run('(sum (jpath "$.items[*].price"))').value).toBe(50);
+      expect(run('(max (jpath "$..price"))').value).toBe(30);
+      expect(run('(count (jpath "$..id"))').value).toBe(4);
+    });
+
+    it("should give lambdas the value, keeping paths on filtered matches", () => {
+      const result = run('(filter (jpath "$.items[*]") (lambda x (> (get x "price") 10)))');
+      expect((result.value as Array<{ path: string }>).map((m) => m.path)).toEqual(["$.items[0]", "$.items[1]"]);
+
+      const names = run('(map (jpath "$.items[*]") (lambda x (get x "name")))');
+      expect(names.value).toEqual(["widget", "gadget", "gizmo"]);
+    });
+
+    it("should compare scalar values without stringifying them", () => {
+      const result = run('(filter (jpath "$..price") (lambda p (< p 10)))');
+      expect((result.value as Array<{ value: unknown }>)[0].value).toBe(7.5);
+    });
+
+    it("should sort and read columns of matches", () => {
+      const sorted = run('(sort (jpath "$.items[*].price") "desc")');
+      expect((sorted.value as Array<{ value: unknown }>).map((m) => m.value)).toEqual([30, 12.5, 7.5]);
+      expect(run('(column (jpath "$.items[*]") "id")').value).toEqual([1, 2, 3]);
+    });
+
+    it("should query JSON Lines documents as an array", () => {
+      const lines = [{ level: "error" }, { level: "info" }, { level: "error" }];
+      const result = run('(count (filter (jpath "$[*]") (lambda e (= (get e "level") "error"))))', lines);
+      expect(result.value).toBe(2);
+    });
+
+    it("should fail for text documents", () => {
+      const tools = createTools(doc);
+      delete tools.json;
+      const result = solve(parse('(jpath "$.a")').term!, tools, new Map());
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No JSON document loaded");
+    });
+
+    it("should report invalid paths", () => {
+      const result = run('(jpath "$.items[")');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("invalid path");
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for local bindings (let) and sequencing (do)
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `[10:00] INFO: System started
+[10:01] ERROR: Failed to connect to database
+[10:02] INFO: Retry scheduled
+[10:03] ERROR: Connection timeout
+[10:04] ERROR: Request timeout
+[10:05] INFO: Connection established`;
+
+describe("LC let and do", () => {
+  describe("parsing", () => {
+    it("should parse let with sequential bindings", () => {
+      const result = parse('(let ((errs (grep "ERROR")) (n (count errs))) n)');
+      expect(result.success).toBe(true);
+      expect(result.term?.tag).toBe("let");
+      if (result.term?.tag === "let") {
+        expect(result.term.bindings.map((b) => b.name)).toEqual(["errs", "n"]);
+        expect(result.term.bindings[0].value.tag).toBe("grep");
+        expect(result.term.body).toEqual({ tag: "var", name: "n" });
+      }
+    });
+
+    it("should wrap multiple let body terms in do", () => {
+      const result = parse('(let ((x (grep "ERROR"))) (count x) (sum x))');
+      expect(result.success).toBe(true);
+      if (result.term?.tag === "let") {
+        expect(result.term.body.tag).toBe("do");
+      }
+    });
+
+    it("should parse do with several terms", () => {
+      const result = parse('(do (grep "ERROR") (count RESULTS))');
+      expect(result.success).toBe(true);
+      expect(result.term?.tag).toBe("do");
+      if (result.term?.tag === "do") {
+        expect(result.term.terms).toHaveLength(2);
+      }
+    });
+
+    it("should reject let without bindings or body", () => {
+      expect(parse("(let () x)").success).toBe(false);
+      expect(parse('(let ((x (grep "a"))))').success).toBe(false);
+      expect(parse("(do)").success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      const source = '(let ((errs (grep "ERROR"))) (do (lines 1 2) errs))';
+      const printed = prettyPrint(parse(source).term!);
+      expect(parse(printed).term).toEqual(parse(source).term);
+    });
+  });
+
+  describe("type inference", () => {
+    it("should type let body using bound names", () => {
+      const result = inferType(parse('(let ((ls (lines 1 3))) ls)').term!);
+      expect(result.valid).toBe(true);
+      expect(typeToString(result.type!)).toBe("string[]");
+    });
+
+    it("should type do as its last term", () => {
+      const result = inferType(parse('(do (grep "ERROR") (add 1 2))').term!);
+      expect(result.type?.tag).toBe("number");
+    });
+
+    it("should give RESULTS the type of the previous array step", () => {
+      const result = inferType(parse("(do (lines 1 3) RESULTS)").term!);
+      expect(typeToString(result.type!)).toBe("string[]");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should evaluate a let pipeline in one command", () => {
+      const result = run('(let ((errs (grep "ERROR")) (n (count errs))) n)');
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(3);
+    });
+
+    it("should let bindings feed filters", () => {
+      const result = run(
+        '(let ((errs (grep "ERROR")) (timeouts (filter errs (lambda x (match x "timeout" 0))))) (count timeouts))'
+      );
+      expect(result.value).toBe(2);
+    });
+
+    it("should not leak let bindings into the outer scope", () => {
+      const bindings: Bindings = new Map();
+      run('(let ((errs (grep "ERROR"))) (count errs))', bindings);
+      expect(bindings.has("errs")).toBe(false);
+    });
+
+    it("should shadow outer bindings inside let", () => {
+      const bindings: Bindings = new Map([["x", 10]]);
+      const result = run("(let ((x 1)) (add x 1))", bindings);
+      expect(result.value).toBe(2);
+      expect(bindings.get("x")).toBe(10);
+    });
+
+    it("should rebind RESULTS between do steps", () => {
+      const result = run(
+        '(do (grep "ERROR") (filter RESULTS (lambda x (match x "timeout" 0))) (count RESULTS))'
+      );
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(2);
+    });
+
+    it("should keep outer RESULTS unchanged after do", () => {
+      const previous = [{ line: "old", lineNum: 1 }];
+      const bindings: Bindings = new Map([["RESULTS", previous]]);
+      run('(do (grep "ERROR") (count RESULTS))', bindings);
+      expect(bindings.get("RESULTS")).toBe(previous);
+    });
+
+    it("should allow let inside lambdas", () => {
+      const result = run(
+        '(map (grep "ERROR") (lambda x (let ((t (match x "\\\\[(\\\\d+:\\\\d+)\\\\]" 1))) t)))'
+      );
+      expect(result.value).toEqual(["10:01", "10:03", "10:04"]);
+    });
+
+    it("should report unbound names from bindings", () => {
+      const result = run("(let ((a 1)) b)");
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unbound variable: b");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for boolean, comparison and string-test combinators
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType } from "../../src/logic/type-inference.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `ERROR GET /api/orders took 900ms
+ERROR GET /api/users took 120ms
+INFO GET /api/items took 700ms
+WARN POST /api/orders took 650ms
+ERROR POST /health took 30ms`;
+
+function kept(command: string): number[] {
+  const result = run(command);
+  expect(result.success).toBe(true);
+  return (result.value as Array<{ lineNum: number }>).map((r) => r.lineNum);
+}
+
+describe("LC boolean and comparison combinators", () => {
+  describe("parsing", () => {
+    it("should tokenize comparison operators", () => {
+      expect(parse("(> 2 1)").term).toEqual({
+        tag: "compare",
+        op: ">",
+        left: { tag: "lit", value: 2 },
+        right: { tag: "lit", value: 1 },
+      });
+      expect(parse("(>= 2 1)").term).toMatchObject({ op: ">=" });
+      expect(parse("(<= 2 1)").term).toMatchObject({ op: "<=" });
+      expect(parse('(= x "a")').term).toMatchObject({ op: "=" });
+    });
+
+    it("should parse variadic and/or and unary not", () => {
+      const result = parse('(and (contains x "a") (not (starts_with x "b")) (ends_with x "c"))');
+      expect(result.success).toBe(true);
+      if (result.term?.tag === "and") {
+        expect(result.term.terms.map((t) => t.tag)).toEqual(["contains", "not", "ends_with"]);
+      }
+      expect(parse("(or)").success).toBe(false);
+      expect(parse("(> 1)").success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      const source = '(or (> x 500) (not (contains x "ok")) (<= 1 2))';
+      expect(parse(prettyPrint(parse(source).term!)).term).toEqual(parse(source).term);
+    });
+
+    it("should infer boolean", () => {
+      for (const source of ["(and true false)", "(not x)", "(< 1 2)", '(contains "ab" "a")']) {
+        expect(inferType(parse(source).term!).type?.tag).toBe("boolean");
+      }
+    });
+  });
+
+  describe("evaluation in filters", () => {
+    it("should filter with and + numeric comparison on extract", () => {
+      expect(
+        kept('(filter (grep "took") (lambda x (and (match x "ERROR" 0) (> (extract x "took (\\\\d+)ms" 1 "number") 500))))')
+      ).toEqual([1]);
+    });
+
+    it("should compare numeric strings from match numerically", () => {
+      expect(kept('(filter (grep "took") (lambda x (>= (match x "(\\\\d+)ms" 1) 650)))')).toEqual([1, 3, 4]);
+    });
+
+    it("should support or and not", () => {
+      expect(kept('(filter (grep "took") (lambda x (or (starts_with x "warn") (ends_with x "30ms"))))')).toEqual([4, 5]);
+      expect(kept('(filter (grep "took") (lambda x (not (contains x "ERROR"))))')).toEqual([3, 4]);
+    });
+
+    it("should match string tests case-insensitively", () => {
+      expect(kept('(filter (grep "took") (lambda x (contains x "/API/ORDERS")))')).toEqual([1, 4]);
+    });
+
+    it("should treat a missing value as never comparable", () => {
+      expect(kept('(filter (grep "took") (lambda x (< (match x "(\\\\d+)s$" 1) 1000)))')).toEqual([]);
+    });
+  });
+
+  describe("evaluation at the top level", () => {
+    it("should evaluate comparisons and connectives directly", () => {
+      expect(run("(and (> 3 2) (< 1 2))").value).toBe(true);
+      expect(run('(or (= "a" "b") (= 10 "10"))').value).toBe(true);
+      expect(run("(not (>= 1 2))").value).toBe(true);
+    });
+
+    it("should short-circuit and/or", () => {
+      const result = run("(or true (count 5))");
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(true);
+    });
+
+    it("should use bound values in if conditions", () => {
+      const bindings: Bindings = new Map([["n", 12]]);
+      expect(run('(if (> n 10) "big" "small")', bindings).value).toBe("big");
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for multi-line record segmentation (records) and context windows
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { splitRecords, contextWindows } from "../../src/logic/records.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+    records: (pattern: string) => splitRecords(context, pattern),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `app log v2
+2024-01-15 10:00:01 INFO Service started
+2024-01-15 10:00:05 ERROR NullPointerException
+    at com.shop.PaymentService.charge(PaymentService.java:42)
+    at com.shop.Checkout.run(Checkout.java:10)
+
+2024-01-15 10:00:09 ERROR TimeoutException
+    at com.shop.InventoryService.reserve(InventoryService.java:88)
+2024-01-15 10:00:12 INFO Payment took 450ms`;
+
+const recordStart = '(records "^\\\\d{4}-\\\\d{2}-\\\\d{2}")';
+
+describe("splitRecords", () => {
+  it("should split at start-of-record lines with 1-indexed ranges", () => {
+    const records = splitRecords(testContext, "^\\d{4}-\\d{2}-\\d{2}");
+    expect(records.map((r) => [r.startLine, r.endLine])).toEqual([
+      [2, 2],
+      [3, 5],
+      [7, 8],
+      [9, 9],
+    ]);
+    expect(records[1].text).toBe(
+      "2024-01-15 10:00:05 ERROR NullPointerException\n" +
+        "    at com.shop.PaymentService.charge(PaymentService.java:42)\n" +
+        "    at com.shop.Checkout.run(Checkout.java:10)"
+    );
+  });
+
+  it("should drop lines before the first record", () => {
+    const records = splitRecords(testContext, "^\\d{4}");
+    expect(records.some((r) => r.text.includes("app log v2"))).toBe(false);
+  });
+
+  it("should return no records when nothing matches", () => {
+    expect(splitRecords(testContext, "^NOPE")).toEqual([]);
+  });
+});
+
+describe("LC records", () => {
+  it("should parse and round-trip records", () => {
+    const result = parse(recordStart);
+    expect(result.success).toBe(true);
+    expect(result.term?.tag).toBe("records");
+    expect(parse(prettyPrint(result.term!)).term).toEqual(result.term);
+    expect(parse("(records 5)").success).toBe(false);
+  });
+
+  it("should return {text, startLine, endLine} items", () => {
+    const result = run(recordStart);
+    expect(result.success).toBe(true);
+    const records = result.value as Array<{ text: string; startLine: number; endLine: number }>;
+    expect(records).toHaveLength(4);
+    expect(records[2]).toMatchObject({ startLine: 7, endLine: 8 });
+  });
+
+  it("should filter whole records by stack-trace content", () => {
+    const result = run(
+      `(filter ${recordStart} (lambda r (and (match r "Exception" 0) (contains r "PaymentService"))))`
+    );
+    const records = result.value as Array<{ startLine: number }>;
+    expect(records.map((r) => r.startLine)).toEqual([3]);
+  });
+
+  it("should extract from record text with map", () => {
+    const result = run(
+      `(map (filter ${recordStart} (lambda r (match r "ERROR" 0))) (lambda r (match r "at com\\\\.shop\\\\.(\\\\w+)" 1)))`
+    );
+    expect(result.value).toEqual(["PaymentService", "InventoryService"]);
+  });
+
+  it("should rebind RESULTS to records in a pipeline", () => {
+    const bindings: Bindings = new Map();
+    const result = run(`(do ${recordStart} (count RESULTS))`, bindings);
+    expect(result.value).toBe(4);
+  });
+});
+
+describe("contextWindows", () => {
+  const doc = ["l1", "l2", "l3", "l4", "l5", "l6", "l7", "l8", "l9", "l10"].join("\n");
+
+  it("should surround each anchor with n lines", () => {
+    expect(contextWindows(doc, [5], 1)).toEqual([
+      { text: "l4\nl5\nl6", startLine: 4, endLine: 6, lineNum: 5, anchors: [5] },
+    ]);
+  });
+
+  it("should merge overlapping and adjacent windows", () => {
+    const windows = contextWindows(doc, [2, 4, 8], 1);
+    expect(windows.map((w) => [w.startLine, w.endLine, w.anchors])).toEqual([
+      [1, 5, [2, 4]],
+      [7, 9, [8]],
+    ]);
+    expect(contextWindows(doc, [2, 5], 1)).toHaveLength(1);
+  });
+
+  it("should clamp at document edges and dedupe anchors", () => {
+    const windows = contextWindows(doc, [10, 1, 10], 2);
+    expect(windows.map((w) => [w.startLine, w.endLine, w.anchors])).toEqual([
+      [1, 3, [1]],
+      [8, 10, [10]],
+    ]);
+  });
+});
+
+describe("LC context", () => {
+  it("should parse (context coll n) and grep :context", () => {
+    expect(parse('(context (grep "ERROR") 2)').term).toMatchObject({ tag: "context", n: 2 });
+    expect(parse('(grep "ERROR" :context 2)').term).toEqual({ tag: "grep", pattern: "ERROR", context: 2 });
+    expect(parse('(grep "ERROR" :context)').success).toBe(false);
+    expect(parse("(context RESULTS)").success).toBe(false);
+  });
+
+  it("should round-trip through prettyPrint", () => {
+    for (const source of ['(grep "ERROR" :context 3)', '(context (grep "x") 1)']) {
+      expect(parse(prettyPrint(parse(source).term!)).term).toEqual(parse(source).term);
+    }
+  });
+
+  it("should show what led up to each error", () => {
+    const result = run('(grep "TimeoutException" :context 1)');
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual([
+      {
+        text: "\n2024-01-15 10:00:09 ERROR TimeoutException\n    at com.shop.InventoryService.reserve(InventoryService.java:88)",
+        startLine: 6,
+        endLine: 8,
+        lineNum: 7,
+        anchors: [7],
+      },
+    ]);
+  });
+
+  it("should merge windows for nearby hits", () => {
+    const result = run('(context (grep "ERROR") 2)');
+    const windows = result.value as Array<{ startLine: number; endLine: number; anchors: number[] }>;
+    expect(windows).toHaveLength(1);
+    expect(windows[0]).toMatchObject({ startLine: 1, endLine: 9, anchors: [3, 7] });
+  });
+
+  it("should keep the whole window available to filters", () => {
+    const result = run('(filter (context (grep "ERROR") 1) (lambda w (contains w "PaymentService")))');
+    expect((result.value as unknown[]).length).toBe(1);
+  });
+
+  it("should reject items without line numbers", () => {
+    const result = run("(context (lines 1 3) 1)");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("context: items have no line numbers");
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for sort, take, drop and top_k collection operators
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `GET /api/users 200 120ms
+GET /api/orders 500 900ms
+GET /api/items 200 45ms
+POST /api/orders 201 300ms
+GET /health 200 n/a`;
+
+const latency = '(lambda x (match x "(\\\\d+)ms" 1))';
+
+describe("LC sort, take, drop and top_k", () => {
+  describe("parsing", () => {
+    it("should parse sort with defaults", () => {
+      const result = parse('(sort (grep "GET"))');
+      expect(result.success).toBe(true);
+      expect(result.term).toMatchObject({ tag: "sort", direction: "asc" });
+      if (result.term?.tag === "sort") {
+        expect(result.term.key).toBeUndefined();
+      }
+    });
+
+    it("should parse sort with key and direction", () => {
+      const result = parse(`(sort RESULTS ${latency} "desc")`);
+      expect(result.success).toBe(true);
+      if (result.term?.tag === "sort") {
+        expect(result.term.key?.tag).toBe("lambda");
+        expect(result.term.direction).toBe("desc");
+      }
+    });
+
+    it("should parse take, drop and top_k", () => {
+      expect(parse("(take RESULTS 3)").term).toMatchObject({ tag: "take", n: 3 });
+      expect(parse("(drop RESULTS 2)").term).toMatchObject({ tag: "drop", n: 2 });
+      const topK = parse(`(top_k RESULTS 2 ${latency})`).term;
+      expect(topK).toMatchObject({ tag: "top_k", k: 2 });
+    });
+
+    it("should reject invalid arguments", () => {
+      expect(parse('(sort RESULTS "sideways")').success).toBe(false);
+      expect(parse('(take RESULTS "3")').success).toBe(false);
+      expect(parse("(top_k RESULTS)").success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      for (const source of ['(sort (grep "GET") "desc")', "(take RESULTS 2)", "(drop RESULTS 1)", "(top_k RESULTS 3)"]) {
+        const printed = prettyPrint(parse(source).term!);
+        expect(parse(printed).term).toEqual(parse(source).term);
+      }
+    });
+  });
+
+  describe("type inference", () => {
+    it("should keep the collection type", () => {
+      const result = inferType(parse("(take (sort (lines 1 5) \"desc\") 2)").term!);
+      expect(result.valid).toBe(true);
+      expect(typeToString(result.type!)).toBe("string[]");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should sort lines ascending by default", () => {
+      const result = run("(sort (lines 1 3))");
+      expect(result.value).toEqual([
+        "GET /api/items 200 45ms",
+        "GET /api/orders 500 900ms",
+        "GET /api/users 200 120ms",
+      ]);
+    });
+
+    it("should sort by numeric key, not lexically", () => {
+      const result = run(`(map (sort (grep "\\\\d+ms") ${latency}) ${latency})`);
+      expect(result.value).toEqual(["45", "120", "300", "900"]);
+    });
+
+    it("should keep grep result objects when sorting", () => {
+      const result = run(`(sort (grep "GET") ${latency} "desc")`);
+      const items = result.value as Array<{ lineNum: number }>;
+      expect(items.map((r) => r.lineNum)).toEqual([2, 1, 3, 5]);
+    });
+
+    it("should put null keys last in both directions", () => {
+      const asc = run(`(sort (grep "GET") ${latency})`).value as Array<{ lineNum: number }>;
+      expect(asc.map((r) => r.lineNum)).toEqual([3, 1, 2, 5]);
+    });
+
+    it("should be stable for equal keys", () => {
+      const result = run('(sort (grep "GET") (lambda x (match x " (\\\\d{3}) " 1)))');
+      const items = result.value as Array<{ lineNum: number }>;
+      expect(items.map((r) => r.lineNum)).toEqual([1, 3, 5, 2]);
+    });
+
+    it("should take and drop", () => {
+      expect(run("(take (lines 1 5) 2)").value).toHaveLength(2);
+      expect(run("(drop (lines 1 5) 4)").value).toEqual(["GET /health 200 n/a"]);
+      expect(run("(take (lines 1 5) 0)").value).toEqual([]);
+    });
+
+    it("should return the top k by key", () => {
+      const result = run(`(map (top_k (grep "\\\\d+ms") 2 ${latency}) ${latency})`);
+      expect(result.value).toEqual(["900", "300"]);
+    });
+
+    it("should sort RESULTS from a previous turn", () => {
+      const bindings: Bindings = new Map([["RESULTS", [3, 1, 2]]]);
+      expect(run('(sort RESULTS "desc")', bindings).value).toEqual([3, 2, 1]);
+    });
+
+    it("should fail on non-array input", () => {
+      const result = run("(take (add 1 2) 1)");
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("take: expected array");
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for statistical aggregates: min, max, avg, median, percentile, stddev
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `GET /api/users 200 latency=120ms
+GET /api/orders 500 latency=900ms
+GET /api/items 200 latency=45ms
+POST /api/orders 201 latency=300ms
+Revenue: $1,200,000
+Revenue: $800,000`;
+
+const latencies = '(map (grep "latency") (lambda x (match x "latency=(\\\\d+)" 1)))';
+
+describe("LC statistical aggregates", () => {
+  describe("parsing", () => {
+    it("should parse single-collection aggregates", () => {
+      for (const op of ["min", "max", "avg", "median", "stddev"]) {
+        const result = parse(`(${op} RESULTS)`);
+        expect(result.success).toBe(true);
+        expect(result.term?.tag).toBe(op);
+      }
+    });
+
+    it("should parse percentile with p", () => {
+      expect(parse("(percentile RESULTS 95)").term).toMatchObject({ tag: "percentile", p: 95 });
+    });
+
+    it("should reject percentile outside 0-100 or without p", () => {
+      expect(parse("(percentile RESULTS 120)").success).toBe(false);
+      expect(parse("(percentile RESULTS)").success).toBe(false);
+      expect(parse('(percentile RESULTS "95")').success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      for (const source of ['(median (grep "x"))', "(percentile RESULTS 99.9)", "(sum RESULTS)"]) {
+        expect(parse(prettyPrint(parse(source).term!)).term).toEqual(parse(source).term);
+      }
+    });
+  });
+
+  describe("type inference", () => {
+    it("should infer number for aggregates", () => {
+      for (const source of ["(avg RESULTS)", "(percentile (lines 1 3) 50)", "(count RESULTS)"]) {
+        const result = inferType(parse(source).term!);
+        expect(result.valid).toBe(true);
+        expect(result.type?.tag).toBe("number");
+      }
+    });
+
+    it("should mark statistics as nullable, unlike sum and count", () => {
+      const type = (source: string) => typeToString(inferType(parse(source).term!).type!);
+      expect(type("(median RESULTS)")).toBe("number | null");
+      expect(type("(percentile RESULTS 95)")).toBe("number | null");
+      expect(type("(sum RESULTS)")).toBe("number");
+      expect(type("(count RESULTS)")).toBe("number");
+    });
+
+    it("should reject aggregates over scalars", () => {
+      const result = inferType(parse('(max "abc")').term!);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("max expects an array");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should compute min, max, avg and median over extracted strings", () => {
+      expect(run(`(min ${latencies})`).value).toBe(45);
+      expect(run(`(max ${latencies})`).value).toBe(900);
+      expect(run(`(avg ${latencies})`).value).toBe(341.25);
+      expect(run(`(median ${latencies})`).value).toBe(210);
+    });
+
+    it("should answer latency percentiles in one query", () => {
+      const result = run(`(percentile ${latencies} 95)`);
+      expect(result.success).toBe(true);
+      expect(result.value).toBeCloseTo(810);
+    });
+
+    it("should extract currency from grep results like sum", () => {
+      expect(run('(max (grep "Revenue"))').value).toBe(1200000);
+      expect(run('(avg (grep "Revenue"))').value).toBe(1000000);
+    });
+
+    it("should use the first number on a grep line, even with capture groups", () => {
+      // The first number on each latency line is the status code
+      expect(run('(max (grep "latency"))').value).toBe(500);
+      expect(run('(max (grep "latency=(\\\\d+)ms"))').value).toBe(500);
+      expect(run(`(max ${latencies})`).value).toBe(900);
+    });
+
+    it("should compute population stddev", () => {
+      const bindings: Bindings = new Map([["RESULTS", [2, 4, 4, 4, 5, 5, 7, 9]]]);
+      expect(run("(stddev RESULTS)", bindings).value).toBe(2);
+    });
+
+    it("should skip non-numeric items and return null when none remain", () => {
+      const bindings: Bindings = new Map([["RESULTS", ["n/a", "10", null, 30]]]);
+      expect(run("(avg RESULTS)", bindings).value).toBe(20);
+      expect(run('(min (grep "nothing-matches"))').value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for structured field parsing: parse_json, parse_kv, parse_csv_row and get
+ */
+
+import { describe, it, expect } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+import { parseKeyValue, parseCsvRow, getField } from "../../src/logic/structured.js";
+
+// Helper to create mock tools
+function createMockTools(context: string): SolverTools {
+  const lines = context.split("\n");
+  return {
+    context,
+    grep: (pattern: string) => {
+      const regex = new RegExp(pattern, "gmi");
+      const results: Array<{ match: string; line: string; lineNum: number; index: number; groups: string[] }> = [];
+      let match;
+      while ((match = regex.exec(context)) !== null) {
+        const beforeMatch = context.slice(0, match.index);
+        const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+        results.push({
+          match: match[0],
+          line: lines[lineNum - 1] || "",
+          lineNum,
+          index: match.index,
+          groups: match.slice(1),
+        });
+      }
+      return results;
+    },
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: lines.length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+  };
+}
+
+function run(command: string, bindings: Bindings = new Map()) {
+  const parsed = parse(command);
+  expect(parsed.success).toBe(true);
+  return solve(parsed.term!, createMockTools(testContext), bindings);
+}
+
+const testContext = `{"level":"error","service":"payments","latency":950,"user":{"id":7}}
+{"level":"info","service":"auth","latency":120,"user":{"id":8}}
+{"level":"error","service":"auth","latency":40,"user":{"id":9}}
+not json at all
+ts=10:00 level=warn msg="disk almost full" used=91%
+west,"Smith, J",1200
+east,Lee,300`;
+
+describe("structured helpers", () => {
+  it("should parse key=value pairs with quoted values", () => {
+    expect(parseKeyValue('ts=10:00 level=warn msg="disk \\"almost\\" full" empty=')).toEqual({
+      ts: "10:00",
+      level: "warn",
+      msg: 'disk "almost" full',
+      empty: "",
+    });
+    expect(parseKeyValue("no pairs here")).toBeNull();
+  });
+
+  it("should split CSV rows with quotes and escaped quotes", () => {
+    expect(parseCsvRow('a,"b, c","say ""hi""",')).toEqual(["a", "b, c", 'say "hi"', ""]);
+  });
+
+  it("should read dotted paths and indexes", () => {
+    const value = { user: { id: 7 }, items: [{ price: 3 }] };
+    expect(getField(value, "user.id")).toBe(7);
+    expect(getField(value, "items.0.price")).toBe(3);
+    expect(getField(value, "missing.field")).toBeNull();
+    expect(getField(["a", "b"], 1)).toBe("b");
+    expect(getField("text", "length")).toBeNull();
+  });
+});
+
+describe("LC structured parsing", () => {
+  describe("parsing and types", () => {
+    it("should parse the new forms", () => {
+      expect(parse("(parse_json x)").term?.tag).toBe("parse_json");
+      expect(parse("(parse_kv x)").term?.tag).toBe("parse_kv");
+      expect(parse('(parse_csv_row x "region, name ,amount")').term).toMatchObject({
+        columns: ["region", "name", "amount"],
+      });
+      expect(parse('(get x "user.id")').term).toMatchObject({ tag: "get", field: "user.id" });
+      expect(parse("(get x 2)").term).toMatchObject({ tag: "get", field: 2 });
+      expect(parse("(get x)").success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      const source = '(get (parse_csv_row x "a,b") "b")';
+      expect(parse(prettyPrint(parse(source).term!)).term).toEqual(parse(source).term);
+    });
+
+    it("should infer record types", () => {
+      expect(typeToString(inferType(parse("(parse_json x)").term!).type!)).toBe("record");
+      expect(typeToString(inferType(parse('(parse_csv_row x "a,b")').term!).type!)).toBe("{a, b}");
+      const mapped = inferType(parse('(map RESULTS (lambda x (parse_kv x)))').term!);
+      expect(typeToString(mapped.type!)).toBe("record[]");
+    });
+
+    it("should reject get on scalars and unknown known fields", () => {
+      expect(inferType(parse('(get "abc" "x")').term!).error).toContain("get expects a record");
+      expect(inferType(parse('(get (parse_csv_row x "a,b") "c")').term!).error).toContain(
+        'unknown field "c"'
+      );
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should filter JSON lines by a field", () => {
+      const result = run('(filter (grep "level") (lambda x (= (get (parse_json x) "level") "error")))');
+      expect((result.value as Array<{ lineNum: number }>).map((r) => r.lineNum)).toEqual([1, 3]);
+    });
+
+    it("should extract nested fields with map", () => {
+      const result = run('(map (grep "^\\\\{") (lambda x (get (parse_json x) "user.id")))');
+      expect(result.value).toEqual([7, 8, 9]);
+    });
+
+    it("should aggregate a parsed numeric field", () => {
+      const result = run('(avg (map (grep "latency") (lambda x (get (parse_json x) "latency"))))');
+      expect(result.value).toBe(370);
+    });
+
+    it("should return null for unparseable lines", () => {
+      expect(run('(parse_json "not json")').value).toBeNull();
+    });
+
+    it("should parse key=value logs", () => {
+      const result = run('(map (grep "level=") (lambda x (get (parse_kv x) "msg")))');
+      expect(result.value).toEqual(["disk almost full"]);
+    });
+
+    it("should parse CSV rows into records with column names", () => {
+      const result = run('(map (grep "^(west|east),") (lambda x (parse_csv_row x "region,name,amount")))');
+      expect(result.value).toEqual([
+        { region: "west", name: "Smith, J", amount: "1200" },
+        { region: "east", name: "Lee", amount: "300" },
+      ]);
+    });
+
+    it("should pass parsed records from RESULTS straight to lambdas", () => {
+      const bindings: Bindings = new Map([["RESULTS", [{ level: "error" }, { level: "info" }]]]);
+      const result = run('(filter RESULTS (lambda r (= (get r "level") "info")))', bindings);
+      expect(result.value).toEqual([{ level: "info" }]);
+    });
+
+    it("should group by a parsed field", () => {
+      const result = run('(frequencies (grep "service") (lambda x (get (parse_json x) "service")))');
+      expect(result.value).toEqual([
+        { key: "auth", count: 2 },
+        { key: "payments", count: 1 },
+      ]);
+    });
+  });
+});
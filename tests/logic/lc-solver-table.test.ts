@@ -0,0 +1,221 @@
+/**
+ * Tests for tabular queries (where, column) over a CSV table in SessionDB
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { solve, type SolverTools, type Bindings } from "../../src/logic/lc-solver.js";
+import { parse, prettyPrint } from "../../src/logic/lc-parser.js";
+import { inferType, typeToString } from "../../src/logic/type-inference.js";
+import { parseDelimitedTable } from "../../src/logic/structured.js";
+import { SessionDB } from "../../src/persistence/session-db.js";
+
+const csv = `region,customer,amount,discount
+west,Acme Corp,1200,0.1
+east,Globex,800,
+west,Initech,2500,0.25
+north,Umbrella,450,0.05
+east,Acme Labs,1500,0.2`;
+
+function createTools(context: string): SolverTools {
+  return {
+    context,
+    grep: () => [],
+    fuzzy_search: () => [],
+    text_stats: () => ({
+      length: context.length,
+      lineCount: context.split("\n").length,
+      sample: { start: "", middle: "", end: "" },
+    }),
+    records: () => [],
+  };
+}
+
+describe("LC tables (where, column)", () => {
+  let db: SessionDB;
+  let bindings: Bindings;
+
+  function run(command: string) {
+    const parsed = parse(command);
+    expect(parsed.success).toBe(true);
+    return solve(parsed.term!, createTools(csv), bindings);
+  }
+
+  beforeEach(() => {
+    db = new SessionDB();
+    db.loadDocument(csv);
+    const { columns, rows } = parseDelimitedTable(csv);
+    db.loadTable(columns, rows);
+    bindings = new Map();
+    bindings.set("_sessionDB", db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe("parsing", () => {
+    it("should parse where and both column forms", () => {
+      expect(parse('(where (> "amount" 1000))').term).toEqual({
+        tag: "where",
+        predicate: {
+          tag: "compare",
+          op: ">",
+          left: { tag: "lit", value: "amount" },
+          right: { tag: "lit", value: 1000 },
+        },
+      });
+      expect(parse('(column "region")').term).toEqual({ tag: "column", name: "region" });
+      const sourced = parse('(column (where (= "region" "west")) "amount")').term;
+      expect(sourced?.tag === "column" && sourced.source?.tag).toBe("where");
+    });
+
+    it("should reject column without a name", () => {
+      expect(parse("(column RESULTS)").success).toBe(false);
+      expect(parse("(where)").success).toBe(false);
+    });
+
+    it("should round-trip through prettyPrint", () => {
+      for (const source of [
+        '(where (and (= "region" "west") (not (contains "customer" "labs"))))',
+        '(sum (column (where (>= "amount" 500)) "amount"))',
+        '(column "region")',
+      ]) {
+        const printed = prettyPrint(parse(source).term!);
+        expect(parse(printed).term).toEqual(parse(source).term);
+      }
+    });
+  });
+
+  describe("type inference", () => {
+    it("should type where as records and column as an array", () => {
+      expect(typeToString(inferType(parse('(where (> "amount" 1))').term!).type!)).toBe("record[]");
+      expect(typeToString(inferType(parse('(column "region")').term!).type!)).toBe("any[]");
+      expect(inferType(parse('(sum (column "amount"))').term!).type?.tag).toBe("number");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should return matching rows as typed records", () => {
+      const result = run('(where (> "amount" 1000))');
+      expect(result.success).toBe(true);
+      expect(result.value).toEqual([
+        { region: "west", customer: "Acme Corp", amount: 1200, discount: 0.1 },
+        { region: "west", customer: "Initech", amount: 2500, discount: 0.25 },
+        { region: "east", customer: "Acme Labs", amount: 1500, discount: 0.2 },
+      ]);
+    });
+
+    it("should combine predicates and match strings case-insensitively", () => {
+      const result = run('(where (and (starts_with "customer" "acme") (not (= "region" "east"))))');
+      expect((result.value as Array<{ customer: string }>).map((r) => r.customer)).toEqual(["Acme Corp"]);
+
+      const either = run('(where (or (= "region" "north") (< "amount" 900)))');
+      expect((either.value as unknown[]).length).toBe(2);
+    });
+
+    it("should treat LIKE wildcards in string tests literally", () => {
+      const result = run('(where (contains "customer" "%"))');
+      expect(result.value).toEqual([]);
+    });
+
+    it("should read a column, optionally filtered", () => {
+      expect(run('(column "region")').value).toEqual(["west", "east", "west", "north", "east"]);
+      expect(run('(column (where (= "region" "west")) "amount")').value).toEqual([1200, 2500]);
+    });
+
+    it("should read a column from records held in a variable", () => {
+      const result = run('(let ((big (where (> "amount" 1000)))) (column big "customer"))');
+      expect(result.value).toEqual(["Acme Corp", "Initech", "Acme Labs"]);
+    });
+
+    it("should run aggregates as SQL", () => {
+      const result = run('(sum (column (where (= "region" "west")) "amount"))');
+      expect(result.value).toBe(3700);
+      expect(result.logs.some((l) => l.includes("(SQL)"))).toBe(true);
+
+      expect(run('(avg (column "amount"))').value).toBe(1290);
+      expect(run('(max (column "amount"))').value).toBe(2500);
+      expect(run('(min (column (where (= "region" "east")) "amount"))').value).toBe(800);
+      expect(run('(count (where (>= "amount" 800)))').value).toBe(4);
+    });
+
+    it("should skip NULL cells in aggregates", () => {
+      expect(run('(avg (column "discount"))').value).toBeCloseTo(0.15);
+      expect(run('(count (column "discount"))').value).toBe(5);
+    });
+
+    it("should compute median and percentile in memory over the column", () => {
+      expect(run('(median (column "amount"))').value).toBe(1200);
+      expect(run('(percentile (column "amount") 100)').value).toBe(2500);
+    });
+
+    it("should feed table rows into existing collection operations", () => {
+      const result = run('(frequencies (column "region"))');
+      expect(result.value).toEqual([
+        { key: "west", count: 2 },
+        { key: "east", count: 2 },
+        { key: "north", count: 1 },
+      ]);
+    });
+
+    it("should match column names case-insensitively", () => {
+      expect(run('(column "REGION")').value).toEqual(["west", "east", "west", "north", "east"]);
+      expect(run('(count (where (> "Amount" 1000)))').value).toBe(3);
+      expect(run('(sum (column (where (= "Region" "west")) "AMOUNT"))').value).toBe(3700);
+    });
+
+    it("should report unknown columns with the available names", () => {
+      const result = run('(where (> "total" 5))');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown column "total"');
+      expect(result.error).toContain("region, customer, amount, discount");
+    });
+
+    it("should reject predicates that do not name a column", () => {
+      const result = run("(where (> (get x \"amount\") 5))");
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("must name a column");
+    });
+
+    it("should fail when no table is loaded", () => {
+      db.clearTable();
+      const result = run('(column "region")');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No table loaded");
+    });
+  });
+
+  describe("parseDelimitedTable", () => {
+    it("should name columns when the first row has numbers", () => {
+      const table = parseDelimitedTable("a,1\nb,2");
+      expect(table.columns).toEqual(["col1", "col2"]);
+      expect(table.rows).toHaveLength(2);
+    });
+
+    it("should make empty and duplicate header names unique", () => {
+      const table = parseDelimitedTable("name,,name\nx,y,z");
+      expect(table.columns).toEqual(["name", "col2", "name_2"]);
+    });
+
+    it("should dedupe case-insensitively and rename a _row header", () => {
+      const table = parseDelimitedTable("Id,id,_row,ID_2\n1,2,3,4");
+      expect(table.columns).toEqual(["Id", "id_2", "_row_2", "ID_2_2"]);
+
+      const tableDb = new SessionDB();
+      expect(tableDb.loadTable(table.columns, table.rows).map((c) => c.name)).toEqual(table.columns);
+      tableDb.close();
+    });
+
+    it("should handle tables with hundreds of thousands of rows", () => {
+      const big = "a,b\n" + "x,y\n".repeat(300_000) + "x,y,z\n";
+      const table = parseDelimitedTable(big);
+      expect(table.rows).toHaveLength(300_001);
+      expect(table.columns).toEqual(["a", "b", "col3"]);
+    });
+
+    it("should split TSV rows on tabs", () => {
+      const table = parseDelimitedTable("a\tb\n1,5\t2", "\t");
+      expect(table.rows).toEqual([["1,5", "2"]]);
+    });
+  });
+});
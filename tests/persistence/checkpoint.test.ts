@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
 import { CheckpointManager } from "../../src/persistence/checkpoint.js";
 import { HandleRegistry } from "../../src/persistence/handle-registry.js";
 import { SessionDB } from "../../src/persistence/session-db.js";
@@ -88,6 +91,39 @@ describe("CheckpointManager", () => {
       expect(results![0].lineNum).toBe(1);
     });
 
+    it("should delete handles created after the checkpoint", () => {
+      const h1 = registry.store([{ a: 1 }]);
+      registry.setResults(h1);
+      checkpoints.save(1);
+      const h2 = registry.store([{ b: 2 }]);
+      registry.setResults(h2);
+      checkpoints.save(2);
+
+      checkpoints.restore(1);
+
+      expect(registry.listHandles()).toEqual([h1]);
+      expect(registry.getResults()).toBe(h1);
+      expect(checkpoints.listTurns()).toEqual([1]);
+    });
+
+    it("should clear RESULTS when the checkpoint had none", () => {
+      checkpoints.save(0);
+      registry.setResults(registry.store([{ a: 1 }]));
+
+      checkpoints.restore(0);
+
+      expect(registry.getResults()).toBeNull();
+      expect(registry.listHandles()).toEqual([]);
+    });
+
+    it("should save engine variables with the checkpoint", () => {
+      const h1 = registry.store([{ a: 1 }]);
+      checkpoints.save(2, new Map([["_1", h1], ["_2", "42"]]));
+
+      expect(checkpoints.getVariables(2)).toEqual(new Map([["_1", h1], ["_2", "42"]]));
+      expect(checkpoints.getVariables(3)).toBeNull();
+    });
+
     it("should return false for non-existent checkpoint", () => {
       const result = checkpoints.restore(999);
       expect(result).toBe(false);
@@ -172,6 +208,75 @@ describe("CheckpointManager", () => {
 
       expect(checkpoints.getSessionId()).toBe(custom);
     });
+
+    it("should generate distinct IDs in quick succession", () => {
+      const ids = new Set(Array.from({ length: 5 }, () => CheckpointManager.createSessionId()));
+      expect(ids.size).toBe(5);
+    });
+  });
+
+  describe("session files", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true });
+    });
+
+    it("should key database files by session ID", () => {
+      expect(CheckpointManager.sessionPath(tempDir, "session-1")).toBe(path.join(tempDir, "session-1.db"));
+      expect(() => CheckpointManager.sessionPath(tempDir, "../etc/passwd")).toThrow("Invalid session ID");
+    });
+
+    it("should list saved sessions", () => {
+      expect(CheckpointManager.listSessions(path.join(tempDir, "missing"))).toEqual([]);
+
+      const saved = new SessionDB(CheckpointManager.sessionPath(tempDir, "session-2"));
+      saved.close();
+
+      expect(CheckpointManager.hasSession(tempDir, "session-2")).toBe(true);
+      expect(CheckpointManager.hasSession(tempDir, "session-3")).toBe(false);
+      expect(CheckpointManager.listSessions(tempDir)).toEqual(["session-2"]);
+    });
+  });
+
+  describe("named checkpoints", () => {
+    it("should find checkpoints by label", () => {
+      checkpoints.save(1, new Map(), "before-filter");
+      checkpoints.save(2);
+
+      expect(checkpoints.findByLabel("before-filter")).toBe(1);
+      expect(checkpoints.findByLabel("missing")).toBeNull();
+    });
+
+    it("should keep the label when a turn is saved again", () => {
+      checkpoints.save(1, new Map(), "start");
+      checkpoints.save(1);
+
+      expect(checkpoints.getMetadata(1)!.label).toBe("start");
+    });
+
+    it("should move a label to the newest checkpoint", () => {
+      checkpoints.save(1, new Map(), "good");
+      checkpoints.save(2, new Map(), "good");
+
+      expect(checkpoints.findByLabel("good")).toBe(2);
+      expect(checkpoints.getMetadata(1)!.label).toBeNull();
+    });
+
+    it("should list checkpoints with labels", () => {
+      registry.store([{ a: 1 }]);
+      checkpoints.save(0);
+      checkpoints.save(1, new Map(), "one");
+
+      expect(checkpoints.list().map((c) => [c.turn, c.label, c.handleCount])).toEqual([
+        [0, null, 1],
+        [1, "one", 1],
+      ]);
+    });
   });
 
   describe("checkpoint metadata", () => {
@@ -76,6 +76,49 @@ describe("HandleOps", () => {
     });
   });
 
+  describe("aggregate_handle", () => {
+    const latencies = [
+      { line: "GET /a 120ms", lineNum: 1, ms: 120 },
+      { line: "GET /b 45ms", lineNum: 2, ms: 45 },
+      { line: "GET /c 900ms", lineNum: 3, ms: 900 },
+      { line: "GET /d 300ms", lineNum: 4, ms: 300 },
+    ];
+
+    it("should compute min, max, avg and median from lines", () => {
+      const handle = registry.store(latencies);
+
+      expect(ops.aggregate(handle, "min")).toBe(45);
+      expect(ops.aggregate(handle, "max")).toBe(900);
+      expect(ops.aggregate(handle, "avg")).toBe(341.25);
+      expect(ops.aggregate(handle, "median")).toBe(210);
+    });
+
+    it("should compute stddev from a field", () => {
+      const handle = registry.store([{ v: 2 }, { v: 4 }, { v: 4 }, { v: 4 }, { v: 5 }, { v: 5 }, { v: 7 }, { v: 9 }]);
+
+      expect(ops.aggregate(handle, "stddev", "v")).toBe(2);
+    });
+
+    it("should compute interpolated percentiles", () => {
+      const handle = registry.store(latencies);
+
+      expect(ops.percentile(handle, 0, "ms")).toBe(45);
+      expect(ops.percentile(handle, 100, "ms")).toBe(900);
+      expect(ops.percentile(handle, 95, "ms")).toBeCloseTo(810);
+    });
+
+    it("should return null when nothing is numeric", () => {
+      const handle = registry.store([{ line: "no numbers here" }]);
+
+      expect(ops.aggregate(handle, "avg")).toBeNull();
+      expect(ops.percentile(handle, 50)).toBeNull();
+    });
+
+    it("should throw for invalid handle", () => {
+      expect(() => ops.aggregate("$resNOTEXIST", "max")).toThrow("Invalid handle");
+    });
+  });
+
   describe("filter_handle", () => {
     const sampleData = [
       { line: "Error: timeout", lineNum: 1, type: "error" },
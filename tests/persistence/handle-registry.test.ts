@@ -88,6 +88,51 @@ describe("HandleRegistry", () => {
     });
   });
 
+  describe("record stubs", () => {
+    it("should list field names across the first records", () => {
+      const handle = registry.store([
+        { level: "error", service: "auth" },
+        { level: "info", latency: 12 },
+      ]);
+      expect(registry.getStub(handle)).toBe("$res1: Array(2) [{level, service, latency}]");
+    });
+
+    it("should abbreviate long field lists", () => {
+      const handle = registry.store([{ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, g: 7 }]);
+      expect(registry.getStub(handle)).toBe("$res1: Array(1) [{a, b, c, d, e, f, ...}]");
+    });
+  });
+
+  describe("jpath stubs", () => {
+    it("should show the first path and value", () => {
+      const handle = registry.store([
+        { path: "$.items[0].price", value: 12.5 },
+        { path: "$.items[1].price", value: 30 },
+      ]);
+      expect(registry.getStub(handle)).toBe("$res1: Array(2) [$.items[0].price = 12.5]");
+    });
+  });
+
+  describe("group stubs", () => {
+    it("should show key counts for group tables", () => {
+      const handle = registry.store([
+        { key: "auth", count: 3 },
+        { key: "db", count: 2 },
+        { key: "api", count: 1 },
+        { key: "cache", count: 1 },
+      ]);
+      expect(registry.getStub(handle)).toBe("$res1: Groups(4) [auth: 3, db: 2, api: 1, ...]");
+    });
+
+    it("should prefer sums for group_sum tables", () => {
+      const handle = registry.store([
+        { key: "west", count: 2, sum: 4500 },
+        { key: 2024, count: 1, sum: 100 },
+      ]);
+      expect(registry.getStub(handle)).toBe("$res1: Groups(2) [west: 4500, 2024: 100]");
+    });
+  });
+
   describe("context building", () => {
     it("should build context with handle stubs only", () => {
       // Store some data
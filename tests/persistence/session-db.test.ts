@@ -1,4 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import Database from "better-sqlite3";
 import { SessionDB } from "../../src/persistence/session-db.js";
 
 describe("SessionDB", () => {
@@ -159,6 +163,138 @@ Line 5: Final line`;
     });
   });
 
+  describe("table operations", () => {
+    beforeEach(() => {
+      db.loadTable(
+        ["name", "qty", "price"],
+        [
+          ["apple", "3", "1.5"],
+          ["pear", "", "2"],
+          ["fig", "10", "abc"],
+        ]
+      );
+    });
+
+    it("should detect column types from values", () => {
+      expect(db.getTableColumns()).toEqual([
+        { name: "name", type: "TEXT" },
+        { name: "qty", type: "INTEGER" },
+        { name: "price", type: "TEXT" },
+      ]);
+    });
+
+    it("should store empty cells as NULL and numbers as numbers", () => {
+      expect(db.selectRows()).toEqual([
+        { name: "apple", qty: 3, price: "1.5" },
+        { name: "pear", qty: null, price: "2" },
+        { name: "fig", qty: 10, price: "abc" },
+      ]);
+    });
+
+    it("should filter rows and columns with a SQL condition", () => {
+      const where = { sql: `"qty" > ?`, params: [5] };
+      expect(db.selectRows(where).map((r) => r.name)).toEqual(["fig"]);
+      expect(db.selectColumn("name", where)).toEqual(["fig"]);
+      expect(db.countRows(where)).toBe(1);
+    });
+
+    it("should aggregate columns in SQL", () => {
+      expect(db.aggregateColumn("sum", "qty")).toBe(13);
+      expect(db.aggregateColumn("avg", "qty")).toBe(6.5);
+      expect(db.aggregateColumn("sum", "qty", { sql: "0", params: [] })).toBe(0);
+      expect(db.aggregateColumn("max", "qty", { sql: "0", params: [] })).toBeNull();
+    });
+
+    it("should reject unknown columns", () => {
+      expect(() => db.selectColumn("weight")).toThrow('Unknown column "weight"');
+    });
+
+    it("should match column names case-insensitively", () => {
+      expect(db.selectColumn("NAME")).toEqual(["apple", "pear", "fig"]);
+      expect(db.aggregateColumn("sum", "Qty")).toBe(13);
+    });
+
+    it("should keep integers beyond 2^53 exact as TEXT", () => {
+      db.loadTable(["id"], [["9007199254740993"], ["42"]]);
+      expect(db.getTableColumns()).toEqual([{ name: "id", type: "TEXT" }]);
+      expect(db.selectColumn("id")).toEqual(["9007199254740993", "42"]);
+    });
+
+    it("should replace the table on reload and drop it on clear", () => {
+      db.loadTable(["id"], [["1"], ["2.5"]]);
+      expect(db.getTableColumns()).toEqual([{ name: "id", type: "REAL" }]);
+      expect(db.countRows()).toBe(2);
+
+      db.clearTable();
+      expect(db.getTableColumns()).toEqual([]);
+    });
+  });
+
+  describe("file-backed sessions", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "session-db-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true });
+    });
+
+    it("should report in-memory databases as not persistent", () => {
+      expect(db.isPersistent()).toBe(false);
+      expect(db.getPath()).toBe(":memory:");
+    });
+
+    it("should restore document, FTS index, handles and metadata on reopen", () => {
+      const file = path.join(tempDir, "nested", "s1.db");
+      const first = new SessionDB(file);
+      first.loadDocument("alpha error\nbeta\n\ngamma error");
+      first.createHandle([{ a: 1 }]);
+      first.createHandle([{ b: 2 }]);
+      first.setMeta("documentPath", "app.log");
+      first.close();
+
+      const reopened = new SessionDB(file);
+      expect(reopened.isPersistent()).toBe(true);
+      expect(reopened.getDocumentContent()).toBe("alpha error\nbeta\n\ngamma error");
+      expect(reopened.search("error").map((l) => l.lineNum)).toEqual([1, 4]);
+      expect(reopened.getHandleData("$res2")).toEqual([{ b: 2 }]);
+      expect(reopened.getMeta("documentPath")).toBe("app.log");
+      // Handle numbering continues after the saved handles
+      expect(reopened.createHandle([{ c: 3 }])).toBe("$res3");
+      reopened.close();
+    });
+
+    it("should restore table columns on reopen", () => {
+      const file = path.join(tempDir, "s2.db");
+      const first = new SessionDB(file);
+      first.loadTable(["region", "amount"], [["west", "10"]]);
+      first.close();
+
+      const reopened = new SessionDB(file);
+      expect(reopened.getTableColumns()).toEqual([
+        { name: "region", type: "TEXT" },
+        { name: "amount", type: "INTEGER" },
+      ]);
+      expect(reopened.aggregateColumn("sum", "amount")).toBe(10);
+      reopened.close();
+    });
+
+    it("should add checkpoint labels to older session files", () => {
+      const file = path.join(tempDir, "old.db");
+      const old = new Database(file);
+      old.exec("CREATE TABLE checkpoints (turn INTEGER PRIMARY KEY, bindings TEXT NOT NULL, timestamp INTEGER NOT NULL)");
+      old.prepare("INSERT INTO checkpoints VALUES (1, '{}', 1)").run();
+      old.close();
+
+      const reopened = new SessionDB(file);
+      reopened.saveCheckpoint(1, new Map(), "start");
+      expect(reopened.findCheckpoint("start")).toBe(1);
+      reopened.close();
+    });
+  });
+
   describe("cleanup", () => {
     it("should close database connection", () => {
       db.close();
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runRLMWithTrace } from "../src/rlm.js";
+import { createTraceHooks } from "../src/rlm-trace.js";
+
+describe("rlm-trace", () => {
+  const dir = mkdtempSync(join(tmpdir(), "rlm-trace-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write one JSON line per event, ending with the run result", async () => {
+    const path = join(dir, "run.jsonl");
+    const llmClient = vi
+      .fn()
+      .mockResolvedValueOnce('(grep "data")')
+      .mockResolvedValueOnce("<<<FINAL>>>\nprocessed\n<<<END>>>");
+
+    await runRLMWithTrace("test query", "./test-fixtures/small.txt", {
+      llmClient,
+      maxTurns: 5,
+      ...createTraceHooks(path),
+    });
+
+    const lines = readFileSync(path, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines.map((l) => l.event)).toEqual([
+      "turn_start",
+      "llm_response",
+      "term_parsed",
+      "solve_result",
+      "feedback",
+      "turn_start",
+      "llm_response",
+      "final",
+    ]);
+    expect(lines[0]).toMatchObject({ turn: 1, maxTurns: 5, messageCount: 2 });
+    expect(lines[0].tokens).toBeGreaterThan(0);
+    expect(typeof lines[0].time).toBe("string");
+    expect(lines[2]).toMatchObject({ term: '(grep "data")' });
+    expect(lines[7]).toMatchObject({
+      answer: "processed",
+      terminationReason: "final_answer",
+      terms: ['(grep "data")'],
+    });
+    expect(lines[7].turns).toHaveLength(2);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   runRLM,
+  runRLMWithTrace,
   buildSystemPrompt,
   extractCode,
   extractFinalAnswer,
@@ -205,6 +206,107 @@ describe("RLM Executor", () => {
       expect(secondCall).toContain("Turn 1");
     });
 
+    it("should send role-structured messages to llmChat", async () => {
+      const mockChat = vi
+        .fn()
+        .mockResolvedValueOnce({ role: "assistant", content: '(grep "data")' })
+        .mockResolvedValueOnce({ role: "assistant", content: "<<<FINAL>>>\nprocessed\n<<<END>>>" });
+
+      const result = await runRLM("test query", "./test-fixtures/small.txt", {
+        llmClient: mockLLM,
+        llmChat: mockChat,
+        maxTurns: 5,
+      });
+
+      expect(result).toBe("processed");
+      expect(mockLLM).not.toHaveBeenCalled();
+      const [messages] = mockChat.mock.calls[1];
+      expect(messages.map((m: { role: string }) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+      expect(messages[1].content).toContain("Query: test query");
+      expect(messages[2].content).toBe('(grep "data")');
+      expect(messages[3].content).toContain("Turn 1");
+    });
+
+    it("should compact older turns beyond contextBudget", async () => {
+      mockLLM
+        .mockResolvedValueOnce('(grep "test" "extra_arg")')
+        .mockResolvedValueOnce('(grep "data")')
+        .mockResolvedValueOnce('(grep "test")')
+        .mockResolvedValueOnce("<<<FINAL>>>\ndone\n<<<END>>>");
+
+      const result = await runRLM("test query", "./test-fixtures/small.txt", {
+        llmClient: mockLLM,
+        maxTurns: 5,
+        contextBudget: 100,
+      });
+
+      expect(result).toBe("done");
+      const lastPrompt: string = mockLLM.mock.calls[3][0];
+      expect(lastPrompt).toMatch(/^SYSTEM: /);
+      expect(lastPrompt).toContain("Query: test query");
+      expect(lastPrompt).toContain("[Turns 1-2 were compacted");
+      expect(lastPrompt).toContain("Errors already seen");
+      expect(lastPrompt).toContain('- Turn 2: (grep "data") ->');
+      expect(lastPrompt).toContain('ASSISTANT: (grep "test")');
+      expect(lastPrompt).not.toContain('ASSISTANT: (grep "data")');
+    });
+
+    it("should return a structured trace and fire hooks in order", async () => {
+      mockLLM
+        .mockResolvedValueOnce('(grep "data")')
+        .mockResolvedValueOnce("<<<FINAL>>>\nprocessed\n<<<END>>>");
+      const events: string[] = [];
+
+      const result = await runRLMWithTrace("test query", "./test-fixtures/small.txt", {
+        llmClient: mockLLM,
+        maxTurns: 5,
+        onTurnStart: (e) => events.push(`turn_start ${e.turn} ${e.messages.length}`),
+        onLLMResponse: (e) => events.push(`llm_response ${e.turn}`),
+        onTermParsed: (e) => events.push(`term_parsed ${e.term}`),
+        onSolveResult: (e) => events.push(`solve_result ${e.success}`),
+        onFeedback: (e) => events.push(`feedback ${e.turn}`),
+        onFinal: (r) => events.push(`final ${r.terminationReason}`),
+      });
+
+      expect(events).toEqual([
+        "turn_start 1 2",
+        "llm_response 1",
+        'term_parsed (grep "data")',
+        "solve_result true",
+        "feedback 1",
+        "turn_start 2 4",
+        "llm_response 2",
+        "final final_answer",
+      ]);
+      expect(result.answer).toBe("processed");
+      expect(result.terminationReason).toBe("final_answer");
+      expect(result.terms).toEqual(['(grep "data")']);
+      expect(result.turns).toHaveLength(2);
+      expect(result.turns[0]).toMatchObject({
+        turn: 1,
+        messageCount: 2,
+        response: '(grep "data")',
+        term: '(grep "data")',
+        solve: { success: true },
+      });
+      expect(result.turns[0].feedback[0]).toContain("Turn 1 Sandbox execution");
+      expect(result.turns[1].term).toBeUndefined();
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should report max_turns as the termination reason", async () => {
+      mockLLM.mockResolvedValue("no code here");
+
+      const result = await runRLMWithTrace("test query", "./test-fixtures/small.txt", {
+        llmClient: mockLLM,
+        maxTurns: 2,
+      });
+
+      expect(result.terminationReason).toBe("max_turns");
+      expect(result.turns).toHaveLength(2);
+      expect(result.terms).toEqual([]);
+    });
+
     it("should stop at maxTurns", async () => {
       mockLLM.mockResolvedValue('(grep "loop")');
 
@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { HttpAdapter } from "../../src/tool/adapters/http.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import * as http from "node:http";
+import { randomBytes } from "node:crypto";
+import { HttpAdapter, type HttpAdapterOptions } from "../../src/tool/adapters/http.js";
+import { FrameReader, Opcode, encodeFrame } from "../../src/tool/adapters/websocket.js";
 
 describe("HttpAdapter", () => {
   let adapter: HttpAdapter;
@@ -177,6 +183,10 @@ describe("HttpAdapter", () => {
       const bindingsResponse = await fetch(`http://localhost:${port}/bindings`);
       const bindingsData = await bindingsResponse.json();
       expect(bindingsData.message).toBe("No bindings");
+
+      // Handles go too
+      const handlesResponse = await fetch(`http://localhost:${port}/handles`);
+      expect((await handlesResponse.json()).data).toEqual([]);
     });
 
     it("should return 404 for unknown endpoint", async () => {
@@ -215,4 +225,550 @@ describe("HttpAdapter", () => {
       expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
     });
   });
+
+  describe("multiple sessions", () => {
+    const post = (port: number, endpoint: string, body: unknown) =>
+      fetch(`http://localhost:${port}${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }).then(async (r) => ({ status: r.status, data: await r.json() }));
+
+    const get = (port: number, endpoint: string) =>
+      fetch(`http://localhost:${port}${endpoint}`).then(async (r) => ({ status: r.status, data: await r.json() }));
+
+    it("should keep earlier sessions open and route by session", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      const first = await post(port, "/load", { content: "error a\nok", name: "before.log" });
+      const second = await post(port, "/load", { content: "error a\nerror b\nerror c", name: "after.log" });
+      const firstId = first.data.data.sessionId;
+      expect(second.data.data.sessionId).not.toBe(firstId);
+
+      // Without a session, requests go to the last loaded one
+      expect((await post(port, "/query", { command: '(grep "error")' })).data.message).toContain("3 results");
+      expect(
+        (await post(port, "/query", { command: '(grep "error")', session: firstId })).data.message
+      ).toContain("1 results");
+      expect((await get(port, `/stats?session=${firstId}`)).data.data.lineCount).toBe(2);
+
+      const sessions = await get(port, "/sessions");
+      expect(sessions.data.data.map((s: { document: string }) => s.document)).toEqual(["before.log", "after.log"]);
+    });
+
+    it("should fall back to the previous session on close", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "a", session: "left" });
+      await post(port, "/load", { content: "b", session: "right" });
+
+      const closed = await post(port, "/close", {});
+      expect(closed.data.message).toContain("right");
+      expect((await get(port, "/status")).data.data).toMatchObject({ sessionId: "left", default: true });
+      expect(adapter.getTool("left")).not.toBeNull();
+      expect(adapter.getTool("right")).toBeNull();
+    });
+
+    it("should replace a session loaded again under the same ID", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "old", session: "doc" });
+      await post(port, "/load", { content: "new\nlines", session: "doc" });
+
+      expect((await get(port, "/sessions")).data.data).toHaveLength(1);
+      expect((await get(port, "/stats?session=doc")).data.data.lineCount).toBe(2);
+    });
+
+    it("should reject unknown and invalid session IDs", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "a", session: "known" });
+
+      const unknown = await post(port, "/query", { command: "(count RESULTS)", session: "missing" });
+      expect(unknown.status).toBe(400);
+      expect(unknown.data.error).toBe('Unknown session "missing". Open sessions: known');
+
+      const invalid = await post(port, "/load", { content: "a", session: "../x" });
+      expect(invalid.data.error).toContain("Invalid session ID");
+    });
+  });
+
+  describe("handle endpoints", () => {
+    const post = (port: number, endpoint: string, body: unknown) =>
+      fetch(`http://localhost:${port}${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }).then(async (r) => ({ status: r.status, data: await r.json() }));
+
+    const request = (port: number, endpoint: string, method: string = "GET") =>
+      fetch(`http://localhost:${port}${endpoint}`, { method }).then(async (r) => ({
+        status: r.status,
+        data: await r.json(),
+      }));
+
+    it("should list, page through and delete handles", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "error 1\nok\nerror 2\nerror 3\nerror 4", name: "app.log" });
+      const query = await post(port, "/query", { command: '(grep "error")' });
+      expect(query.data.handle).toBe("$res1");
+
+      const list = await request(port, "/handles");
+      expect(list.data.data).toHaveLength(1);
+      expect(list.data.data[0]).toMatchObject({ handle: "$res1", count: 4, results: true });
+
+      const page = await request(port, "/handles/%24res1?limit=2&offset=1");
+      expect(page.status).toBe(200);
+      expect(page.data.data.total).toBe(4);
+      expect(page.data.data.items.map((item: { line: string }) => item.line)).toEqual(["error 2", "error 3"]);
+
+      const short = await request(port, "/handles/res1?limit=1");
+      expect(short.data.data.items).toHaveLength(1);
+
+      // RESULTS points to $res1 until the next array result
+      expect((await request(port, "/handles/res1", "DELETE")).status).toBe(404);
+      await post(port, "/query", { command: '(grep "ok")' });
+
+      const removed = await request(port, "/handles/res1", "DELETE");
+      expect(removed.status).toBe(200);
+      expect((await request(port, "/handles")).data.data).toMatchObject([{ handle: "$res2" }]);
+      expect((await request(port, "/handles/res1")).status).toBe(404);
+    });
+
+    it("should reject bad paging parameters and methods", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "error 1", name: "app.log" });
+      await post(port, "/query", { command: '(grep "error")' });
+
+      expect((await request(port, "/handles/res1?limit=-1")).status).toBe(400);
+      expect((await request(port, "/handles/res1", "PUT")).status).toBe(405);
+    });
+
+    it("should serve an OpenAPI document covering the endpoints", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      const { status, data } = await request(port, "/openapi.json");
+
+      expect(status).toBe(200);
+      expect(data.openapi).toBe("3.1.0");
+      expect(Object.keys(data.paths)).toEqual(
+        expect.arrayContaining(["/load", "/query", "/handles", "/handles/{id}", "/sessions", "/health"])
+      );
+      expect(Object.keys(data.paths["/handles/{id}"])).toEqual(["get", "delete"]);
+    });
+  });
+
+  describe("POST /batch", () => {
+    const post = (port: number, endpoint: string, body: unknown) =>
+      fetch(`http://localhost:${port}${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }).then(async (r) => ({ status: r.status, data: await r.json() }));
+
+    it("should run the commands in one session", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "error 1\nok\nerror 2", name: "app.log" });
+      const batch = await post(port, "/batch", { commands: ['(grep "error")', "(count RESULTS)"] });
+
+      expect(batch.status).toBe(200);
+      expect(batch.data.data).toMatchObject([
+        { success: true, handle: "$res1", count: 2 },
+        { success: true, value: 2 },
+      ]);
+
+      const status = await fetch(`http://localhost:${port}/status`).then((r) => r.json());
+      expect(status.data.queryCount).toBe(2);
+    });
+
+    it("should report the failed step", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await post(port, "/load", { content: "error 1" });
+      const batch = await post(port, "/batch", { commands: ["(bogus", "(count RESULTS)"], stopOnError: true });
+
+      expect(batch.status).toBe(400);
+      expect(batch.data.error).toMatch(/^Step 1 failed/);
+      expect(batch.data.data).toHaveLength(1);
+    });
+  });
+
+  describe("streaming queries", () => {
+    it("should stream the result as a server-sent event", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+
+      await fetch(`http://localhost:${port}/load`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: "error a\nok\nerror b", name: "app.log" }),
+      });
+      const response = await fetch(`http://localhost:${port}/query`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ command: '(grep "error")' }),
+      });
+      const text = await response.text();
+
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      const result = /event: result\ndata: (.*)\n\n$/.exec(text);
+      expect(result).not.toBeNull();
+      const data = JSON.parse(result![1]);
+      expect(data.success).toBe(true);
+      expect(data.data).toHaveLength(2);
+    });
+  });
+
+  describe("access control", () => {
+    let rootDir: string;
+    let guarded: HttpAdapter | null;
+
+    beforeEach(() => {
+      rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "lattice-http-root-"));
+      fs.writeFileSync(path.join(rootDir, "app.log"), "error 1\nok\nerror 2");
+      guarded = null;
+    });
+
+    afterEach(async () => {
+      await guarded?.stop();
+      fs.rmSync(rootDir, { recursive: true });
+    });
+
+    const start = async (options: Omit<HttpAdapterOptions, "port" | "host">) => {
+      const port = 10000 + Math.floor(Math.random() * 10000);
+      guarded = new HttpAdapter({ port, host: "localhost", ...options });
+      await guarded.start();
+      return port;
+    };
+
+    const send = (port: number, endpoint: string, body?: unknown, headers: Record<string, string> = {}) =>
+      fetch(`http://localhost:${port}${endpoint}`, {
+        method: body === undefined ? "GET" : "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+      }).then(async (r) => ({ status: r.status, headers: r.headers, data: await r.json() }));
+
+    it("should require the bearer token except on /health", async () => {
+      const port = await start({ authToken: "s3cret" });
+
+      const missing = await send(port, "/sessions");
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get("WWW-Authenticate")).toContain("Bearer");
+      expect(missing.data).toMatchObject({ success: false });
+      expect(missing.data.error).toContain("Unauthorized");
+
+      const wrong = await send(port, "/sessions", undefined, { Authorization: "Bearer nope" });
+      expect(wrong.status).toBe(401);
+
+      const ok = await send(port, "/sessions", undefined, { Authorization: "Bearer s3cret" });
+      expect(ok.status).toBe(200);
+
+      expect((await send(port, "/health")).status).toBe(200);
+    });
+
+    it("should only load files under the allowed roots", async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), "lattice-http-outside-"));
+      fs.writeFileSync(path.join(outside, "secret.txt"), "password");
+      fs.symlinkSync(path.join(outside, "secret.txt"), path.join(rootDir, "link.txt"));
+      try {
+        const port = await start({ allowedRoots: [rootDir] });
+
+        const inside = await send(port, "/load", { filePath: path.join(rootDir, "app.log") });
+        expect(inside.status).toBe(200);
+
+        const escaped = await send(port, "/load", { filePath: path.join(rootDir, "..", path.basename(outside), "secret.txt") });
+        expect(escaped.status).toBe(403);
+        expect(escaped.data.success).toBe(false);
+
+        const linked = await send(port, "/load", { filePath: path.join(rootDir, "link.txt") });
+        expect(linked.status).toBe(403);
+
+        // A refused load leaves the open session alone
+        const status = await send(port, "/status");
+        expect(status.data.data.document).toBe("app.log");
+
+        // Inline content is not a path, so it is not restricted
+        expect((await send(port, "/load", { content: "inline" })).status).toBe(200);
+      } finally {
+        fs.rmSync(outside, { recursive: true });
+      }
+    });
+
+    it("should reject bodies over the size limit", async () => {
+      const port = await start({ maxBodyBytes: 100 });
+
+      const large = await send(port, "/load", { content: "x".repeat(500) });
+      expect(large.status).toBe(413);
+      expect(large.data.error).toContain("100 bytes");
+
+      expect((await send(port, "/load", { content: "small" })).status).toBe(200);
+    });
+
+    it("should answer malformed JSON with 400", async () => {
+      const port = await start({});
+      const bad = await send(port, "/load", "{not json");
+      expect(bad.status).toBe(400);
+      expect(bad.data.error).toBe("Invalid JSON body");
+    });
+
+    it("should rate limit each client per minute", async () => {
+      const port = await start({ rateLimitPerMinute: 2 });
+
+      expect((await send(port, "/health")).status).toBe(200);
+      expect((await send(port, "/health")).status).toBe(200);
+      const limited = await send(port, "/health");
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+      expect(limited.data.error).toContain("Rate limit");
+    });
+
+    it("should describe bearer auth in the OpenAPI spec", async () => {
+      const port = await start({});
+      const { data } = await send(port, "/openapi.json");
+      expect(data.components.securitySchemes.bearerAuth.scheme).toBe("bearer");
+      expect(data.paths["/query"].post.responses["401"]).toBeDefined();
+      expect(data.paths["/load"].post.responses["403"]).toBeDefined();
+      expect(data.paths["/health"].get.security).toEqual([]);
+    });
+  });
+
+  describe("WebSocket /ws", () => {
+    interface SocketClient {
+      send(message: unknown): void;
+      /** Resolves with the first message (received or still to come) matching */
+      next(match: (message: Record<string, unknown>) => boolean): Promise<Record<string, unknown>>;
+      messages: Array<Record<string, unknown>>;
+      close(): void;
+    }
+
+    const connect = (port: number, query: string = "", headers: Record<string, string> = {}) =>
+      new Promise<SocketClient | number>((resolve, reject) => {
+        const req = http.request({
+          port,
+          host: "localhost",
+          path: `/ws${query}`,
+          headers: {
+            Connection: "Upgrade",
+            Upgrade: "websocket",
+            "Sec-WebSocket-Version": "13",
+            "Sec-WebSocket-Key": randomBytes(16).toString("base64"),
+            ...headers,
+          },
+        });
+        req.on("response", (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        });
+        req.on("error", reject);
+        req.on("upgrade", (_res, socket) => {
+          const reader = new FrameReader();
+          const messages: Array<Record<string, unknown>> = [];
+          let waiters: Array<() => void> = [];
+          socket.on("data", (chunk: Buffer) => {
+            for (const frame of reader.push(chunk)) {
+              if (frame.opcode === Opcode.text) messages.push(JSON.parse(frame.payload.toString()));
+            }
+            waiters.forEach((wake) => wake());
+          });
+          resolve({
+            messages,
+            send: (message) =>
+              socket.write(encodeFrame(Opcode.text, Buffer.from(JSON.stringify(message)), randomBytes(4))),
+            next: (match) =>
+              new Promise((done) => {
+                const check = () => {
+                  const found = messages.find(match);
+                  if (!found) return;
+                  waiters = waiters.filter((wake) => wake !== check);
+                  messages.splice(messages.indexOf(found), 1);
+                  done(found);
+                };
+                waiters.push(check);
+                check();
+              }),
+            close: () => socket.destroy(),
+          });
+        });
+        req.end();
+      });
+
+    const open = async (port: number) => {
+      const client = await connect(port);
+      if (typeof client === "number") throw new Error(`Upgrade refused: ${client}`);
+      return client;
+    };
+
+    const result = (id: unknown) => (m: Record<string, unknown>) => m.type === "result" && m.id === id;
+
+    it("should stream grep matches and end with the handle stub", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+      const client = await open(port);
+
+      client.send({ id: 1, type: "loadContent", content: "error a\nok\nerror b", name: "app.log" });
+      expect((await client.next(result(1))).success).toBe(true);
+
+      client.send({ id: 2, type: "query", command: '(grep "error")' });
+      const done = await client.next(result(2));
+      expect(done).toMatchObject({ success: true, handle: "$res1", count: 2 });
+      expect(done.stub).toContain("$res1");
+      expect(done.data).toBeUndefined();
+
+      const found = client.messages.filter((m) => m.type === "found" && m.id === 2);
+      expect(found.flatMap((m) => m.items as unknown[])).toHaveLength(2);
+
+      client.send({ id: 3, type: "expand", handle: "$res1", limit: 1 });
+      const page = await client.next(result(3));
+      expect((page.data as { items: unknown[] }).items).toHaveLength(1);
+
+      client.send({ id: 4, type: "query", command: '(count (grep "error"))' });
+      expect(await client.next(result(4))).toMatchObject({ success: true, data: 2 });
+      client.close();
+    });
+
+    it("should re-run subscriptions when the document reloads", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+      const client = await open(port);
+
+      await fetch(`http://localhost:${port}/load`, {
+        method: "POST",
+        body: JSON.stringify({ content: "error 1\nok", session: "logs" }),
+      });
+      client.send({ id: "errors", type: "subscribe", command: '(count (grep "error"))', session: "logs" });
+      expect(await client.next(result("errors"))).toMatchObject({ data: 1, trigger: "subscribe" });
+
+      await fetch(`http://localhost:${port}/load`, {
+        method: "POST",
+        body: JSON.stringify({ content: "error 1\nerror 2\nerror 3", session: "logs" }),
+      });
+      expect(await client.next(result("errors"))).toMatchObject({ data: 3, trigger: "reload" });
+
+      client.send({ id: "errors", type: "unsubscribe" });
+      expect(await client.next(result("errors"))).toMatchObject({ success: true });
+      client.close();
+    });
+
+    it("should report bad messages without closing", async () => {
+      await adapter.start();
+      const { port } = adapter.getServerInfo();
+      const client = await open(port);
+
+      client.send({ id: 1, type: "query", command: "(count RESULTS)" });
+      expect((await client.next(result(1))).error).toContain("No active session");
+
+      client.send({ id: 2, type: "nope" });
+      expect((await client.next(result(2))).error).toContain("Unknown message type");
+
+      client.send({ id: 3, type: "help" });
+      expect((await client.next(result(3))).success).toBe(true);
+      client.close();
+    });
+
+    it("should count each message against the rate limit", async () => {
+      const port = 10000 + Math.floor(Math.random() * 10000);
+      const limited = new HttpAdapter({ port, host: "localhost", rateLimitPerMinute: 3 });
+      await limited.start();
+      try {
+        // The upgrade is the first request of the window
+        const client = await open(port);
+        client.send({ id: 1, type: "help" });
+        client.send({ id: 2, type: "help" });
+        client.send({ id: 3, type: "help" });
+        expect((await client.next(result(1))).success).toBe(true);
+        expect((await client.next(result(2))).success).toBe(true);
+        const refused = await client.next(result(3));
+        expect(refused.success).toBe(false);
+        expect(refused.error).toContain("Rate limit exceeded");
+        client.close();
+      } finally {
+        await limited.stop();
+      }
+    });
+
+    it("should check the token on upgrade", async () => {
+      const port = 10000 + Math.floor(Math.random() * 10000);
+      const guarded = new HttpAdapter({ port, host: "localhost", authToken: "s3cret" });
+      await guarded.start();
+      try {
+        expect(await connect(port)).toBe(401);
+        const client = await connect(port, "?token=s3cret");
+        expect(typeof client).toBe("object");
+        (client as SocketClient).close();
+      } finally {
+        await guarded.stop();
+      }
+    });
+  });
+
+  describe("POST /resume", () => {
+    let sessionDir: string;
+    let persistent: HttpAdapter;
+
+    beforeEach(() => {
+      sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), "lattice-http-test-"));
+      const port = 10000 + Math.floor(Math.random() * 10000);
+      persistent = new HttpAdapter({ port, host: "localhost", sessionDir });
+    });
+
+    afterEach(async () => {
+      await persistent.stop();
+      fs.rmSync(sessionDir, { recursive: true });
+    });
+
+    const post = (port: number, endpoint: string, body: unknown) =>
+      fetch(`http://localhost:${port}${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }).then(async (r) => ({ status: r.status, data: await r.json() }));
+
+    it("should resume a session after the server restarts", async () => {
+      await persistent.start();
+      const { port } = persistent.getServerInfo();
+
+      const load = await post(port, "/load", { content: "error here\nok line\nerror again", name: "app.log" });
+      const sessionId = load.data.data.sessionId;
+      expect(sessionId).toMatch(/^session-\d+$/);
+      await post(port, "/query", { command: '(grep "error")' });
+      await persistent.stop();
+
+      const restarted = new HttpAdapter({ port, host: "localhost", sessionDir });
+      await restarted.start();
+      try {
+        const resumed = await post(port, "/resume", { sessionId });
+        expect(resumed.status).toBe(200);
+        expect(resumed.data.data.queryCount).toBe(1);
+
+        const count = await post(port, "/query", { command: "(count RESULTS)" });
+        expect(count.data.data).toBe(2);
+      } finally {
+        await restarted.stop();
+      }
+    });
+
+    it("should reject unknown session IDs", async () => {
+      await persistent.start();
+      const { port } = persistent.getServerInfo();
+
+      const missing = await post(port, "/resume", { sessionId: "session-1" });
+      expect(missing.status).toBe(400);
+      expect(missing.data.error).toContain("No saved session");
+
+      const noId = await post(port, "/resume", {});
+      expect(noId.data.error).toContain("sessionId");
+    });
+  });
 });
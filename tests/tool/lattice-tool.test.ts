@@ -1,4 +1,7 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
 import {
   LatticeTool,
   parseCommand,
@@ -63,6 +66,133 @@ describe("LatticeTool", () => {
     });
   });
 
+  describe("handles", () => {
+    it("should store array results as handles", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok\nerror b\nerror c" });
+
+      const grep = tool.execute({ type: "query", command: '(grep "error")' });
+      const count = tool.execute({ type: "query", command: "(count RESULTS)" });
+      const handles = tool.execute({ type: "handles" });
+
+      expect(grep.handle).toBe("$res1");
+      expect(count.handle).toBeUndefined();
+      expect(handles.data).toEqual([
+        { handle: "$res1", count: 3, stub: "$res1: Array(3) [error a]", results: true },
+      ]);
+    });
+
+    it("should expand a page of a handle", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok\nerror b\nerror c" });
+      tool.execute({ type: "query", command: '(grep "error")' });
+
+      const page = tool.execute({ type: "expand", handle: "$res1", limit: 1, offset: 1 });
+      const data = page.data as { total: number; offset: number; limit: number; items: Array<{ line: string }> };
+
+      expect(page.success).toBe(true);
+      expect(data.total).toBe(3);
+      expect(data.items.map((item) => item.line)).toEqual(["error b"]);
+    });
+
+    it("should list no handles before an array result and drop them on reload", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok" });
+      tool.execute({ type: "query", command: '(count (grep "error"))' });
+      expect(tool.execute({ type: "handles" })).toMatchObject({ success: true, data: [] });
+
+      tool.execute({ type: "query", command: '(grep "error")' });
+      expect(tool.execute({ type: "handles" }).data).toHaveLength(1);
+
+      tool.execute({ type: "loadContent", content: "error b" });
+      expect(tool.execute({ type: "handles" }).data).toEqual([]);
+      expect(tool.execute({ type: "query", command: '(grep "error")' }).handle).toBe("$res1");
+    });
+
+    it("should delete handles", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok" });
+      tool.execute({ type: "query", command: '(grep "error")' });
+      tool.execute({ type: "query", command: '(grep "ok")' });
+
+      expect(tool.execute({ type: "deleteHandle", handle: "$res1" }).success).toBe(true);
+      expect(tool.execute({ type: "handles" }).data).toMatchObject([{ handle: "$res2" }]);
+      expect(tool.execute({ type: "expand", handle: "$res1" }).error).toBe("Invalid handle: $res1");
+      expect(tool.execute({ type: "deleteHandle", handle: "$res1" }).success).toBe(false);
+    });
+
+    it("should refuse to delete the handle RESULTS points to", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok" });
+      tool.execute({ type: "query", command: '(grep "error")' });
+
+      expect(tool.execute({ type: "deleteHandle", handle: "$res1" }).error).toContain("RESULTS points to it");
+      expect(tool.execute({ type: "query", command: "(count RESULTS)" }).data).toBe(1);
+    });
+
+    it("should drop handles on reset", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok" });
+      tool.execute({ type: "query", command: '(grep "error")' });
+      tool.execute({ type: "reset" });
+
+      expect(tool.execute({ type: "handles" }).data).toEqual([]);
+      expect(tool.execute({ type: "expand", handle: "$res1" }).success).toBe(false);
+    });
+  });
+
+  describe("batch", () => {
+    it("should run the steps in order and summarize each", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok\nerror b timeout\nerror c" });
+
+      const result = tool.execute({
+        type: "batch",
+        commands: ['(grep "error")', '(filter RESULTS (lambda x (match x "timeout" 0)))', "(count RESULTS)"],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Ran 3 of 3 steps");
+      expect(result.data).toEqual([
+        { command: '(grep "error")', success: true, handle: "$res1", count: 3, stub: "$res1: Array(3) [error a]" },
+        {
+          command: '(filter RESULTS (lambda x (match x "timeout" 0)))',
+          success: true,
+          handle: "$res2",
+          count: 1,
+          stub: "$res2: Array(1) [error b timeout]",
+        },
+        { command: "(count RESULTS)", success: true, value: 1 },
+      ]);
+    });
+
+    it("should stop at the first failure only with stopOnError", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nok" });
+      const commands = ['(grep "error")', "(bogus", "(count RESULTS)"];
+
+      const all = tool.execute({ type: "batch", commands });
+      expect(all.success).toBe(false);
+      expect(all.error).toMatch(/^Step 2 failed: /);
+      expect(all.data).toHaveLength(3);
+
+      const stopped = tool.execute({ type: "batch", commands, stopOnError: true });
+      expect(stopped.data).toHaveLength(2);
+      expect(stopped.message).toBe("Ran 2 of 3 steps");
+    });
+
+    it("should run asynchronously and reject malformed batches", async () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "error a\nerror b" });
+
+      const result = await tool.executeAsync({ type: "batch", commands: ['(grep "error")', "(count RESULTS)"] });
+      expect((result.data as Array<{ value?: unknown }>)[1].value).toBe(2);
+
+      expect(tool.execute({ type: "batch", commands: [] }).error).toBe("Batch has no commands");
+      expect(tool.execute({ type: "batch", commands: [1] as unknown as string[] }).success).toBe(false);
+    });
+  });
+
   describe("bindings", () => {
     it("should return current bindings", () => {
       const tool = new LatticeTool();
@@ -155,6 +285,109 @@ describe("LatticeTool", () => {
       expect(tool.getDocumentName()).toBe("my-doc");
     });
   });
+
+  describe("resume", () => {
+    let sessionDir: string;
+
+    beforeEach(() => {
+      sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), "lattice-tool-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(sessionDir, { recursive: true });
+    });
+
+    it("should restore the document and RESULTS in a new tool", () => {
+      const first = new LatticeTool({ sessionDir });
+      const loaded = first.execute({ type: "loadContent", content: "error a\nok\nerror b", name: "app.log" });
+      const sessionId = (loaded.data as { sessionId: string }).sessionId;
+      first.execute({ type: "query", command: '(grep "error")' });
+      first.execute({ type: "query", command: "(count RESULTS)" });
+      first.close();
+
+      const second = new LatticeTool({ sessionDir });
+      const resumed = second.execute({ type: "resume", sessionId });
+      expect(resumed.success).toBe(true);
+      expect(resumed.data).toMatchObject({ sessionId, queryCount: 2 });
+      expect(second.getDocumentName()).toBe("app.log");
+      expect(second.execute({ type: "query", command: "(count RESULTS)" }).data).toBe(2);
+      second.close();
+    });
+
+    it("should restore _N bindings and continue their numbering", () => {
+      const first = new LatticeTool({ sessionDir });
+      first.execute({ type: "loadContent", content: "error a\nok\nerror b" });
+      // A failed query takes _1 but is not counted as a saved query
+      expect(first.execute({ type: "query", command: "(count _9)" }).success).toBe(false);
+      first.execute({ type: "query", command: '(grep "error")' });
+      first.execute({ type: "query", command: '(grep "ok")' });
+      first.execute({ type: "query", command: "(count _2)" });
+      const sessionId = first.getSessionId()!;
+      first.close();
+
+      const second = new LatticeTool({ sessionDir });
+      second.execute({ type: "resume", sessionId });
+      expect(second.execute({ type: "query", command: "(count _2)" }).data).toBe(2);
+      expect(second.execute({ type: "query", command: "(count _3)" }).data).toBe(1);
+      expect(second.execute({ type: "query", command: "(count RESULTS)" }).data).toBe(1);
+      expect(second.getEngine().getBinding("_4")).toBe(2);
+      expect(second.getEngine().getBinding("_5")).toBe(2);
+      second.close();
+    });
+
+    it("should restore synthesized functions", () => {
+      const first = new LatticeTool({ sessionDir });
+      first.execute({ type: "loadContent", content: "price €100" });
+      first.execute({ type: "query", command: '(define-fn "euro" :examples [("€100" 100) ("€250" 250)])' });
+      const sessionId = first.getSessionId()!;
+      first.close();
+
+      const second = new LatticeTool({ sessionDir });
+      second.execute({ type: "resume", sessionId });
+      expect(second.execute({ type: "query", command: '(apply-fn "euro" "€500")' }).data).toBe(500);
+      second.close();
+    });
+
+    it("should save under a given session ID and start it fresh on reload", () => {
+      const tool = new LatticeTool({ sessionDir, sessionId: "before" });
+      tool.execute({ type: "loadContent", content: "error a\nerror b" });
+      tool.execute({ type: "query", command: '(grep "error")' });
+      tool.execute({ type: "loadContent", content: "ok" });
+      expect(tool.getSessionId()).toBe("before");
+      tool.close();
+
+      const resumed = new LatticeTool({ sessionDir });
+      expect(resumed.execute({ type: "resume", sessionId: "before" }).data).toMatchObject({ queryCount: 0 });
+      resumed.close();
+    });
+
+    it("should not bring back bindings cleared by reset", () => {
+      const first = new LatticeTool({ sessionDir });
+      first.execute({ type: "loadContent", content: "error a" });
+      first.execute({ type: "query", command: '(grep "error")' });
+      first.execute({ type: "reset" });
+      const sessionId = first.getSessionId()!;
+      first.close();
+
+      const second = new LatticeTool({ sessionDir });
+      second.execute({ type: "resume", sessionId });
+      expect(second.execute({ type: "query", command: "(count RESULTS)" }).success).toBe(false);
+      second.close();
+    });
+
+    it("should fail for unknown sessions or without a session directory", () => {
+      expect(new LatticeTool({ sessionDir }).execute({ type: "resume", sessionId: "session-1" }).error)
+        .toContain('No saved session "session-1"');
+      expect(new LatticeTool().execute({ type: "resume", sessionId: "session-1" }).error)
+        .toContain("persistence is disabled");
+    });
+
+    it("should not save sessions by default", () => {
+      const tool = new LatticeTool();
+      tool.execute({ type: "loadContent", content: "test" });
+      expect(tool.getSessionId()).toBeNull();
+    });
+  });
 });
 
 describe("parseCommand", () => {
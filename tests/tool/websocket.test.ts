@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { randomBytes } from "node:crypto";
+import { PassThrough } from "node:stream";
+import {
+  FrameReader,
+  Opcode,
+  WebSocketConnection,
+  acceptKey,
+  encodeFrame,
+} from "../../src/tool/adapters/websocket.js";
+
+describe("websocket", () => {
+  describe("acceptKey", () => {
+    it("should match the RFC 6455 example", () => {
+      expect(acceptKey("dGhlIHNhbXBsZSBub25jZQ==")).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+    });
+  });
+
+  describe("frames", () => {
+    it("should round-trip masked frames of every length encoding", () => {
+      const reader = new FrameReader();
+      for (const size of [0, 125, 126, 65535, 65536]) {
+        const payload = randomBytes(size);
+        const frames = reader.push(encodeFrame(Opcode.text, payload, randomBytes(4)));
+        expect(frames).toHaveLength(1);
+        expect(frames[0]).toMatchObject({ fin: true, opcode: Opcode.text });
+        expect(frames[0].payload.equals(payload)).toBe(true);
+      }
+    });
+
+    it("should wait for frames split across chunks", () => {
+      const reader = new FrameReader();
+      const bytes = Buffer.concat([
+        encodeFrame(Opcode.text, Buffer.from("first")),
+        encodeFrame(Opcode.ping, Buffer.from("second")),
+      ]);
+      expect(reader.push(bytes.subarray(0, 4))).toEqual([]);
+      const frames = reader.push(bytes.subarray(4));
+      expect(frames.map((f) => f.payload.toString())).toEqual(["first", "second"]);
+    });
+
+    it("should refuse frames over the size limit", () => {
+      const reader = new FrameReader(10);
+      expect(() => reader.push(encodeFrame(Opcode.text, Buffer.alloc(11)))).toThrow("exceeds");
+    });
+  });
+
+  describe("WebSocketConnection", () => {
+    const frame = (opcode: number, text: string | Buffer, fin = true) => {
+      const bytes = encodeFrame(opcode, Buffer.from(text), randomBytes(4));
+      if (!fin) bytes[0] &= 0x7f;
+      return bytes;
+    };
+
+    it("should join fragmented messages and answer pings", () => {
+      const socket = new PassThrough();
+      const sent: Buffer[] = [];
+      socket.write = ((chunk: Buffer) => sent.push(chunk)) as typeof socket.write;
+      const messages: string[] = [];
+      new WebSocketConnection(socket, { onMessage: (text) => messages.push(text) });
+
+      socket.emit("data", frame(Opcode.text, '{"type":', false));
+      socket.emit("data", frame(Opcode.ping, "hi"));
+      socket.emit("data", frame(Opcode.continuation, '"help"}'));
+
+      expect(messages).toEqual(['{"type":"help"}']);
+      const [pong] = new FrameReader().push(sent[0]);
+      expect(pong).toMatchObject({ opcode: Opcode.pong });
+      expect(pong.payload.toString()).toBe("hi");
+    });
+
+    it("should close on messages over maxMessageBytes", () => {
+      const socket = new PassThrough();
+      let closed = false;
+      const connection = new WebSocketConnection(socket, {
+        maxMessageBytes: 8,
+        onMessage: () => {},
+        onClose: () => {
+          closed = true;
+        },
+      });
+
+      socket.emit("data", frame(Opcode.text, "12345", false));
+      socket.emit("data", frame(Opcode.continuation, "67890"));
+
+      expect(closed).toBe(true);
+      expect(connection.isOpen()).toBe(false);
+    });
+
+    const closeFrame = (socket: PassThrough) => {
+      const sent: Buffer[] = [];
+      socket.end = ((chunk: Buffer) => sent.push(chunk)) as typeof socket.end;
+      return () => {
+        const [frame] = new FrameReader().push(sent[0]);
+        expect(frame.opcode).toBe(Opcode.close);
+        return { code: frame.payload.readUInt16BE(0), reason: frame.payload.subarray(2) };
+      };
+    };
+
+    it("should close with 1002 on unmasked client frames", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      const messages: string[] = [];
+      const connection = new WebSocketConnection(socket, { onMessage: (text) => messages.push(text) });
+
+      socket.emit("data", encodeFrame(Opcode.text, Buffer.from('{"type":"help"}')));
+
+      expect(messages).toEqual([]);
+      expect(connection.isOpen()).toBe(false);
+      expect(sentClose().code).toBe(1002);
+    });
+
+    it("should close with 1002 on frames with RSV bits set", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      const connection = new WebSocketConnection(socket, { onMessage: () => {} });
+
+      const bytes = frame(Opcode.text, '{"type":"help"}');
+      bytes[0] |= 0x40;
+      socket.emit("data", bytes);
+
+      expect(connection.isOpen()).toBe(false);
+      expect(sentClose().code).toBe(1002);
+    });
+
+    it("should close with 1002 on fragmented or oversized control frames", () => {
+      for (const bytes of [frame(Opcode.ping, "hi", false), frame(Opcode.ping, "x".repeat(126))]) {
+        const socket = new PassThrough();
+        // Keep a pong from echoing back through the PassThrough
+        socket.write = (() => true) as typeof socket.write;
+        const sentClose = closeFrame(socket);
+        const connection = new WebSocketConnection(socket, { onMessage: () => {} });
+
+        socket.emit("data", bytes);
+
+        expect(connection.isOpen()).toBe(false);
+        expect(sentClose().code).toBe(1002);
+      }
+    });
+
+    it("should close with 1007 on text that is not valid UTF-8", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      const messages: string[] = [];
+      const connection = new WebSocketConnection(socket, { onMessage: (text) => messages.push(text) });
+
+      // A two-byte sequence split across fragments is fine; a lone lead byte is not
+      const e = Buffer.from("é");
+      socket.emit("data", frame(Opcode.text, e.subarray(0, 1), false));
+      socket.emit("data", frame(Opcode.continuation, e.subarray(1)));
+      socket.emit("data", frame(Opcode.text, Buffer.from([0x7b, 0xc3])));
+
+      expect(messages).toEqual(["é"]);
+      expect(connection.isOpen()).toBe(false);
+      expect(sentClose().code).toBe(1007);
+    });
+
+    it("should echo the peer's close code", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      const connection = new WebSocketConnection(socket, { onMessage: () => {} });
+
+      const payload = Buffer.from([0x0f, 0xa1, 0x62, 0x79, 0x65]); // 4001 "bye"
+      socket.emit("data", frame(Opcode.close, payload));
+
+      expect(connection.isOpen()).toBe(false);
+      expect(sentClose().code).toBe(4001);
+    });
+
+    it("should close with 1002 on close codes a peer may not send", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      new WebSocketConnection(socket, { onMessage: () => {} });
+
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(1005, 0);
+      socket.emit("data", frame(Opcode.close, payload));
+
+      expect(sentClose().code).toBe(1002);
+    });
+
+    it("should clip close reasons to fit a control frame", () => {
+      const socket = new PassThrough();
+      const sentClose = closeFrame(socket);
+      const connection = new WebSocketConnection(socket, { onMessage: () => {} });
+
+      connection.close(1000, "é".repeat(100));
+
+      const { code, reason } = sentClose();
+      expect(code).toBe(1000);
+      expect(reason.length).toBe(122);
+      expect(reason.toString("utf-8")).toBe("é".repeat(61));
+    });
+  });
+});